@@ -31,6 +31,7 @@ let json: ManifestV3Export = {
     "storage",
     "contextMenus",
     "identity.email",
+    "alarms",
   ],
   content_scripts: [
     {
@@ -43,7 +44,8 @@ let json: ManifestV3Export = {
     service_worker: "src/background.ts",
     type: "module",
   },
-  host_permissions: ["https://www.youdao.com/*", "https://dict.youdao.com/*"],
+  host_permissions: ["https://www.youdao.com/*", "https://dict.youdao.com/*", "http://127.0.0.1/*", "http://localhost/*"],
+  optional_host_permissions: ["http://*/*", "https://*/*"],
   externally_connectable: {
     matches: ["http://localhost:7777/*", "https://*.mywords.cc/*"],
   },
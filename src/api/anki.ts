@@ -0,0 +1,210 @@
+/**
+ * AnkiConnect 同步
+ * - 通过 AnkiConnect JSON 协议（本地 HTTP 服务）在指定牌组中新增/更新笔记，可选删除笔记
+ * - 需用户在设置里配置牌组、笔记类型与字段映射；Anki 未启动时请求失败，由同步分发忽略
+ * - ankiProvider 是 Anki 的同步目标（见 api/sync）
+ */
+import { getSetting } from "@/storage/sync"
+import type { AnkiField, AnkiInfo } from "@/types"
+import type { Sww } from "@/types/words"
+import { sendBackgroundFetch } from "@/utils"
+import { escapeHtml, fetchDefinition } from "@/utils/transfer"
+import type { SyncProvider } from "./sync"
+
+/** AnkiConnect 默认地址 */
+export const defaultAnkiAddress = 'http://127.0.0.1:8765'
+
+/** 默认字段映射（对应 Anki 自带的 Basic 笔记类型） */
+export const defaultAnkiFields: Partial<Record<AnkiField, string>> = {
+  word: 'Front',
+  definition: 'Back',
+}
+
+/** 新增笔记时附加的标签 */
+const ankiTag = 'lingo-link'
+
+/**
+ * 调用 AnkiConnect 接口
+ * @param action - 接口名称
+ * @param params - 接口参数
+ * @param address - AnkiConnect 地址
+ * @returns 接口返回的 result，出错时抛出 AnkiConnect 返回的错误信息
+ */
+export const invokeAnki = async <T = unknown>(action: string, params: Record<string, unknown> = {}, address?: string): Promise<T> => {
+  const res = await sendBackgroundFetch({
+    url: address || defaultAnkiAddress,
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({action, version: 6, params}),
+    responseType: 'json',
+  })
+  if (!res || res.error) {
+    throw new Error(res?.error ?? 'AnkiConnect request failed')
+  }
+  return res.result
+}
+
+/**
+ * 是否已配置牌组、笔记类型与单词字段
+ * @param ankiInfo - 同步配置
+ */
+const isAnkiReady = (ankiInfo?: AnkiInfo) => {
+  const fields = ankiInfo?.fields ?? defaultAnkiFields
+  return Boolean(ankiInfo?.deckName && ankiInfo.modelName && fields.word)
+}
+
+/**
+ * 获取可用的同步配置
+ * @returns 同步配置
+ * @throws 配置不完整时抛出错误
+ */
+const getAnkiInfo = async () => {
+  const ankiInfo = (await getSetting()).ankiInfo
+  if (!isAnkiReady(ankiInfo)) {
+    throw new Error('Anki is not configured')
+  }
+  return {...ankiInfo, fields: ankiInfo?.fields ?? defaultAnkiFields} as AnkiInfo & {fields: Partial<Record<AnkiField, string>>}
+}
+
+/**
+ * 转义 Anki 搜索语法中的特殊字符
+ * @param text - 文本
+ * @returns 转义后的文本
+ */
+const escapeQuery = (text: string) => text.replace(/([\\"*_:])/g, '\\$1')
+
+/**
+ * 还原 Anki 字段中的 HTML（escapeHtml 的逆操作）
+ * @param html - 字段内容
+ * @returns 纯文本
+ */
+const unescapeHtml = (html: string) =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+
+/**
+ * 在目标牌组中按单词字段查找笔记（字段中保存的是转义后的单词）
+ * @param word - 单词
+ * @param ankiInfo - 同步配置
+ * @returns 笔记ID数组
+ */
+const findNotes = (word: string, ankiInfo: AnkiInfo & {fields: Partial<Record<AnkiField, string>>}) => {
+  return invokeAnki<number[]>('findNotes', {
+    query: `"deck:${escapeQuery(ankiInfo.deckName!)}" "${escapeQuery(ankiInfo.fields.word!)}:${escapeQuery(escapeHtml(word))}"`,
+  }, ankiInfo.address)
+}
+
+/**
+ * 根据字段映射生成笔记字段与发音
+ * @param sww - 单词
+ * @param ankiInfo - 同步配置
+ * @returns 笔记字段与发音附件
+ */
+const buildNote = async (sww: Sww, ankiInfo: AnkiInfo & {fields: Partial<Record<AnkiField, string>>}) => {
+  const {fields: mapping} = ankiInfo
+  const lang = (await getSetting()).sourceLanguage?.language ?? 'en'
+  const fields: Record<string, string> = {[mapping.word!]: escapeHtml(sww.word)}
+  if (mapping.context) {
+    fields[mapping.context] = escapeHtml(sww.context ?? '')
+  }
+  if (mapping.definition) {
+    fields[mapping.definition] = escapeHtml(await fetchDefinition(sww.word, lang))
+  }
+  // 发音由 Anki 自行下载有道语音并写入字段
+  const audio = mapping.audio ? [{
+    url: `https://dict.youdao.com/dictvoice?audio=${encodeURIComponent(sww.word)}&le=${lang}&type=2`,
+    filename: `lingo-link-${sww.word.replace(/[^\w-]/g, '_')}.mp3`,
+    fields: [mapping.audio],
+  }] : undefined
+  return {fields, audio}
+}
+
+/**
+ * 推送单词到 Anki：目标牌组中已有同名笔记时更新字段，否则新增笔记
+ * @param sww - 单词
+ */
+export const addWordAnki = async (sww: Sww) => {
+  const ankiInfo = await getAnkiInfo()
+  const [noteIds, note] = await Promise.all([findNotes(sww.word, ankiInfo), buildNote(sww, ankiInfo)])
+  if (noteIds.length) {
+    await invokeAnki('updateNoteFields', {note: {id: noteIds[0], ...note}}, ankiInfo.address)
+  } else {
+    await invokeAnki('addNote', {
+      note: {
+        deckName: ankiInfo.deckName,
+        modelName: ankiInfo.modelName,
+        tags: [ankiTag],
+        options: {allowDuplicate: false},
+        ...note,
+      },
+    }, ankiInfo.address)
+  }
+}
+
+/**
+ * 更新 Anki 笔记中的上下文字段（更新不含上下文、未映射上下文或没有对应笔记时忽略）
+ * 复习/测验等更新不含上下文，直接返回，不查询 Anki
+ * @param sww - 单词更新
+ */
+export const updateWordAnki = async (sww: Pick<Sww, 'word' | 'context'>) => {
+  if (sww.context === undefined) {
+    return
+  }
+  const ankiInfo = await getAnkiInfo()
+  if (!ankiInfo.fields.context) {
+    return
+  }
+  const noteIds = await findNotes(sww.word, ankiInfo)
+  if (noteIds.length) {
+    await invokeAnki('updateNoteFields', {note: {id: noteIds[0], fields: {[ankiInfo.fields.context]: escapeHtml(sww.context)}}}, ankiInfo.address)
+  }
+}
+
+/**
+ * 删除 Anki 中对应的笔记（需在设置中开启）
+ * @param word - 单词
+ */
+export const removeWordAnki = async (word: string) => {
+  const ankiInfo = await getAnkiInfo()
+  if (!ankiInfo.syncRemove) {
+    return
+  }
+  const noteIds = await findNotes(word, ankiInfo)
+  if (noteIds.length) {
+    await invokeAnki('deleteNotes', {notes: noteIds}, ankiInfo.address)
+  }
+}
+
+/**
+ * 读取目标牌组中全部笔记的单词与上下文字段
+ * @returns 单词数组
+ */
+export const getWordListAnki = async () => {
+  const ankiInfo = await getAnkiInfo()
+  const noteIds = await invokeAnki<number[]>('findNotes', {query: `"deck:${escapeQuery(ankiInfo.deckName!)}"`}, ankiInfo.address)
+  const notes = await invokeAnki<{fields: Record<string, {value: string}>}[]>('notesInfo', {notes: noteIds}, ankiInfo.address)
+  return notes
+    .map(note => ({
+      word: unescapeHtml(note.fields[ankiInfo.fields.word!]?.value ?? ''),
+      context: ankiInfo.fields.context && note.fields[ankiInfo.fields.context] ? unescapeHtml(note.fields[ankiInfo.fields.context].value) : undefined,
+    }))
+    .filter(item => item.word)
+}
+
+/** Anki 同步目标 */
+export const ankiProvider: SyncProvider = {
+  id: 'anki',
+  name: 'Anki',
+  isReady: (setting) => isAnkiReady(setting.ankiInfo),
+  add: addWordAnki,
+  remove: removeWordAnki,
+  update: updateWordAnki,
+  pull: getWordListAnki,
+  healthCheck: async () => {
+    await invokeAnki('version', {}, (await getAnkiInfo()).address)
+  },
+}
@@ -0,0 +1,312 @@
+/**
+ * 翻译引擎注册表
+ * - 每个引擎声明 ID、显示名称、能力（单词/句子/对话/流式/支持的源语言）、设置项与实现
+ * - translate()、getChat、引擎下拉菜单与引擎设置页都由注册表驱动
+ * - 新增引擎只需实现翻译函数或对话类，并在 engineProviders 中加入一项
+ * - 用户定义的 OpenAI 兼容接口配置（见 api/openAIProfile）作为动态引擎，引擎值为 `profile:<配置ID>`
+ * - 单词/句子引擎的默认列表（allWordEngineList/allSentenceEngineList）由注册表生成，用户的排序与启用状态保存在设置中
+ */
+import type { EngineItem, OpenAIProfile, Secrets, Setting } from "@/types";
+import type { Chat } from "@/types/chat";
+import { defaultSetting, type LangCode } from "@/utils/const";
+import OpenAIClass from "./openAI";
+import type { ChatConstructor } from "./openAICompatible";
+import { createProfileChat, getProfileEngineId, getProfileId } from "./openAIProfile";
+import DeepSeekClass from "./deepSeek";
+import GeminiClass from "./gemini";
+import WenxinClass from "./wenxin";
+import MoonShotClass from "./moonShot";
+import CustomAIClass from "./customAI";
+import googleTranslate from "./google";
+import deepLXTranslate from "./deeplx";
+import youdaoTranslate from "./youdaoTranslate";
+
+// ===================== 类型定义 =====================
+
+/** 引擎能力 */
+export interface EngineCapabilities {
+  /** 可用于查单词 */
+  word: boolean;
+  /** 可用于翻译句子 */
+  sentence: boolean;
+  /** 对话类引擎（支持提示词与追问） */
+  chat: boolean;
+  /** 流式返回结果 */
+  streaming: boolean;
+  /** 支持的源语言，未设置时支持全部语言 */
+  languages?: LangCode[];
+}
+
+/** 引擎设置项：保存在设置（同步）或本地密钥库中 */
+export type EngineSettingField = {
+  /** 显示名称 */
+  label: string;
+  /** 获取方式链接 */
+  link?: string;
+} & (
+  | { store: "setting"; key: keyof Setting; default?: string }
+  | { store: "secret"; key: keyof Secrets }
+);
+
+/** 非对话引擎的翻译参数 */
+export interface EngineTranslateParam {
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+}
+
+/** 引擎 */
+export interface EngineProvider<Id extends string = string> {
+  id: Id;
+  /** 显示名称 */
+  name: string;
+  /** 图标地址 */
+  icon?: string;
+  capabilities: EngineCapabilities;
+  /** 是否默认启用 */
+  enabled: boolean;
+  /** 设置项，没有时设置页不显示该引擎 */
+  settings?: EngineSettingField[];
+  /** 设置说明 */
+  settingsTip?: string;
+  /** 非对话引擎的翻译实现 */
+  translate?: (param: EngineTranslateParam) => Promise<string | undefined>;
+  /** 对话引擎的实现类 */
+  chat?: new (options: ChatConstructor) => Chat;
+}
+
+/**
+ * 声明引擎（保留引擎ID的字面量类型，用于推导 EngineValue）
+ * @param provider - 引擎
+ * @returns 引擎
+ */
+const defineEngine = <Id extends string>(provider: EngineProvider<Id>) => provider;
+
+/** 对话引擎的能力 */
+const chatCapabilities: EngineCapabilities = {
+  word: true,
+  sentence: true,
+  chat: true,
+  streaming: true,
+};
+
+// ===================== 引擎列表 =====================
+
+/** 全部引擎，顺序即默认顺序 */
+export const engineProviders = [
+  defineEngine({
+    id: "youdao",
+    name: "Youdao",
+    icon:
+      "https://qph.cf2.poecdn.net/main-thumb-pb-1091482-200-ufgqhqgohdggdfzitfacamfxuamtfbye.jpeg",
+    capabilities: { word: true, sentence: true, chat: false, streaming: false },
+    enabled: true,
+    translate: ({ text, sourceLang, targetLang }) =>
+      youdaoTranslate({ text, source: sourceLang, target: targetLang }),
+  }),
+  defineEngine({
+    id: "collins",
+    name: "Collins",
+    capabilities: {
+      word: true,
+      sentence: false,
+      chat: false,
+      streaming: false,
+      languages: ["en"],
+    },
+    enabled: true,
+  }),
+  defineEngine({
+    id: "google",
+    name: "Google",
+    icon:
+      "https://qph.cf2.poecdn.net/main-thumb-pb-3655359-200-eomiajapmpmpgnwktjnxhcfbdlueukgq.jpeg",
+    capabilities: { word: false, sentence: true, chat: false, streaming: false },
+    enabled: true,
+    translate: ({ text, targetLang }) => googleTranslate({ text, targetLang }),
+  }),
+  defineEngine({
+    id: "openai",
+    name: "OpenAI",
+    icon:
+      "https://qph.cf2.poecdn.net/main-thumb-pb-3004-200-jougqzjtwfqfyqprxbdwofvnwattmtrg.jpeg",
+    capabilities: chatCapabilities,
+    enabled: false,
+    settings: [
+      { store: "secret", key: "openAIKey", label: "apiKey" },
+      {
+        store: "setting",
+        key: "openAIAddress",
+        label: "apiAddress",
+        default: defaultSetting.openAIAddress,
+      },
+    ],
+    chat: OpenAIClass,
+  }),
+  defineEngine({
+    id: "gemini",
+    name: "Gemini",
+    icon:
+      "https://qph.cf2.poecdn.net/main-thumb-pb-3669463-200-hqyxuiygtmnetolnimubmwhakbsueapd.jpeg",
+    capabilities: chatCapabilities,
+    enabled: false,
+    settings: [
+      {
+        store: "secret",
+        key: "geminiKey",
+        label: "apiKey",
+        link: "https://ai.google.dev/tutorials/setup",
+      },
+    ],
+    chat: GeminiClass,
+  }),
+  defineEngine({
+    id: "wenxin",
+    name: "文心一言",
+    icon:
+      "https://qph.cf2.poecdn.net/main-thumb-pb-3669463-200-hqyxuiygtmnetolnimubmwhakbsueapd.jpeg",
+    capabilities: chatCapabilities,
+    enabled: false,
+    settings: [
+      {
+        store: "secret",
+        key: "wenxinToken",
+        label: "AccesToken",
+        link: "https://cloud.baidu.com/doc/WENXINWORKSHOP/s/Ilkkrb0i5",
+      },
+    ],
+    chat: WenxinClass,
+  }),
+  defineEngine({
+    id: "deepseek",
+    name: "DeepSeek",
+    capabilities: chatCapabilities,
+    enabled: false,
+    settings: [
+      {
+        store: "secret",
+        key: "deepSeekApiKey",
+        label: "apiKey",
+        link: "https://platform.deepseek.com/docs",
+      },
+    ],
+    chat: DeepSeekClass,
+  }),
+  defineEngine({
+    id: "moonshot",
+    name: "moonshot",
+    icon:
+      "https://qph.cf2.poecdn.net/main-thumb-pb-1160656-200-rzstcnvivfmlwjkijfkbhhpclcrjhopa.jpeg",
+    capabilities: chatCapabilities,
+    enabled: false,
+    settings: [
+      {
+        store: "secret",
+        key: "moonShotKey",
+        label: "apiKey",
+        link: "https://platform.moonshot.cn/docs/api-reference",
+      },
+    ],
+    chat: MoonShotClass,
+  }),
+  defineEngine({
+    id: "deeplx",
+    name: "DeepLX",
+    capabilities: { word: false, sentence: true, chat: false, streaming: false },
+    enabled: false,
+    settings: [{ store: "setting", key: "deepLXAddress", label: "apiAddress" }],
+    translate: ({ text }) => deepLXTranslate({ text }),
+  }),
+  defineEngine({
+    id: "custom",
+    name: "Custom",
+    capabilities: chatCapabilities,
+    enabled: false,
+    settings: [
+      { store: "setting", key: "customAIAddress", label: "apiAddress" },
+      { store: "setting", key: "customAIModel", label: "model" },
+      { store: "secret", key: "customAIKey", label: "apiKey" },
+    ],
+    settingsTip: "API format need compatible with OpenAI",
+    chat: CustomAIClass,
+  }),
+];
+
+/** 引擎ID */
+export type EngineId = (typeof engineProviders)[number]["id"];
+
+// ===================== 查询 =====================
+
+/**
+ * 按ID查找引擎（包括接口配置引擎）
+ * @param id - 引擎ID
+ * @param profiles - 接口配置（用于接口配置引擎的名称，未提供或配置已删除时使用配置ID）
+ * @returns 引擎，不存在时为 undefined
+ */
+export const getEngine = (
+  id: string,
+  profiles: OpenAIProfile[] = []
+): EngineProvider | undefined => {
+  const profileId = getProfileId(id);
+  if (profileId) {
+    return {
+      id,
+      name: profiles.find((item) => item.id === profileId)?.name || profileId,
+      capabilities: chatCapabilities,
+      enabled: true,
+      chat: createProfileChat(profileId),
+    };
+  }
+  return engineProviders.find((item) => item.id === id);
+};
+
+/**
+ * 引擎是否支持指定的源语言
+ * @param id - 引擎ID
+ * @param language - 源语言
+ * @returns 是否支持
+ */
+export const isEngineLanguageSupported = (id: string, language?: string) => {
+  const languages = getEngine(id)?.capabilities.languages;
+  return !languages || !language || languages.includes(language as LangCode);
+};
+
+/**
+ * 由引擎生成设置中保存的引擎列表项
+ * @param provider - 引擎
+ * @returns 引擎列表项
+ */
+const toEngineItem = (provider: (typeof engineProviders)[number]): EngineItem => {
+  const { word, sentence, chat } = provider.capabilities;
+  return {
+    name: provider.name,
+    value: provider.id,
+    isChat: chat,
+    checked: provider.enabled,
+    compatible: word && sentence ? "both" : word ? "word" : "sentence",
+  };
+};
+
+/** 默认的单词引擎列表 */
+export const allWordEngineList = engineProviders
+  .filter((item) => item.capabilities.word)
+  .map(toEngineItem);
+
+/** 默认的句子引擎列表 */
+export const allSentenceEngineList = engineProviders
+  .filter((item) => item.capabilities.sentence)
+  .map(toEngineItem);
+
+/**
+ * 由接口配置生成引擎列表项（单词与句子引擎列表共用）
+ * @param profiles - 接口配置
+ * @returns 引擎列表项
+ */
+export const getProfileEngineList = (profiles: OpenAIProfile[] = []): EngineItem[] =>
+  profiles.map((profile) => ({
+    name: profile.name,
+    value: getProfileEngineId(profile.id),
+    isChat: true,
+    checked: true,
+    compatible: "both",
+  }));
@@ -14,7 +14,7 @@
  */
 import type { Chat, Message } from "@/types/chat";
 import { ChatConstructor } from "./openAI";
-import { getSetting } from "@/storage/sync";
+import { getSecret } from "@/storage/secret";
 import { toastManager } from "@/components/Toast";
 
 /**
@@ -112,7 +112,7 @@ export default class GeminiClass implements Chat {
     }
 
     // 获取用户设置的Gemini API密钥
-    const key = (await getSetting()).geminiKey;
+    const key = await getSecret('geminiKey');
     if (!key) {
       toastManager.add({
         type: 'error',
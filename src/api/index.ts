@@ -24,6 +24,7 @@ interface Login {
 
 /**
  * 统一请求函数：自动附加 token / JSON 头 / 错误处理
+ * quiet 为 true 时出错只抛出、不弹出提示（由 outbox 在 background 中重试的请求）
  */
 const request = async (
   url: string,
@@ -32,6 +33,7 @@ const request = async (
     headers?: Record<string, string>;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     body?: any;
+    quiet?: boolean;
   }
 ) => {
   const setting = await getSetting();
@@ -55,16 +57,20 @@ const request = async (
   const res = await fetch(`${baseUrl}${url}`, options);
   const json = await res.json();
   if (json.error) {
-    toastManager.add({ msg: json.error, type: "error" });
+    if (!options.quiet) {
+      toastManager.add({ msg: json.error, type: "error" });
+    }
     throw json.error;
   }
   return json;
 };
 
+/** 单词的新增/更新/删除只由 outbox（api/outbox）发送，失败时由 outbox 记录并重试 */
 export const addSwwApi = async (param: Sww) => {
   return request("/word/add", {
     method: "POST",
     body: param,
+    quiet: true,
   });
 };
 export const updateWordApi = async (
@@ -73,16 +79,19 @@ export const updateWordApi = async (
   return request("/word/update", {
     method: "POST",
     body: param,
+    quiet: true,
   });
 };
-export const getSwwList = async (): Promise<{ list: Sww[] } | undefined> => {
+export const getSwwList = async (quiet = false): Promise<{ list: Sww[] } | undefined> => {
   return request("/word/list", {
     method: "GET",
+    quiet,
   });
 };
 export const removeWordApi = async (word: string) => {
   return request(`/word/delete/${encodeURIComponent(word)}`, {
     method: "DELETE",
+    quiet: true,
   });
 };
 export const upload = async (blob: Blob) => {
@@ -0,0 +1,173 @@
+/**
+ * 模块概述：OpenAI 兼容接口的通用对话实现
+ * - OpenAI、DeepSeek、MoonShot、自定义接口与用户定义的接口配置都使用 OpenAI Chat Completions 格式，
+ *   共用本模块的请求、流式解析与会话管理，子类只需提供请求配置（getConfig）。
+ *
+ * 关键点：
+ * - 使用 AbortController 支持中断；
+ * - 通过 handleStream 解析 SSE 流式返回；
+ * - 额外请求参数（如 temperature）合并进请求体，model/messages/stream 以本模块为准。
+ */
+import { toastManager } from '@/components/Toast'
+import type { Chat, Message } from '@/types/chat'
+import { handleStream } from '@/utils'
+
+// ===================== 类型定义 =====================
+
+export interface ChatConstructor {
+  onError?: (err: string) => void
+  onGenerating?: (text: string) => void
+  onBeforeRequest?: () => void
+  onComplete: (text: string) => void
+  onClear?: () => void
+  preMessageList?: Message[]
+}
+
+/** 请求配置 */
+export interface OpenAICompatibleConfig {
+  /** Chat Completions 接口地址 */
+  url?: string
+  /** 模型 */
+  model?: string
+  /** API Key，为空时不发送 Authorization */
+  apiKey?: string
+  /** 是否必须填写 API Key */
+  requireKey?: boolean
+  /** 额外请求参数 */
+  params?: Record<string, unknown>
+}
+
+// ===================== 对话实现 =====================
+
+/**
+ * OpenAICompatibleClass
+ * - 实现 Chat 接口的通用类，管理消息队列与请求生命周期；子类实现 getConfig 提供地址、模型与密钥。
+ */
+export default abstract class OpenAICompatibleClass implements Chat {
+  controller: AbortController
+  messageList: Message[]
+  onError?: (err: string) => void
+  onBeforeRequest?: () => void
+  onGenerating?: (text: string) => void
+  onComplete: (text: string) => void
+  onClear?: () => void
+  constructor({
+    onError,
+    onGenerating,
+    onBeforeRequest,
+    onComplete,
+    onClear,
+    preMessageList,
+  }: ChatConstructor) {
+    this.controller = new AbortController()
+    this.messageList = preMessageList ? preMessageList : []
+    this.onBeforeRequest = onBeforeRequest
+    this.onError = onError
+    this.onGenerating = onGenerating
+    this.onComplete = onComplete
+    this.onClear = onClear
+  }
+  /**
+   * 读取请求配置（每次发送时读取，设置修改后立即生效）
+   * @returns 请求配置
+   */
+  abstract getConfig(): Promise<OpenAICompatibleConfig>
+  /**
+   * 发送/继续对话
+   * @param content 新增的用户消息，若为空则重放上一轮上下文以继续生成
+   * 行为：
+   * - 读取请求配置，拼装请求；
+   * - 流式读取增量 token，通过 onGenerating 回传；
+   * - 结束时通过 onComplete 输出最终助手消息。
+   */
+  async sendMessage(content?:string) {
+    try {
+      this.onBeforeRequest && await this.onBeforeRequest()
+      if (this.controller.signal.aborted) {
+        this.controller = new AbortController()
+      }
+      const { url, model, apiKey, requireKey, params } = await this.getConfig()
+      if (!url) {
+        toastManager.add({ type: 'error', msg: 'url is empty' })
+        this.onError && this.onError('url is empty')
+        return
+      }
+      if (requireKey && !apiKey) {
+        this.onError && this.onError('apiKey is empty')
+        return
+      }
+      let result = '';
+      content && this.messageList.push({role: 'user', content});
+      this.messageList.push({role: 'assistant', content: ''})
+      const res = await fetch(url, {
+        method: 'POST',
+        signal: this.controller.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          ...params,
+          model,
+          messages: this.messageList.slice(0, -1),
+          stream: true,
+        }),
+      })
+      if (!res.ok || !res.body) {
+        const json = await res.json()
+        if (json.error?.message) {
+          toastManager.add({ type: 'error', msg: json.error.message })
+        }
+        this.onError && this.onError(json.error)
+        return
+      }
+      const reader = res.body.getReader();
+      handleStream(reader, (data)=> {
+        if (data !== '[DONE]') {
+          const json = JSON.parse(data)
+          if (json.error) {
+            toastManager.add({ type: 'error', msg: json.error.message })
+            this.onError && this.onError(json.error)
+            return
+          }
+          const text = json.choices[0]?.delta?.content || '';
+          result += text;
+          this.messageList = this.messageList.map((message, index) => {
+            if (index === this.messageList.length - 1) {
+              return {...message, ...{content: message.content + text}}
+            } else {
+              return message
+            }
+          })
+          this.onGenerating && this.onGenerating(result)
+        } else {
+          this.onComplete(this.messageList[this.messageList.length-1].content)
+        }
+      })
+    } catch (error) {
+      console.log(error);
+      this.onError && this.onError('request failed')
+    }
+  }
+  /**
+   * 清空当前会话上下文并中断可能存在的请求
+   */
+  clearMessage() {
+    this.controller.abort('card is hidden')
+    this.messageList = []
+    this.onClear && this.onClear()
+  }
+  /**
+   * 去掉最后一条（正在生成的）消息，基于之前上下文重新请求
+   */
+  refresh() {
+    this.messageList = this.messageList.slice(0, -1);
+    this.sendMessage()
+  }
+  /**
+   * 主动中断请求（例如卡片被关闭时）
+   */
+  abort(){
+    this.controller.abort('card is hidden')
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * 模块概述：OpenAI 兼容接口配置
+ * - 用户可在设置中添加任意多个命名的接口配置（Setting.openAIProfiles），每个配置有自己的地址、模型、密钥与额外请求参数。
+ * - 每个配置作为单独的引擎出现在单词与句子引擎列表中，引擎值为 `profile:<配置ID>`（见 api/engines）。
+ * - 配置的密钥保存在本地密钥库（键同引擎值），不随设置同步。
+ */
+import { getSetting } from '@/storage/sync'
+import { getSecret } from '@/storage/secret'
+import { toastManager } from '@/components/Toast'
+import type { OpenAIProfile } from '@/types'
+import OpenAICompatibleClass from './openAICompatible'
+
+// ===================== 引擎值 =====================
+
+/** 接口配置引擎值的前缀 */
+export const profileEnginePrefix = 'profile:'
+
+/** 接口配置的引擎值 */
+export type ProfileEngineId = `${typeof profileEnginePrefix}${string}`
+
+/**
+ * 接口配置对应的引擎值（也是密钥库中保存其密钥的键）
+ * @param id - 配置ID
+ * @returns 引擎值
+ */
+export const getProfileEngineId = (id: string): ProfileEngineId =>
+  `${profileEnginePrefix}${id}`
+
+/**
+ * 从引擎值解析接口配置ID
+ * @param engine - 引擎值
+ * @returns 配置ID，不是接口配置引擎时为 undefined
+ */
+export const getProfileId = (engine: string) =>
+  engine.startsWith(profileEnginePrefix)
+    ? engine.slice(profileEnginePrefix.length)
+    : undefined
+
+// ===================== 额外参数 =====================
+
+/**
+ * 解析额外请求参数
+ * @param text - JSON 对象文本，可为空
+ * @returns 参数对象，为空时为 undefined
+ * @throws 不是 JSON 对象时抛出错误
+ */
+export const parseProfileParams = (text?: string) => {
+  if (!text?.trim()) {
+    return
+  }
+  const params = JSON.parse(text)
+  if (!params || typeof params !== 'object' || Array.isArray(params)) {
+    throw new Error('Extra parameters must be a JSON object')
+  }
+  return params as Record<string, unknown>
+}
+
+// ===================== 对话实现 =====================
+
+/**
+ * 生成接口配置的对话实现类（每次发送时按配置ID读取最新配置）
+ * @param id - 配置ID
+ * @returns 对话实现类
+ */
+export const createProfileChat = (id: string) =>
+  class OpenAIProfileClass extends OpenAICompatibleClass {
+    /**
+     * 读取请求配置
+     * @throws 配置已删除或额外参数无效时抛出错误
+     */
+    async getConfig() {
+      const setting = await getSetting()
+      const profile = setting.openAIProfiles?.find((item: OpenAIProfile) => item.id === id)
+      if (!profile) {
+        throw new Error('profile does not exist')
+      }
+      let params: Record<string, unknown> | undefined
+      try {
+        params = parseProfileParams(profile.params)
+      } catch (error) {
+        toastManager.add({ type: 'error', msg: `${profile.name}: extra parameters are not a valid JSON object` })
+        throw error
+      }
+      return {
+        url: profile.address,
+        model: profile.model,
+        apiKey: await getSecret(getProfileEngineId(id)),
+        params,
+      }
+    }
+  }
@@ -1,42 +1,161 @@
 /**
  * 欧路词典开放平台
- * - 在指定生词本中新增/删除单词（需用户在设置里配置 Token/语言/生词本）。
+ * - 在指定生词本中新增/删除单词、拉取生词本中的单词（需用户在设置里配置 Token/语言/生词本）。
+ * - diffWordListOulu 对比欧路生词本与本地生词本，用于双向同步：导入只在欧路中的单词，批量推送只在本地的单词。
+ * - ouluProvider 是欧路词典的同步目标（见 api/sync）。
  */
 import { getSetting } from "@/storage/sync"
+import type { OuluInfo } from "@/types"
+import type { Sww } from "@/types/words"
+import { isSameSpelling } from "@/utils"
+import type { SyncProvider } from "./sync"
 
-export const addWordOulu = async (word:string) => {
+const baseUrl = 'https://api.frdic.com/api/open/v1/studylist'
+
+/** 拉取单词时每页的数量 */
+const pageSize = 100
+
+/** 欧路生词本中的单词 */
+export interface OuluWord {
+  word: string
+  /** 释义 */
+  exp?: string
+}
+
+/** 欧路生词本与本地生词本的差异 */
+export interface OuluDiff {
+  /** 只在欧路生词本中的单词 */
+  remoteOnly: OuluWord[]
+  /** 只在本地生词本中的单词 */
+  localOnly: Sww[]
+  /** 两边都有的单词数量 */
+  bothCount: number
+}
+
+/**
+ * 是否已配置 Token/语言/生词本
+ * @param ouluInfo - 欧路信息
+ */
+const isOuluReady = (ouluInfo?: OuluInfo) => {
+  return Boolean(ouluInfo?.token && ouluInfo.targetBookLang && ouluInfo.targetBookId)
+}
+
+/**
+ * 获取配置完整的欧路信息
+ * @returns 欧路信息
+ * @throws 未配置 Token/语言/生词本时抛出错误
+ */
+const getOuluInfo = async () => {
   const ouluInfo = (await getSetting()).ouluInfo;
-  if (!ouluInfo?.token || !ouluInfo?.targetBookLang || !ouluInfo?.targetBookId || !ouluInfo.open) {
-    return
+  if (!isOuluReady(ouluInfo)) {
+    throw new Error('Oulu is not configured')
   }
-  fetch('https://api.frdic.com/api/open/v1/studylist/words', {
-    method: 'POST',
+  return ouluInfo as Required<Pick<OuluInfo, 'token' | 'targetBookId' | 'targetBookLang'>>
+}
+
+/**
+ * 请求欧路开放平台
+ * @param url - 接口路径
+ * @param init - 请求参数
+ * @returns 响应内容
+ * @throws 请求失败时抛出错误
+ */
+const request = async (url: string, init: RequestInit = {}) => {
+  const ouluInfo = await getOuluInfo()
+  const res = await fetch(`${baseUrl}${url}`, {
+    ...init,
     headers: {
       Authorization: ouluInfo.token,
       'Content-Type': 'application/json'
     },
-    body:JSON.stringify({
+  })
+  if (!res.ok) {
+    throw new Error(`Oulu request failed: ${res.status}`)
+  }
+  return res.status === 204 ? undefined : res.json().catch(() => undefined)
+}
+
+/**
+ * 在目标生词本中新增或删除单词
+ * @param method - POST 新增 / DELETE 删除
+ * @param words - 单词数组
+ */
+const changeWords = async (method: 'POST' | 'DELETE', words: string[]) => {
+  const ouluInfo = await getOuluInfo()
+  await request('/words', {
+    method,
+    body: JSON.stringify({
       id: ouluInfo.targetBookId,
       language: ouluInfo.targetBookLang,
-      words: [word]
+      words
     })
   })
 }
+
+/** 在目标生词本中新增单词 */
+export const addWordOulu = async (word:string) => {
+  return changeWords('POST', [word])
+}
+/** 从目标生词本中删除单词 */
 export const removeWordOulu = async (word:string) => {
-  const ouluInfo = (await getSetting()).ouluInfo;
-  if (!ouluInfo?.token || !ouluInfo?.targetBookLang || !ouluInfo?.targetBookId || !ouluInfo.open) {
-    return
+  return changeWords('DELETE', [word])
+}
+
+/**
+ * 批量新增单词到目标生词本（按页分批请求）
+ * @param words - 单词数组
+ */
+export const addWordsOulu = async (words: string[]) => {
+  for (let i = 0; i < words.length; i += pageSize) {
+    await changeWords('POST', words.slice(i, i + pageSize))
   }
-  fetch('https://api.frdic.com/api/open/v1/studylist/words', {
-    method: 'DELETE',
-    headers: {
-      Authorization: ouluInfo.token,
-      'Content-Type': 'application/json'
-    },
-    body:JSON.stringify({
-      id: ouluInfo.targetBookId,
-      language: ouluInfo.targetBookLang,
-      words: [word]
-    })
-  })
+}
+
+/**
+ * 拉取目标生词本中的全部单词
+ * @returns 单词与释义
+ */
+export const getWordListOulu = async () => {
+  const ouluInfo = await getOuluInfo()
+  const list: OuluWord[] = []
+  for (let page = 0; ; page++) {
+    const res = await request(`/words/${ouluInfo.targetBookId}?language=${ouluInfo.targetBookLang}&page=${page}&page_size=${pageSize}`)
+    const data: OuluWord[] = res?.data ?? []
+    list.push(...data)
+    if (data.length < pageSize) {
+      return list
+    }
+  }
+}
+
+/**
+ * 拉取目标生词本并与本地生词本对比（按拼写匹配，忽略大小写）
+ * @param swwList - 本地生词本
+ * @returns 两边的差异
+ */
+export const diffWordListOulu = async (swwList: Sww[]): Promise<OuluDiff> => {
+  const remoteList = (await getWordListOulu()).filter(
+    (item, index, list) => list.findIndex(other => isSameSpelling(other.word, item.word)) === index
+  )
+  const remoteOnly = remoteList.filter(item => !swwList.some(sww => isSameSpelling(sww.word, item.word)))
+  return {
+    remoteOnly,
+    localOnly: swwList.filter(sww => !remoteList.some(item => isSameSpelling(item.word, sww.word))),
+    bothCount: remoteList.length - remoteOnly.length,
+  }
+}
+
+/** 欧路词典同步目标：只保存单词本身，不同步单词的更新 */
+export const ouluProvider: SyncProvider = {
+  id: 'oulu',
+  name: 'Oulu Dic',
+  isReady: (setting) => isOuluReady(setting.ouluInfo),
+  add: (sww) => addWordOulu(sww.word),
+  remove: removeWordOulu,
+  update: async () => undefined,
+  pull: async () => (await getWordListOulu()).map(item => ({ word: item.word })),
+  healthCheck: async () => {
+    const ouluInfo = await getOuluInfo()
+    await request(`/category?language=${ouluInfo.targetBookLang}`)
+  },
 }
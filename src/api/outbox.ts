@@ -0,0 +1,431 @@
+/**
+ * mywords.cc 单词写入的离线队列（outbox）
+ * - 新增/更新/删除单词的后端请求先写入 storage.local 中的队列，再由 background 依次发送，断网或 token 过期时不会丢失
+ * - 同一个单词只保留一条待发送的操作：更新合并进之前的新增/更新，新增与删除覆盖之前的操作
+ * - 发送失败按指数退避重试（browser.alarms 定时），多次失败后标记为失败，在设置页列出，可手动重试或丢弃
+ * - 冲突按 lastEditDate 处理：每次发送前读取一次远端生词本，远端单词的编辑时间比本地单词新时放弃本地操作，
+ *   并把远端的单词写入本地，两边保持一致
+ * - mywordsProvider 是 mywords.cc 的同步目标（见 api/sync），写入都经过此队列
+ */
+import browser from "webextension-polyfill";
+import type { Storage } from "webextension-polyfill";
+import type { ExtensionMessage } from "@/types";
+import type { Sww } from "@/types/words";
+import { getSetting } from "@/storage/sync";
+import { mergeRemoteWords } from "@/storage/local";
+import { isSameSpelling, normalizeWord } from "@/utils";
+import { addSwwApi, getSwwList, removeWordApi, updateWordApi } from "./index";
+import type { SyncProvider } from "./sync";
+
+// ===================== 类型定义 =====================
+
+/** 待发送的操作 */
+export type OutboxOperation =
+  | { action: "add"; word: string; payload: Sww }
+  | {
+      action: "update";
+      word: string;
+      payload: Pick<Sww, "id"> & Partial<Omit<Sww, "id">>;
+    }
+  | { action: "remove"; word: string };
+
+/** 队列中的一项 */
+export type OutboxItem = OutboxOperation & {
+  /** 本地单词的编辑时间（删除时为删除时间），与远端单词的 lastEditDate 比较 */
+  lastEditDate: number;
+  /** 加入（或合并进）队列的时间，发送期间用于判断是否有了新的操作 */
+  queuedAt: number;
+  /** 已失败的次数 */
+  attempts: number;
+  /** 下次发送时间 */
+  nextRetry: number;
+  /** 最近一次失败的原因 */
+  error?: string;
+  /** 超过重试次数，需要手动重试 */
+  failed?: boolean;
+};
+
+/** 发往 background 的队列指令 */
+export type OutboxCommand =
+  | { action: "push"; payload: OutboxOperation & { lastEditDate: number } }
+  | { action: "retry" }
+  | { action: "discard"; payload: string };
+
+/** 队列在 storage.local 中的键 */
+export const outboxKey = "outbox";
+
+/** 定时重试使用的 alarm 名称 */
+const alarmName = "outbox";
+
+/** 自动重试次数上限 */
+const maxAttempts = 6;
+
+/** 第一次重试的等待时间，之后每次翻倍 */
+const retryDelay = 30 * 1000;
+
+/** 重试等待时间上限 */
+const maxRetryDelay = 60 * 60 * 1000;
+
+/** 当前环境是否为发送队列的 background */
+let isOutboxHost = false;
+
+/** 队列读改写的串行锁 */
+let lock: Promise<unknown> = Promise.resolve();
+
+/** 是否正在发送；发送期间有新的操作时，发送结束后再检查一次 */
+let flushing = false;
+let flushAgain = false;
+
+// ===================== 队列读写 =====================
+
+/**
+ * 读取队列
+ * @returns 队列中的全部操作
+ */
+export const getOutbox = async () => {
+  const res = await browser.storage.local.get(outboxKey);
+  return (res[outboxKey] ?? []) as OutboxItem[];
+};
+
+/**
+ * 串行修改队列，避免并发的读改写互相覆盖
+ * @param update - 根据当前队列生成新队列
+ */
+const updateOutbox = (update: (items: OutboxItem[]) => OutboxItem[]) => {
+  const task = lock.then(async () => {
+    await browser.storage.local.set({ [outboxKey]: update(await getOutbox()) });
+  });
+  lock = task.catch(() => undefined);
+  return task;
+};
+
+/**
+ * 判断队列中的一项是否属于某个单词
+ * @param word - 单词
+ * @returns 判断函数
+ */
+const isWordItem = (word: string) => (item: OutboxItem) =>
+  normalizeWord(item.word) === normalizeWord(word);
+
+/**
+ * 把新的操作合并进同一个单词已有的操作
+ * @param exist - 已有的操作
+ * @param operation - 新的操作
+ * @returns 合并后的队列项
+ */
+const mergeOperation = (
+  exist: OutboxItem | undefined,
+  operation: OutboxOperation & { lastEditDate: number }
+): OutboxItem => {
+  // 消息可能乱序到达，已有的操作更新时保留已有的操作
+  if (exist && exist.lastEditDate > operation.lastEditDate) {
+    return exist;
+  }
+  const retry = {
+    lastEditDate: operation.lastEditDate,
+    queuedAt: Date.now(),
+    attempts: 0,
+    nextRetry: Date.now(),
+  };
+  if (operation.action === "update" && exist?.action === "add") {
+    return {
+      ...retry,
+      action: "add",
+      word: operation.word,
+      payload: { ...exist.payload, ...operation.payload, id: exist.payload.id },
+    };
+  }
+  if (operation.action === "update" && exist?.action === "update") {
+    return {
+      ...retry,
+      ...operation,
+      payload: { ...exist.payload, ...operation.payload },
+    };
+  }
+  return { ...retry, ...operation };
+};
+
+// ===================== 发送 =====================
+
+/**
+ * 获取错误信息
+ * @param error - 捕获的错误
+ * @returns 错误信息
+ */
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * 发送一项操作；远端已有同拼写的单词时使用远端的ID
+ * @param item - 队列项
+ * @param remote - 远端同拼写的单词
+ */
+const send = async (item: OutboxItem, remote: Sww | undefined) => {
+  if (item.action === "add" && !remote) {
+    await addSwwApi(item.payload);
+    return;
+  }
+  // 远端没有这个单词时，删除与更新都无需发送
+  if (!remote) {
+    return;
+  }
+  if (item.action === "remove") {
+    await removeWordApi(item.word);
+    return;
+  }
+  await updateWordApi({ ...item.payload, id: remote.id });
+};
+
+/**
+ * 记录一项操作的发送结果：成功时移出队列，失败时安排下次重试
+ * 发送期间同一个单词有了新的操作时，保留新的操作
+ * @param item - 已发送的队列项
+ * @param error - 失败原因，成功时为 undefined
+ */
+const finishItem = (item: OutboxItem, error?: string) => {
+  return updateOutbox((items) =>
+    items.flatMap((exist) => {
+      if (!isWordItem(item.word)(exist) || exist.queuedAt !== item.queuedAt) {
+        return [exist];
+      }
+      if (!error) {
+        return [];
+      }
+      const attempts = exist.attempts + 1;
+      return [
+        {
+          ...exist,
+          attempts,
+          error,
+          failed: attempts >= maxAttempts,
+          nextRetry:
+            Date.now() + Math.min(retryDelay * 2 ** (attempts - 1), maxRetryDelay),
+        },
+      ];
+    })
+  );
+};
+
+/**
+ * 把发送成功的操作应用到已读取的远端生词本，同一批次的后续操作无需重新读取
+ * @param remoteList - 远端生词本
+ * @param item - 已发送的队列项
+ * @param remote - 远端同拼写的单词
+ * @returns 更新后的远端生词本
+ */
+const applySent = (remoteList: Sww[], item: OutboxItem, remote: Sww | undefined) => {
+  if (item.action === "remove") {
+    return remoteList.filter((sww) => sww !== remote);
+  }
+  if (!remote) {
+    return item.action === "add" ? [...remoteList, item.payload] : remoteList;
+  }
+  return remoteList.map((sww) =>
+    sww === remote
+      ? { ...sww, ...item.payload, id: remote.id, lastEditDate: item.lastEditDate }
+      : sww
+  );
+};
+
+/**
+ * 发送所有到期的操作
+ * @param batch - 本次发送共用的远端生词本，第一次有到期的操作时读取
+ */
+const sendDue = async (batch: { remoteList?: Sww[] }) => {
+  const now = Date.now();
+  const due = (await getOutbox()).filter(
+    (item) => !item.failed && item.nextRetry <= now
+  );
+  if (!due.length) {
+    return;
+  }
+  if (!batch.remoteList) {
+    try {
+      batch.remoteList = (await getSwwList(true))?.list ?? [];
+    } catch (error) {
+      for (const item of due) {
+        await finishItem(item, errorMessage(error));
+      }
+      return;
+    }
+  }
+  for (const item of due) {
+    const remote = batch.remoteList.find((sww) => isSameSpelling(sww.word, item.word));
+    let error: string | undefined;
+    try {
+      // 远端单词在本地单词之后被编辑过（如在其他设备上），以远端为准并写入本地
+      if (remote && (remote.lastEditDate ?? 0) > item.lastEditDate) {
+        await mergeRemoteWords([remote]);
+      } else {
+        await send(item, remote);
+        batch.remoteList = applySent(batch.remoteList, item, remote);
+      }
+    } catch (e) {
+      error = errorMessage(e);
+    }
+    await finishItem(item, error);
+  }
+};
+
+/**
+ * 按最早的重试时间设置定时器，队列中没有待重试的操作时清除定时器
+ */
+const scheduleRetry = async () => {
+  const pending = (await getOutbox()).filter((item) => !item.failed);
+  if (!pending.length) {
+    await browser.alarms.clear(alarmName);
+    return;
+  }
+  const when = Math.min(...pending.map((item) => item.nextRetry));
+  browser.alarms.create(alarmName, { when: Math.max(when, Date.now() + 1000) });
+};
+
+/**
+ * 发送队列中到期的操作，并安排下次重试（仅在 background 中调用）
+ */
+export const flushOutbox = async () => {
+  if (flushing) {
+    flushAgain = true;
+    return;
+  }
+  flushing = true;
+  const batch: { remoteList?: Sww[] } = {};
+  try {
+    do {
+      flushAgain = false;
+      await sendDue(batch);
+    } while (flushAgain);
+  } finally {
+    flushing = false;
+  }
+  await scheduleRetry();
+};
+
+// ===================== 对外接口 =====================
+
+/**
+ * 执行队列指令（仅在 background 中调用）
+ * @param command - 队列指令
+ */
+export const handleOutboxCommand = async (command: OutboxCommand) => {
+  if (command.action === "push") {
+    if (!(await getSetting()).userInfo?.token) {
+      return;
+    }
+    const operation = command.payload;
+    await updateOutbox((items) => [
+      ...items.filter((item) => !isWordItem(operation.word)(item)),
+      mergeOperation(items.find(isWordItem(operation.word)), operation),
+    ]);
+  } else if (command.action === "retry") {
+    await updateOutbox((items) =>
+      items.map((item) => ({
+        ...item,
+        attempts: 0,
+        failed: false,
+        nextRetry: Date.now(),
+      }))
+    );
+  } else {
+    await updateOutbox((items) =>
+      items.filter((item) => !isWordItem(command.payload)(item))
+    );
+    return;
+  }
+  await flushOutbox();
+};
+
+/**
+ * 标记当前环境为 background：之后的指令直接执行，并在定时器触发与启动时发送队列
+ */
+export const registerOutbox = () => {
+  isOutboxHost = true;
+  browser.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === alarmName) {
+      flushOutbox();
+    }
+  });
+  flushOutbox();
+};
+
+/**
+ * 发送队列指令：background 中直接执行，其他环境交给 background
+ * @param command - 队列指令
+ */
+const sendCommand = (command: OutboxCommand) => {
+  if (isOutboxHost) {
+    return handleOutboxCommand(command);
+  }
+  const message: ExtensionMessage = { type: "outbox", payload: command };
+  return browser.runtime.sendMessage(message).catch(() => undefined);
+};
+
+/**
+ * 把单词的后端写入加入队列（未登录时忽略）
+ * @param operation - 操作
+ * @param lastEditDate - 本地单词的编辑时间，用于与远端比较；删除时为删除时间
+ */
+export const pushRemote = (operation: OutboxOperation, lastEditDate: number) => {
+  return sendCommand({
+    action: "push",
+    payload: { ...operation, lastEditDate },
+  });
+};
+
+/**
+ * 单词的编辑时间
+ * @param sww - 单词
+ * @returns 编辑时间，没有时取收藏时间，都没有时取当前时间
+ */
+const getEditDate = (sww: Partial<Sww>) =>
+  sww.lastEditDate ?? sww.createDate ?? Date.now();
+
+/**
+ * 立即重试队列中的全部操作（包括已标记为失败的）
+ */
+export const retryOutbox = () => {
+  return sendCommand({ action: "retry" });
+};
+
+/**
+ * 丢弃某个单词的待发送操作
+ * @param word - 单词
+ */
+export const discardOutbox = (word: string) => {
+  return sendCommand({ action: "discard", payload: word });
+};
+
+/** mywords.cc 同步目标：登录后可用，写入进入离线队列 */
+export const mywordsProvider: SyncProvider = {
+  id: "mywords",
+  name: "mywords.cc",
+  isReady: (setting) => Boolean(setting.userInfo?.token),
+  add: async (sww) => {
+    await pushRemote({ action: "add", word: sww.word, payload: sww }, getEditDate(sww));
+  },
+  remove: async (word) => {
+    await pushRemote({ action: "remove", word }, Date.now());
+  },
+  update: async (sww) => {
+    await pushRemote({ action: "update", word: sww.word, payload: sww }, getEditDate(sww));
+  },
+  pull: async () => (await getSwwList(true))?.list ?? [],
+  healthCheck: async () => {
+    await getSwwList(true);
+  },
+};
+
+/**
+ * 订阅队列变化
+ * @param listener - 回调，参数为新的队列
+ * @returns 取消订阅的函数
+ */
+export const onOutboxChange = (listener: (items: OutboxItem[]) => void) => {
+  const handler = (changes: Storage.StorageAreaOnChangedChangesType) => {
+    if (changes[outboxKey]) {
+      listener((changes[outboxKey].newValue ?? []) as OutboxItem[]);
+    }
+  };
+  browser.storage.local.onChanged.addListener(handler);
+  return () => browser.storage.local.onChanged.removeListener(handler);
+};
@@ -0,0 +1,141 @@
+/**
+ * 生词本同步目标（SyncProvider）
+ * - 每个同步目标实现新增/删除/更新/拉取/连接检查，store 中的 atom 只调用 syncAdd/syncRemove/syncUpdate
+ * - syncProviderList 为全部同步目标，用户在设置页中启用任意多个（Setting.syncProviders）
+ * - 新增同步目标只需实现 SyncProvider 并加入 syncProviderList，无需修改 atom
+ * - 某个同步目标出错不影响本地收藏与其他同步目标，出错的同步目标与原因以提示显示
+ */
+import type { Setting } from "@/types";
+import type { Sww } from "@/types/words";
+import { getSetting } from "@/storage/sync";
+import { toastManager } from "@/components/Toast";
+import i18n from "@/i18n";
+import { mywordsProvider } from "./outbox";
+import { ouluProvider } from "./oulu";
+import { ankiProvider } from "./anki";
+import { webdavProvider } from "./webdav";
+
+// ===================== 类型定义 =====================
+
+/** 同步目标ID */
+export type SyncProviderId = "mywords" | "oulu" | "anki" | "webdav";
+
+/** 单词更新：以 word 定位，只包含变化的字段 */
+export type SwwUpdate = Pick<Sww, "id" | "word"> & Partial<Sww>;
+
+/** 同步目标 */
+export interface SyncProvider {
+  id: SyncProviderId;
+  /** 显示名称（i18n 文案键） */
+  name: string;
+  /**
+   * 是否已配置完整（如已登录、已填写 Token），未配置时不会被调用
+   * @param setting - 设置
+   */
+  isReady: (setting: Setting) => boolean;
+  /** 新增单词 */
+  add: (sww: Sww) => Promise<void>;
+  /** 删除单词 */
+  remove: (word: string) => Promise<void>;
+  /** 更新单词（不保存对应信息的同步目标可忽略） */
+  update: (sww: SwwUpdate) => Promise<void>;
+  /** 拉取远端的单词 */
+  pull: () => Promise<Pick<Sww, "word" | "context">[]>;
+  /** 检查连接与配置，不可用时抛出错误 */
+  healthCheck: () => Promise<void>;
+}
+
+/** 全部同步目标 */
+export const syncProviderList: SyncProvider[] = [
+  mywordsProvider,
+  ouluProvider,
+  ankiProvider,
+  webdavProvider,
+];
+
+/** 同步失败记录 */
+export interface SyncFailure {
+  provider: SyncProvider;
+  /** 失败原因 */
+  error: string;
+}
+
+/** 未设置时默认启用的同步目标（登录后同步到 mywords.cc） */
+export const defaultSyncProviders: SyncProviderId[] = ["mywords"];
+
+// ===================== 分发 =====================
+
+/**
+ * 获取已启用且配置完整的同步目标
+ * @returns 同步目标数组
+ */
+const getEnabledProviders = async () => {
+  const setting = await getSetting();
+  const enabled = setting.syncProviders ?? defaultSyncProviders;
+  return syncProviderList.filter(
+    (item) => enabled.includes(item.id) && item.isReady(setting)
+  );
+};
+
+/**
+ * 提示同步失败的同步目标与原因
+ * @param word - 单词
+ * @param failures - 失败记录
+ */
+const notifyFailures = (word: string, failures: SyncFailure[]) => {
+  failures.forEach(({ provider, error }) => {
+    toastManager.add({
+      type: "error",
+      msg: `${i18n.t("Sync failed")} (${i18n.t(provider.name)}): ${word} - ${i18n.t(error)}`,
+    });
+  });
+};
+
+/**
+ * 在所有已启用的同步目标上执行操作，单个目标出错不影响其他目标，出错的目标汇总后提示
+ * @param word - 操作的单词（用于提示）
+ * @param task - 操作
+ * @returns 失败记录
+ */
+const dispatch = async (
+  word: string,
+  task: (provider: SyncProvider) => Promise<void>
+) => {
+  const providers = await getEnabledProviders();
+  const results = await Promise.allSettled(providers.map(task));
+  const failures: SyncFailure[] = [];
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      failures.push({
+        provider: providers[index],
+        error:
+          result.reason instanceof Error
+            ? result.reason.message
+            : String(result.reason),
+      });
+    }
+  });
+  notifyFailures(word, failures);
+  return failures;
+};
+
+/**
+ * 同步新增的单词
+ * @param sww - 单词
+ */
+export const syncAdd = (sww: Sww) =>
+  dispatch(sww.word, (provider) => provider.add(sww));
+
+/**
+ * 同步删除的单词
+ * @param word - 单词
+ */
+export const syncRemove = (word: string) =>
+  dispatch(word, (provider) => provider.remove(word));
+
+/**
+ * 同步单词的更新
+ * @param sww - 单词更新
+ */
+export const syncUpdate = (sww: SwwUpdate) =>
+  dispatch(sww.word, (provider) => provider.update(sww));
@@ -0,0 +1,463 @@
+/**
+ * WebDAV 同步
+ * - 把生词本、备注与设置以 JSON 文件保存在用户的 WebDAV 服务器中（<地址>/lingo-link/ 目录）
+ * - 双向合并：按 id 合并，两边都有时保留 lastEditDate 较新的一项；只在一边存在的记录，
+ *   只有上次同步后两边都有（Local.webdavSynced）且之后没有编辑过时才视为已在另一边删除，
+ *   导入、恢复或从其他同步目标拉取的记录始终保留
+ * - 设置按字段三方合并：与上次同步后的设置（Local.webdavSettingBase）相比，只有本地未修改的字段才采用远端的值
+ * - 设置中的密钥与 WebDAV 配置不会上传，WebDAV 密码保存在本地密钥库
+ * - 同步在 background 中执行：Popup/设置页手动触发，或按设置的间隔由 browser.alarms 定时触发
+ * - webdavProvider 是 WebDAV 的同步目标（见 api/sync），单个单词的修改在下次同步时一并上传
+ */
+import browser from "webextension-polyfill";
+import type { ExtensionMessage, Setting, WebDAVInfo } from "@/types";
+import type { CommunityItemType, Sww } from "@/types/words";
+import { getSetting, setSetting } from "@/storage/sync";
+import { getSecret } from "@/storage/secret";
+import {
+  addRemarks,
+  addWords,
+  getLocal,
+  removeRemark,
+  removeWords,
+  setLocal,
+} from "@/storage/local";
+import { dedupeWords, stripSecrets } from "@/utils/backup";
+import type { SyncProvider } from "./sync";
+
+// ===================== 类型定义 =====================
+
+/** 远端文件结构 */
+interface WebDAVFile<T> {
+  app: typeof fileApp;
+  /** 写入时间 */
+  date: number;
+  data: T;
+}
+
+/** 同步结果；error 为失败原因 */
+export type WebDAVSyncResult = { ok: true; date: number } | { ok: false; error: string };
+
+/** 文件标识 */
+const fileApp = "lingo-link";
+
+/** 远端目录名 */
+const folderName = "lingo-link";
+
+/** 远端文件名 */
+const fileNames = {
+  words: "vocabulary.json",
+  remarks: "notes.json",
+  setting: "settings.json",
+};
+
+/** 定时同步使用的 alarm 名称 */
+const alarmName = "webdav";
+
+/** 上传与合并设置时忽略的字段 */
+const skipSettingKeys: (keyof Setting)[] = ["schemaVersion", "webdavInfo"];
+
+/** 正在进行的同步，同时触发多次时共用一次 */
+let syncing: Promise<WebDAVSyncResult> | null = null;
+
+// ===================== 请求 =====================
+
+/**
+ * 是否已配置地址
+ * @param info - WebDAV 信息
+ */
+const isWebDAVReady = (info?: WebDAVInfo) => Boolean(info?.url);
+
+/**
+ * 获取配置完整的 WebDAV 信息
+ * @returns WebDAV 信息
+ * @throws 未配置地址时抛出错误
+ */
+const getWebDAVInfo = async () => {
+  const info = (await getSetting()).webdavInfo;
+  if (!isWebDAVReady(info)) {
+    throw new Error("WebDAV is not configured");
+  }
+  return info as WebDAVInfo & { url: string };
+};
+
+/**
+ * 生成 Basic 认证头（支持非 ASCII 的用户名与密码）
+ * @param info - WebDAV 信息
+ * @returns Authorization 头；密码取自密钥库，尚未迁移时取旧版本保存在设置中的密码
+ */
+const getAuthorization = async (info: WebDAVInfo) => {
+  const password = (await getSecret("webdavPassword")) ?? info.password ?? "";
+  const bytes = new TextEncoder().encode(`${info.username ?? ""}:${password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+};
+
+/**
+ * 获取远端目录地址
+ * @param info - WebDAV 信息
+ * @returns 以 / 结尾的目录地址
+ */
+const getFolderUrl = (info: WebDAVInfo & { url: string }) =>
+  `${info.url.replace(/\/+$/, "")}/${folderName}/`;
+
+/**
+ * 发起 WebDAV 请求
+ * @param info - WebDAV 信息
+ * @param url - 请求地址
+ * @param init - 请求参数
+ * @returns 响应
+ */
+const request = async (info: WebDAVInfo, url: string, init: RequestInit = {}) => {
+  return fetch(url, {
+    ...init,
+    headers: { Authorization: await getAuthorization(info), ...init.headers },
+  });
+};
+
+/**
+ * 读取远端文件
+ * @param info - WebDAV 信息
+ * @param name - 文件
+ * @returns 文件内容，文件不存在时为 undefined
+ * @throws 请求失败时抛出错误
+ */
+const readFile = async <T>(
+  info: WebDAVInfo & { url: string },
+  name: keyof typeof fileNames
+): Promise<WebDAVFile<T> | undefined> => {
+  const res = await request(info, `${getFolderUrl(info)}${fileNames[name]}`);
+  if (res.status === 404) {
+    return;
+  }
+  if (!res.ok) {
+    throw new Error(`WebDAV ${res.status}`);
+  }
+  const file = await res.json();
+  return file?.app === fileApp ? file : undefined;
+};
+
+/**
+ * 写入远端文件
+ * @param info - WebDAV 信息
+ * @param name - 文件
+ * @param file - 文件内容
+ * @throws 请求失败时抛出错误
+ */
+const writeFile = async <T>(
+  info: WebDAVInfo & { url: string },
+  name: keyof typeof fileNames,
+  file: WebDAVFile<T>
+) => {
+  const res = await request(info, `${getFolderUrl(info)}${fileNames[name]}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(file),
+  });
+  if (!res.ok) {
+    throw new Error(`WebDAV ${res.status}`);
+  }
+};
+
+/**
+ * 创建远端目录（已存在时服务器返回 405）
+ * @param info - WebDAV 信息
+ * @throws 请求失败时抛出错误
+ */
+const ensureFolder = async (info: WebDAVInfo & { url: string }) => {
+  const res = await request(info, getFolderUrl(info), { method: "MKCOL" });
+  if (!res.ok && res.status !== 405) {
+    throw new Error(`WebDAV ${res.status}`);
+  }
+};
+
+// ===================== 合并 =====================
+
+/**
+ * 记录的编辑时间
+ * @param item - 记录
+ * @returns 编辑时间，没有时取收藏时间
+ */
+const getEditDate = (item: { lastEditDate?: number; createDate?: number }) =>
+  item.lastEditDate ?? item.createDate ?? 0;
+
+/**
+ * 双向合并本地与远端的列表
+ * @param local - 本地列表
+ * @param remote - 远端列表
+ * @param lastSync - 上次同步时间
+ * @param synced - 上次同步后两边都有的记录ID；首次同步（或旧版本升级）时为 undefined，取并集
+ * @returns 合并后的列表
+ */
+const mergeTwoWay = <T extends { id: string; lastEditDate?: number }>(
+  local: T[],
+  remote: T[],
+  lastSync?: number,
+  synced?: string[]
+) => {
+  const remoteMap = new Map(remote.map((item) => [item.id, item]));
+  const localIds = new Set(local.map((item) => item.id));
+  const syncedIds = new Set(synced);
+  // 只在一边存在：同步过且之后没有编辑的视为已在另一边删除，其余（新增、导入、恢复）保留
+  const isDeleted = (item: T) =>
+    syncedIds.has(item.id) && getEditDate(item) <= (lastSync ?? 0);
+  const result: T[] = [];
+  local.forEach((item) => {
+    const other = remoteMap.get(item.id);
+    if (other) {
+      result.push(getEditDate(other) > getEditDate(item) ? other : item);
+    } else if (!isDeleted(item)) {
+      result.push(item);
+    }
+  });
+  remote.forEach((item) => {
+    if (!localIds.has(item.id) && !isDeleted(item)) {
+      result.push(item);
+    }
+  });
+  return result;
+};
+
+/**
+ * 对比合并前后的本地列表
+ * @param prev - 合并前的列表
+ * @param next - 合并后的列表
+ * @returns 需要写入与删除的记录
+ */
+const diffList = <T extends { id: string }>(prev: T[], next: T[]) => {
+  const prevMap = new Map(prev.map((item) => [item.id, JSON.stringify(item)]));
+  const nextIds = new Set(next.map((item) => item.id));
+  return {
+    put: next.filter((item) => prevMap.get(item.id) !== JSON.stringify(item)),
+    remove: prev.filter((item) => !nextIds.has(item.id)).map((item) => item.id),
+  };
+};
+
+/**
+ * 去掉不需要同步的设置
+ * @param setting - 设置
+ * @returns 可以上传或合并的设置
+ */
+const toSyncSetting = (setting: Setting) => {
+  const result = stripSecrets(setting);
+  skipSettingKeys.forEach((key) => {
+    delete result[key];
+  });
+  return result;
+};
+
+/**
+ * 按字段三方合并设置
+ * @param local - 本地设置（已去掉不同步的字段）
+ * @param remote - 远端设置
+ * @param base - 上次同步后的设置；没有时只采用本地没有的字段
+ * @returns 需要写入本地的字段
+ */
+const mergeSetting = (local: Setting, remote: Setting, base?: Setting) => {
+  const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+  const update: Setting = {};
+  (Object.keys(remote) as (keyof Setting)[]).forEach((key) => {
+    const value = remote[key];
+    if (value === undefined || isSame(local[key], value)) {
+      return;
+    }
+    // 两边都修改过时保留本地的值
+    const unchanged = base ? isSame(local[key], base[key]) : local[key] === undefined;
+    if (unchanged) {
+      Object.assign(update, { [key]: value });
+    }
+  });
+  return update;
+};
+
+// ===================== 同步 =====================
+
+/**
+ * 执行一次双向同步（在 background 中调用）
+ * @returns 同步时间
+ * @throws 未配置或请求失败时抛出错误
+ */
+const sync = async () => {
+  const info = await getWebDAVInfo();
+  const [setting, local, remoteWords, remoteRemarks, remoteSetting] =
+    await Promise.all([
+      getSetting(),
+      getLocal(),
+      readFile<Sww[]>(info, "words"),
+      readFile<CommunityItemType[]>(info, "remarks"),
+      readFile<Setting>(info, "setting"),
+    ]);
+  const lastSync = local.webdavSyncDate;
+  const date = Date.now();
+
+  const swwList = dedupeWords(
+    mergeTwoWay(
+      local.swwList ?? [],
+      remoteWords?.data ?? [],
+      lastSync,
+      local.webdavSynced?.words
+    )
+  );
+  const remarkList = mergeTwoWay(
+    local.remarkList ?? [],
+    remoteRemarks?.data ?? [],
+    lastSync,
+    local.webdavSynced?.remarks
+  );
+  const words = diffList(local.swwList ?? [], swwList);
+  const remarks = diffList(local.remarkList ?? [], remarkList);
+  if (words.put.length) {
+    await addWords(words.put);
+  }
+  if (words.remove.length) {
+    await removeWords(words.remove);
+  }
+  if (remarks.put.length) {
+    await addRemarks(remarks.put);
+  }
+  for (const id of remarks.remove) {
+    await removeRemark({ id });
+  }
+
+  let nextSetting = setting;
+  if (remoteSetting) {
+    const update = mergeSetting(
+      toSyncSetting(setting),
+      toSyncSetting(remoteSetting.data),
+      local.webdavSettingBase
+    );
+    if (Object.keys(update).length) {
+      await setSetting(update);
+      nextSetting = { ...setting, ...update };
+    }
+  }
+  const syncSetting = toSyncSetting(nextSetting);
+
+  await ensureFolder(info);
+  await Promise.all([
+    writeFile(info, "words", { app: fileApp, date, data: swwList }),
+    writeFile(info, "remarks", { app: fileApp, date, data: remarkList }),
+    writeFile(info, "setting", {
+      app: fileApp,
+      date,
+      data: syncSetting,
+    }),
+  ]);
+  await setLocal({
+    webdavSyncDate: date,
+    webdavSynced: {
+      words: swwList.map((item) => item.id),
+      remarks: remarkList.map((item) => item.id),
+    },
+    webdavSettingBase: syncSetting,
+  });
+  return date;
+};
+
+/**
+ * 执行同步并返回结果（仅在 background 中调用）
+ * @returns 同步结果
+ */
+export const runWebDAVSync = () => {
+  if (!syncing) {
+    syncing = sync()
+      .then((date): WebDAVSyncResult => ({ ok: true, date }))
+      .catch((error): WebDAVSyncResult => ({
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      }))
+      .finally(() => {
+        syncing = null;
+      });
+  }
+  return syncing;
+};
+
+/**
+ * 按设置创建或清除定时同步：启用了 WebDAV 同步目标且设置了间隔时定时同步
+ */
+const scheduleSync = async () => {
+  const setting = await getSetting();
+  const enabled = Boolean(setting.syncProviders?.includes("webdav"));
+  const interval = setting.webdavInfo?.interval ?? 0;
+  await browser.alarms.clear(alarmName);
+  if (enabled && interval > 0 && isWebDAVReady(setting.webdavInfo)) {
+    browser.alarms.create(alarmName, { periodInMinutes: interval });
+  }
+};
+
+/**
+ * 在 background 中注册定时同步，设置变化时重新安排
+ */
+export const registerWebDAV = () => {
+  browser.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === alarmName) {
+      runWebDAVSync();
+    }
+  });
+  browser.storage.sync.onChanged.addListener((changes) => {
+    if (changes.webdavInfo || changes.syncProviders) {
+      scheduleSync();
+    }
+  });
+  scheduleSync();
+};
+
+// ===================== 对外接口 =====================
+
+/**
+ * 请求访问 WebDAV 服务器的权限（需在用户点击时调用）
+ * @param url - WebDAV 地址
+ * @returns 是否已获得权限
+ */
+export const requestWebDAVPermission = (url: string) => {
+  try {
+    const { protocol, host } = new URL(url);
+    return browser.permissions.request({ origins: [`${protocol}//${host}/*`] });
+  } catch (error) {
+    return Promise.resolve(false);
+  }
+};
+
+/**
+ * 请求 background 立即同步
+ * @returns 同步结果
+ */
+export const syncWebDAVNow = async (): Promise<WebDAVSyncResult> => {
+  const message: ExtensionMessage = { type: "webdavSync" };
+  return (
+    (await browser.runtime.sendMessage(message).catch(() => undefined)) ?? {
+      ok: false,
+      error: "WebDAV sync failed",
+    }
+  );
+};
+
+/**
+ * 读取上次同步时间
+ * @returns 上次同步时间，未同步过时为 undefined
+ */
+export const getWebDAVSyncDate = async () => {
+  const res = await browser.storage.local.get("webdavSyncDate");
+  return res.webdavSyncDate as number | undefined;
+};
+
+/** WebDAV 同步目标：按文件整体同步，单个单词的修改在下次同步时上传 */
+export const webdavProvider: SyncProvider = {
+  id: "webdav",
+  name: "WebDAV",
+  isReady: (setting) => isWebDAVReady(setting.webdavInfo),
+  add: async () => undefined,
+  remove: async () => undefined,
+  update: async () => undefined,
+  pull: async () => (await readFile<Sww[]>(await getWebDAVInfo(), "words"))?.data ?? [],
+  healthCheck: async () => {
+    const info = await getWebDAVInfo();
+    const res = await request(info, info.url, {
+      method: "PROPFIND",
+      headers: { Depth: "0" },
+    });
+    if (!res.ok) {
+      throw new Error(`WebDAV ${res.status}`);
+    }
+  },
+};
@@ -17,7 +17,7 @@ import type { Chat, Message } from '@/types/chat';
 import { ChatConstructor } from './openAI';
 import { handleStream } from '@/utils';
 import { formateMessage } from "@/utils";
-import { getSetting } from '@/storage/sync';
+import { getSecret } from '@/storage/secret';
 
 /**
  * 文心一言构造函数接口
@@ -74,7 +74,7 @@ export default class WenxinClass implements Chat {
     }
 
     // 获取用户设置的AccessToken
-    const token = (await getSetting()).wenxinToken;
+    const token = await getSecret('wenxinToken');
     if (!token) {
       toastManager.add({
         type: 'error',
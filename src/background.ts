@@ -7,6 +7,23 @@
 import Browser from "webextension-polyfill";
 import type { ExtensionMessage, BackgroundFetchParam, ExternalMessage } from "./types";
 import { getSetting } from "./storage/sync";
+import { runMigrations } from "./storage/migration";
+import { runDBRequest } from "./storage/db";
+import { enqueueWrite, registerWriter } from "./storage/writer";
+import { handleOutboxCommand, registerOutbox } from "./api/outbox";
+import { registerWebDAV, runWebDAVSync } from "./api/webdav";
+import { getSecrets } from "./storage/secret";
+import { enqueueSetting, registerSettingWriter } from "./storage/sync";
+
+/** 生词本等数据与设置的写入都在后台串行执行 */
+registerWriter();
+registerSettingWriter();
+
+/** 单词的后端写入由后台的离线队列发送与重试 */
+registerOutbox();
+
+/** WebDAV 同步在后台执行，可按设置的间隔定时同步 */
+registerWebDAV();
 
 // ===================== 核心功能概述 =====================
 
@@ -114,10 +131,14 @@ const backgroundFetch = async (param: BackgroundFetchParam) => {
 // ===================== 扩展安装初始化 =====================
 
 /**
- * 扩展安装时的初始化设置
- * 创建右键菜单项，为用户提供翻译功能的快捷入口
+ * 扩展安装/升级时的初始化设置
+ * 执行存储结构迁移，并创建右键菜单项，为用户提供翻译功能的快捷入口
  */
 Browser.runtime.onInstalled.addListener(() => {
+  /** 按版本顺序执行存储迁移 */
+  runMigrations();
+
+
   /** 创建右键菜单项 */
   Browser.contextMenus.create({
     id: "translate",           // 菜单项ID
@@ -174,6 +195,38 @@ Browser.runtime.onMessage.addListener(async (message: ExtensionMessage) => {
     return res;
   }
   
+  // ===================== 数据库代理 =====================
+
+  if (message.type === "db") {
+    /** 内容脚本无法访问扩展的 IndexedDB，由后台执行数据库操作 */
+    return await runDBRequest(message.payload);
+  }
+
+  if (message.type === "write") {
+    /** 所有页面的写入进入同一个队列，避免并发读改写互相覆盖 */
+    return await enqueueWrite(message.payload);
+  }
+
+  if (message.type === "setting") {
+    /** 所有页面的设置写入进入同一个队列，避免 localSetting 的读改写互相覆盖 */
+    return await enqueueSetting(message.payload);
+  }
+
+  if (message.type === "outbox") {
+    /** 单词的后端写入先进入离线队列，失败后定时重试 */
+    return await handleOutboxCommand(message.payload);
+  }
+
+  if (message.type === "secrets") {
+    /** 内容脚本无法访问 storage.session，由后台解密并返回引擎密钥 */
+    return await getSecrets();
+  }
+
+  if (message.type === "webdavSync") {
+    /** 立即执行一次 WebDAV 同步，返回同步结果 */
+    return await runWebDAVSync();
+  }
+
   // ===================== 页面导航 =====================
   
   if (message.type === "openOptions") {
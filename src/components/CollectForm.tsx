@@ -2,7 +2,8 @@
  * 单词收集表单组件
  * - 用于用户收集和保存学习的单词
  * - 支持实时表单状态管理和验证
- * - 包含单词、语境和备注三个核心字段
+ * - 包含单词、语境和备注三个核心字段，存在分组时可选择所属生词本分组
+ * - 在对比翻译中选用译文后显示译文字段，可在保存前修改
  * - 支持两种尺寸样式（sm/md）
  * - 集成富文本编辑器用于备注输入
  * - 支持社区分享功能提示
@@ -10,7 +11,8 @@
 import { useTranslation } from "react-i18next";
 import Editor from "./Editor";
 import { X } from "lucide-react";
-import { collectInputBasicAtom } from "@/store";
+import { collectInputBasicAtom, deckListAtom } from "@/store";
+import { useAtom } from "jotai";
 import { useImmerAtom } from "jotai-immer";
 import { useState } from "react";
 
@@ -50,6 +52,9 @@ export default function CollectForm({
     collectInputBasicAtom
   );
 
+  /** 生词本分组列表 */
+  const [deckList] = useAtom(deckListAtom);
+
   // ===================== 事件处理 =====================
 
   /**
@@ -121,6 +126,50 @@ export default function CollectForm({
         />
       </label>
 
+      {/* 译文字段（在对比翻译中选用译文后显示） */}
+      {collectSwwInfo?.translation !== undefined && (
+        <label className="block">
+          <span className="font-semibold">{t("Translation")}</span>
+          <textarea
+            value={collectSwwInfo.translation}
+            onChange={(e) => {
+              setCollectBasicInfo((draft) => {
+                draft!.translation = e.target.value;  // 更新译文字段
+              });
+            }}
+            rows={2}
+            className={`placeholder:text-base-content/50 block mt-1 w-full textarea textarea-bordered ${
+              size === "sm" ? "textarea-sm" : ""
+            }`}
+          />
+        </label>
+      )}
+
+      {/* 分组选择字段（存在分组时显示） */}
+      {deckList.length ? (
+        <label className="block">
+          <span className="font-semibold">{t("Deck")}</span>
+          <select
+            value={collectSwwInfo?.deckId ?? ""}
+            onChange={(e) => {
+              setCollectBasicInfo((draft) => {
+                draft!.deckId = e.target.value || undefined;  // 更新分组字段
+              });
+            }}
+            className={`mt-1 select select-bordered w-full ${
+              size === "sm" ? "select-sm" : ""
+            }`}
+          >
+            <option value="">{t("No Deck")}</option>
+            {deckList.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      ) : null}
+
       {/* 备注字段 */}
       <label className="block">
         <div className="flex items-center gap-2">
@@ -0,0 +1,81 @@
+/**
+ * 组件：单词上下文列表
+ * - 默认只展示最近一次遇到单词时的句子
+ * - 有多条记录时可展开查看全部出现记录，每条附带来源页面链接与时间
+ * - Word 与 Translate 组件共用
+ */
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import type { Sww } from "@/types/words";
+import { getOccurrences } from "@/utils/occurrence";
+import Highlight from "./Highlight";
+
+/**
+ * 上下文列表组件
+ * @param props - 组件属性
+ * @param props.collectInfo - 已收藏的单词
+ * @param props.searchText - 查询文本，用于在句子中高亮
+ * @returns 上下文列表React组件
+ */
+export default function ContextList({
+  collectInfo,
+  searchText,
+}: {
+  collectInfo: Sww;
+  searchText: string;
+}) {
+  const { t } = useTranslation();
+
+  /** 是否展开全部记录 */
+  const [expanded, setExpanded] = useState(false);
+
+  const occurrences = getOccurrences(collectInfo);
+  const list = expanded ? occurrences : occurrences.slice(0, 1);
+
+  return (
+    <div className="space-y-2">
+      {list.map((item, index) => (
+        <div key={`${item.date}-${index}`}>
+          <Highlight
+            highlightClassName="font-bold"
+            context={item.sentence}
+            wordString={JSON.stringify([searchText])}
+          />
+          {item.url || item.date ? (
+            <div className="flex items-center text-[11px] opacity-50 space-x-2">
+              {item.url ? (
+                <a
+                  href={item.url}
+                  target="_blank"
+                  title={item.url}
+                  className="underline truncate max-w-[240px]"
+                >
+                  {item.title || item.url}
+                </a>
+              ) : null}
+              {item.date ? (
+                <span>{new Date(item.date).toLocaleDateString()}</span>
+              ) : null}
+            </div>
+          ) : null}
+        </div>
+      ))}
+      {occurrences.length > 1 ? (
+        <div
+          onClick={() => setExpanded((pre) => !pre)}
+          className="flex items-center text-xs opacity-60 cursor-pointer"
+        >
+          {expanded ? (
+            <ChevronUp className="w-3 h-3 mr-1" />
+          ) : (
+            <ChevronDown className="w-3 h-3 mr-1" />
+          )}
+          {expanded
+            ? t("Collapse")
+            : t("Show all occurrences", { count: occurrences.length })}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -4,10 +4,15 @@
  * - 鼠标悬停控制下拉菜单显示/隐藏
  * - 智能布局：根据引擎数量和类型调整下拉菜单位置
  * - 使用radio button提供单选功能
+ * - 不支持当前源语言的引擎（见引擎注册表的 capabilities.languages）不显示
  * - 支持鼠标移入移出的防抖处理，提升用户体验
  */
 import { EngineValue, EngineItem } from "@/types";
-import { allSentenceEngineList, allWordEngineList } from "@/utils/const";
+import {
+  allSentenceEngineList,
+  allWordEngineList,
+  isEngineLanguageSupported,
+} from "@/api/engines";
 import { useEffect, useRef, useState } from "react";
 import { ChevronDown } from "lucide-react";
 import { useAtom } from "jotai";
@@ -85,14 +90,17 @@ export default function EngineDropdown({
    * 获取可用的引擎列表
    * - 根据isWord参数选择单词引擎或句子引擎
    * - 只显示已启用的引擎（checked = true）
+   * - 只显示支持当前源语言的引擎
    */
-  const engines = isWord
-    ? (setting.wordEngineList ?? allWordEngineList).filter(
-        (item) => item.checked  // 只显示启用的单词引擎
-      )
-    : (setting.sentenceEngineList ?? allSentenceEngineList).filter(
-        (item) => item.checked  // 只显示启用的句子引擎
-      );
+  const engines = (
+    isWord
+      ? setting.wordEngineList ?? allWordEngineList
+      : setting.sentenceEngineList ?? allSentenceEngineList
+  ).filter(
+    (item) =>
+      item.checked &&
+      isEngineLanguageSupported(item.value, setting.sourceLanguage?.language)
+  );
 
   /**
    * 更新当前引擎显示名称Effect
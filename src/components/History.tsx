@@ -0,0 +1,153 @@
+/**
+ * 组件：查词历史
+ * - 按时间倒序展示查词记录（单词、上下文、来源页面、引擎、时间）
+ * - 每条记录可一键加入生词本或删除，支持清空全部历史
+ * - Popup 与 Options 页面共用
+ */
+import { useAtom } from "jotai";
+import { useTranslation } from "react-i18next";
+import { Check, Inbox, Plus, Trash2, X } from "lucide-react";
+import { v4 as uuidv4 } from "uuid";
+import {
+  addSwwAtom,
+  clearHistoryAtom,
+  historyListAtom,
+  removeHistoryAtom,
+  swwListAtom,
+} from "@/store";
+import { hasWord } from "@/utils";
+import type { LookupHistory } from "@/types/words";
+
+/**
+ * 查词历史组件
+ * @param props - 组件属性
+ * @param props.onClose - 关闭回调（Popup 中返回查词面板）
+ * @param props.className - 列表容器的额外样式（用于限制高度）
+ * @returns 查词历史React组件
+ */
+export default function History({
+  onClose,
+  className,
+}: {
+  onClose?: () => void;
+  className?: string;
+}) {
+  const { t } = useTranslation();
+
+  // ===================== 全局状态 =====================
+
+  const [historyList] = useAtom(historyListAtom);
+  const [swwList] = useAtom(swwListAtom);
+  const [, addSww] = useAtom(addSwwAtom);
+  const [, removeHistory] = useAtom(removeHistoryAtom);
+  const [, clearHistory] = useAtom(clearHistoryAtom);
+
+  // ===================== 交互处理 =====================
+
+  /**
+   * 将查词记录加入生词本
+   * @param item - 查词记录
+   */
+  const promote = (item: LookupHistory) => {
+    if (hasWord({ word: item.word, swwList })) {
+      return;
+    }
+    const context = item.context ?? item.word;
+    addSww({
+      id: uuidv4(),
+      lastEditDate: Date.now(),
+      word: item.word,
+      context,
+      contexts: [
+        { sentence: context, url: item.url, title: item.title, date: item.date },
+      ],
+      searchCount: historyList.filter((im) => im.word === item.word).length,
+    });
+  };
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div>
+      <div className="flex items-center mb-2 text-[13px]">
+        <span className="opacity-70">{t("Lookup History")}</span>
+        {historyList.length ? (
+          <button onClick={clearHistory} className="btn btn-xs btn-ghost ml-2">
+            {t("Clear")}
+          </button>
+        ) : null}
+        {onClose ? (
+          <X
+            onClick={onClose}
+            className="ml-auto cursor-pointer opacity-70"
+            width={16}
+            height={16}
+          />
+        ) : null}
+      </div>
+
+      {historyList.length ? (
+        <div className={`divide-y overflow-y-auto ${className ?? ""}`}>
+          {historyList.map((item) => {
+            const collected = hasWord({ word: item.word, swwList });
+            return (
+              <div key={item.id} className="flex items-start py-2 group">
+                <div className="grow min-w-0">
+                  <div className="font-semibold truncate">{item.word}</div>
+                  {item.context && item.context !== item.word ? (
+                    <div className="text-xs opacity-70 truncate">
+                      {item.context}
+                    </div>
+                  ) : null}
+                  <div className="flex items-center text-[11px] opacity-50 space-x-2">
+                    <span>{new Date(item.date).toLocaleString()}</span>
+                    {item.engine ? <span>{item.engine}</span> : null}
+                    {item.url ? (
+                      <a
+                        href={item.url}
+                        target="_blank"
+                        title={item.url}
+                        className="underline truncate"
+                      >
+                        {item.title || item.url}
+                      </a>
+                    ) : null}
+                  </div>
+                </div>
+                <div className="flex items-center shrink-0 ml-2 space-x-1">
+                  {collected ? (
+                    <span
+                      data-tip={t("In vocabulary")}
+                      className="tooltip tooltip-left"
+                    >
+                      <Check className="w-4 h-4 text-success" />
+                    </span>
+                  ) : (
+                    <span
+                      data-tip={t("Add to vocabulary")}
+                      className="tooltip tooltip-left"
+                    >
+                      <Plus
+                        onClick={() => promote(item)}
+                        className="w-4 h-4 cursor-pointer opacity-60 hover:opacity-100"
+                      />
+                    </span>
+                  )}
+                  <Trash2
+                    onClick={() => removeHistory(item)}
+                    className="w-4 h-4 cursor-pointer opacity-0 group-hover:opacity-60"
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="text-xs flex items-center justify-center space-x-1 py-[20px] text-gray-500">
+          <Inbox className="w-[15px] h-[15px]" />
+          <span>{t("No lookup history")}</span>
+        </div>
+      )}
+    </div>
+  );
+}
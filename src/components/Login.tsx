@@ -16,8 +16,8 @@ import { useTranslation } from "react-i18next";
 import { Info } from "lucide-react";
 import browser from "webextension-polyfill";
 import { useAtom } from "jotai";
-import { settingAtom, remarkListAtom, swwListAtom } from "@/store";
-import { setLocal} from "@/storage/local";
+import { settingAtom } from "@/store";
+import { mergeRemoteRemarks, mergeRemoteWords } from "@/storage/local";
 
 // ===================== 常量定义 =====================
 
@@ -50,12 +50,6 @@ export default function Login({ onSuccess }: { onSuccess?: () => void }) {
 
   /** 设置状态管理 */
   const [, setSetting] = useAtom(settingAtom);
-  
-  /** 备注列表状态管理 */
-  const [, setRemarkList] = useAtom(remarkListAtom);
-  
-  /** 单词列表状态管理 */
-  const [, setSwwList] = useAtom(swwListAtom);
 
   // ===================== 本地状态管理 =====================
 
@@ -96,16 +90,19 @@ export default function Login({ onSuccess }: { onSuccess?: () => void }) {
     // 获取并同步单词列表
     getSwwList().then(res => {
       if (res?.list instanceof Array) {
-        setLocal({ swwList: res.list });  // 保存到本地存储
-        setSwwList(res.list);             // 更新全局状态
+        // 合并进本地（登录前离线收藏的单词与本地复习进度保留），全局状态随存储变化更新
+        mergeRemoteWords(res.list).catch((error: Error) => {
+          toastManager.add({ type: "error", msg: t(error.message) });
+        });
       }
     });
 
     // 获取并同步备注列表
     getMyAllRemarkList().then(res => {
       if (res?.list instanceof Array) {
-        setLocal({ remarkList: res.list });  // 保存到本地存储
-        setRemarkList(res.list);             // 更新全局状态
+        mergeRemoteRemarks(res.list).catch((error: Error) => {
+          toastManager.add({ type: "error", msg: t(error.message) });
+        });
       }
     });
 
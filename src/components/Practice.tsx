@@ -0,0 +1,270 @@
+/**
+ * 组件：单词练习卡片
+ * - 依次展示今日待复习的单词及其收藏时的上下文
+ * - 释义默认隐藏，点击“显示答案”后才加载查词结果
+ * - 用户按 again/hard/good/easy 打分后进入下一个待复习单词
+ * - 存在生词本分组时可选择只复习某个分组
+ * - 同时用于 Popup 与页面内卡片，使用forwardRef暴露 next 方法供外部跳过当前单词
+ */
+import { forwardRef, useImperativeHandle, useMemo, useState } from "react";
+import { useAtom } from "jotai";
+import { useTranslation } from "react-i18next";
+import Browser from "webextension-polyfill";
+import { Inbox, MonitorPlay, X } from "lucide-react";
+import {
+  deckListAtom,
+  dueSwwListAtom,
+  reviewDeckIdAtom,
+  reviewSwwAtom,
+  settingAtom,
+  swwListAtom,
+} from "@/store";
+import type { ReviewGrade } from "@/types/words";
+import type { ExtensionMessage } from "@/types";
+import { getCollectWord, isInPopup } from "@/utils";
+import { defaultSetting } from "@/utils/const";
+import { reviewGrades, scheduleReview } from "@/utils/review";
+import Highlight from "./Highlight";
+import YoudaoSpeaker from "./Speaker";
+import SearchResult from "./SearchResult";
+import { toastManager } from "./Toast";
+
+/**
+ * 练习卡片暴露的ref接口
+ */
+interface PracticeImperative {
+  /** 跳过当前单词，进入下一个 */
+  next: () => void;
+}
+
+/**
+ * 练习卡片属性接口
+ */
+interface PracticeProps {
+  /** 优先练习的单词（需已收藏），为空时从待复习队列开始 */
+  text?: string;
+  /** 关闭练习的回调 */
+  onClose?: () => void;
+}
+
+/** 评分按钮样式 */
+const gradeClassName: Record<ReviewGrade, string> = {
+  again: "btn-error",
+  hard: "btn-warning",
+  good: "btn-success",
+  easy: "btn-info",
+};
+
+/** 评分按钮文案（i18n key） */
+const gradeLabel: Record<ReviewGrade, string> = {
+  again: "Again",
+  hard: "Hard",
+  good: "Good",
+  easy: "Easy",
+};
+
+export default forwardRef<PracticeImperative, PracticeProps>(function Practice(
+  { text, onClose },
+  ref
+) {
+  const { t } = useTranslation();
+
+  // ===================== 全局状态 =====================
+
+  const [setting] = useAtom(settingAtom);
+  const [swwList] = useAtom(swwListAtom);
+  const [dueSwwList] = useAtom(dueSwwListAtom);
+  const [, reviewSww] = useAtom(reviewSwwAtom);
+  const [deckList] = useAtom(deckListAtom);
+  const [reviewDeckId, setReviewDeckId] = useAtom(reviewDeckIdAtom);
+
+  // ===================== 本地状态 =====================
+
+  /** 本轮已打分或已跳过的单词ID */
+  const [doneIds, setDoneIds] = useState<string[]>([]);
+
+  /** 是否已显示答案 */
+  const [revealed, setRevealed] = useState(false);
+
+  const sourceLang =
+    setting.sourceLanguage?.language ?? defaultSetting.sourceLanguage.language;
+
+  /** 本轮剩余的待复习单词 */
+  const queue = useMemo(
+    () => dueSwwList.filter((item) => !doneIds.includes(item.id)),
+    [dueSwwList, doneIds]
+  );
+
+  /** 当前练习的单词：优先使用指定单词，其次取队列首个 */
+  const current = useMemo(() => {
+    const startWord = text ? getCollectWord({ word: text, swwList }) : undefined;
+    if (startWord && !doneIds.includes(startWord.id)) {
+      return startWord;
+    }
+    return queue[0];
+  }, [text, swwList, doneIds, queue]);
+
+  /** 当前单词的发音语言：优先使用所属分组的语言 */
+  const speakLang =
+    deckList.find((item) => item.id === current?.deckId)?.language ||
+    sourceLang;
+
+  // ===================== 交互处理 =====================
+
+  /** 进入下一个单词 */
+  const next = () => {
+    if (current) {
+      setDoneIds((pre) => [...pre, current.id]);
+    }
+    setRevealed(false);
+  };
+
+  useImperativeHandle(ref, () => ({ next }));
+
+  /**
+   * 处理打分
+   * @param grade - 复习评分
+   */
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!current) {
+      return;
+    }
+    reviewSww({ sww: current, grade });
+    next();
+  };
+
+  /**
+   * 在当前页面中继续练习（仅 Popup 中可用）
+   * 向当前标签页的内容脚本发送 startPractice 消息后关闭 Popup
+   */
+  const practiceOnPage = async () => {
+    try {
+      const [tab] = await Browser.tabs.query({
+        active: true,
+        currentWindow: true,
+      });
+      const message: ExtensionMessage = {
+        type: "startPractice",
+        payload: current?.word,
+      };
+      await Browser.tabs.sendMessage(tab.id!, message);
+      window.close();
+    } catch (error) {
+      toastManager.add({
+        type: "error",
+        msg: t("The current page does not support practice"),
+      });
+    }
+  };
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div className="py-1 px-2">
+      <div className="flex items-center mb-2 text-[13px] opacity-70">
+        <span>{t("Review")}</span>
+        <span className="ml-2 badge badge-ghost badge-sm">
+          {queue.filter((item) => item.id !== current?.id).length +
+            (current ? 1 : 0)}
+        </span>
+        {deckList.length ? (
+          <select
+            value={reviewDeckId}
+            onChange={(e) => {
+              setReviewDeckId(e.target.value);
+              setRevealed(false);
+            }}
+            className="select select-bordered select-xs ml-2"
+          >
+            <option value="">{t("All Decks")}</option>
+            {deckList.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+        ) : null}
+        {isInPopup && current ? (
+          <span
+            data-tip={t("Review on this page")}
+            className="ml-auto tooltip tooltip-left cursor-pointer"
+          >
+            <MonitorPlay onClick={practiceOnPage} width={16} height={16} />
+          </span>
+        ) : null}
+        {isInPopup && onClose ? (
+          <X
+            onClick={onClose}
+            className={`${current ? "ml-2" : "ml-auto"} cursor-pointer`}
+            width={16}
+            height={16}
+          />
+        ) : null}
+      </div>
+
+      {!current ? (
+        <div className="text-xs flex items-center justify-center space-x-1 py-[20px] text-gray-500">
+          <Inbox className="w-[15px] h-[15px]" />
+          <span>{t("No words due for review")}</span>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center mb-1">
+            <div className="font-bold text-lg">{current.word}</div>
+            <YoudaoSpeaker
+              className="ml-[7px] mt-[2px]"
+              autoPlay={false}
+              text={current.word}
+              lang={speakLang}
+              type={"2"}
+            />
+          </div>
+          {current.context ? (
+            <div className="my-2">
+              <Highlight
+                highlightClassName="font-bold"
+                context={current.context}
+                wordString={JSON.stringify([current.word])}
+              />
+            </div>
+          ) : null}
+
+          {!revealed ? (
+            <div className="flex justify-center my-3">
+              <button
+                onClick={() => setRevealed(true)}
+                className="btn btn-sm btn-primary"
+              >
+                {t("Show Answer")}
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="relative border-t pt-2">
+                <SearchResult
+                  key={current.id}
+                  searchText={current.word}
+                  recordHistory={false}
+                />
+              </div>
+              <div className="grid grid-cols-4 gap-2 mt-3">
+                {reviewGrades.map((grade) => (
+                  <button
+                    key={grade}
+                    onClick={() => handleGrade(grade)}
+                    className={`btn btn-sm ${gradeClassName[grade]} flex flex-col h-auto py-1`}
+                  >
+                    <span>{t(gradeLabel[grade])}</span>
+                    <span className="text-[10px] opacity-70">
+                      {scheduleReview(current, grade).interval}d
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+});
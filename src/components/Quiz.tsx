@@ -0,0 +1,221 @@
+/**
+ * 组件：完形填空测验
+ * - 从生词本中挑选带有上下文的单词，将单词在上下文中挖空
+ * - 支持选择题（干扰项来自生词本中词性/长度相近的单词）与拼写题两种模式
+ * - 作答结果通过 quizSwwAtom 回写 weight/masteryLevel，连续答对后标记为已掌握
+ */
+import { useEffect, useMemo, useState } from "react";
+import { useAtom } from "jotai";
+import { useTranslation } from "react-i18next";
+import { Inbox, X } from "lucide-react";
+import { quizSwwAtom, swwListAtom } from "@/store";
+import { isSameSpelling } from "@/utils";
+import type { Sww } from "@/types/words";
+import {
+  buildCloze,
+  canCloze,
+  clozeBlank,
+  getChoices,
+  shuffle,
+} from "@/utils/quiz";
+
+/** 题目类型：选择题 / 拼写题 */
+type QuizType = "choice" | "spell";
+
+/**
+ * 完形填空测验组件
+ * @param props - 组件属性
+ * @param props.onClose - 关闭测验的回调
+ * @returns 测验React组件
+ */
+export default function Quiz({ onClose }: { onClose?: () => void }) {
+  const { t } = useTranslation();
+
+  // ===================== 全局状态 =====================
+
+  const [swwList] = useAtom(swwListAtom);
+  const [, quizSww] = useAtom(quizSwwAtom);
+
+  // ===================== 本地状态 =====================
+
+  /** 题目类型 */
+  const [quizType, setQuizType] = useState<QuizType>("choice");
+
+  /** 本轮已出过题的单词ID */
+  const [doneIds, setDoneIds] = useState<string[]>([]);
+
+  /** 当前题目（为空时自动从题库中选取） */
+  const [current, setCurrent] = useState<Sww | undefined>(undefined);
+
+  /** 当前题目的选择题选项（选题时生成，作答后生词本更新也不会重新打乱） */
+  const [choices, setChoices] = useState<string[]>([]);
+
+  /** 拼写题输入 */
+  const [input, setInput] = useState("");
+
+  /** 用户的答案，未作答时为 undefined */
+  const [answer, setAnswer] = useState<string | undefined>(undefined);
+
+  /** 题库：能生成完形填空的单词，未掌握的优先 */
+  const pool = useMemo(() => {
+    const list = swwList.filter(canCloze);
+    const unMastered = list.filter(
+      (item) => item.masteryLevel !== 1 && item.masteryLevel !== 2
+    );
+    return unMastered.length ? unMastered : list;
+  }, [swwList]);
+
+  /** 当前没有题目时，从本轮未出过的单词中随机选取一个，并生成选项 */
+  useEffect(() => {
+    if (!current && pool.length) {
+      const nextSww = shuffle(
+        pool.filter((item) => !doneIds.includes(item.id))
+      )[0];
+      setCurrent(nextSww);
+      setChoices(nextSww ? getChoices(nextSww, swwList) : []);
+    }
+  }, [current, pool, doneIds, swwList]);
+
+  const answered = answer !== undefined;
+  const correct = answered && current && isSameSpelling(answer, current.word);
+
+  // ===================== 交互处理 =====================
+
+  /**
+   * 提交答案并回写结果
+   * @param value - 用户选择或输入的答案
+   */
+  const submit = (value: string) => {
+    if (!current || answered || !value.trim()) {
+      return;
+    }
+    setAnswer(value);
+    quizSww({ sww: current, correct: isSameSpelling(value, current.word) });
+  };
+
+  /** 下一题 */
+  const next = () => {
+    if (current) {
+      setDoneIds((pre) =>
+        pre.length + 1 >= pool.length ? [] : [...pre, current.id]
+      );
+    }
+    setCurrent(undefined);
+    setAnswer(undefined);
+    setInput("");
+  };
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div className="py-1 px-2">
+      <div className="flex items-center mb-2 text-[13px]">
+        <span className="opacity-70">{t("Cloze Quiz")}</span>
+        <div role="tablist" className="tabs tabs-boxed tabs-xs ml-3">
+          {(["choice", "spell"] as QuizType[]).map((type) => (
+            <a
+              key={type}
+              role="tab"
+              onClick={() => setQuizType(type)}
+              className={`tab ${quizType === type ? "tab-active" : ""}`}
+            >
+              {type === "choice" ? t("Multiple Choice") : t("Spelling")}
+            </a>
+          ))}
+        </div>
+        {onClose ? (
+          <X
+            onClick={onClose}
+            className="ml-auto cursor-pointer opacity-70"
+            width={16}
+            height={16}
+          />
+        ) : null}
+      </div>
+
+      {!current ? (
+        <div className="text-xs flex items-center justify-center space-x-1 py-[20px] text-gray-500">
+          <Inbox className="w-[15px] h-[15px]" />
+          <span>{t("No words with context to quiz")}</span>
+        </div>
+      ) : (
+        <>
+          <div className="my-2 leading-relaxed">
+            {buildCloze(current.context!, current.word).map((part, index) =>
+              part === null ? (
+                <span
+                  key={index}
+                  className={`font-bold mx-[2px] ${
+                    answered ? (correct ? "text-success" : "text-error") : ""
+                  }`}
+                >
+                  {answered ? current.word : clozeBlank}
+                </span>
+              ) : (
+                <span key={index}>{part}</span>
+              )
+            )}
+          </div>
+
+          {quizType === "choice" ? (
+            <div className="grid grid-cols-2 gap-2 my-3">
+              {choices.map((choice) => (
+                <button
+                  key={choice}
+                  onClick={() => submit(choice)}
+                  className={`btn btn-sm normal-case ${
+                    answered && isSameSpelling(choice, current.word)
+                      ? "btn-success"
+                      : ""
+                  } ${
+                    answered && choice === answer && !correct ? "btn-error" : ""
+                  }`}
+                >
+                  {choice}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="flex items-center my-3">
+              <input
+                value={input}
+                disabled={answered}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    submit(input);
+                  }
+                }}
+                type="text"
+                placeholder={t("Type the missing word")}
+                className="input input-bordered input-sm w-full"
+              />
+              <button
+                disabled={answered || !input.trim()}
+                onClick={() => submit(input)}
+                className="btn btn-sm btn-primary ml-2"
+              >
+                {t("Confirm")}
+              </button>
+            </div>
+          )}
+
+          {answered ? (
+            <div className="flex items-center justify-between">
+              <span
+                className={`text-[13px] ${
+                  correct ? "text-success" : "text-error"
+                }`}
+              >
+                {correct ? t("Correct") : t("Incorrect")}
+              </span>
+              <button onClick={next} className="btn btn-sm">
+                {t("Next")}
+              </button>
+            </div>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+}
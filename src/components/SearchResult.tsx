@@ -3,19 +3,26 @@
  * - 核心翻译和单词管理功能的主组件
  * - 根据搜索内容类型（单词/句子）智能选择渲染组件
  * - 集成多种引擎选择和错误边界处理
+ * - 句子可切换为对比模式，同时显示全部已启用句子引擎的结果，并选择收藏时保存的译文
  * - 支持单词收藏、备注管理和用户状态检查
  * - 自动保存功能，支持用户登录状态下的单词收集
+ * - 每次查词写入查词历史，已收藏单词累加查询次数
  * - 响应式设计，支持popup和content script两种模式
  */
 import { getCollectWord, isSameWord } from "../utils";
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import type { CommunityItemType, CommunityType, Sww } from "@/types/words";
 import Translate from "./Translate";
+import TranslateCompare from "./TranslateCompare";
 import Word from "./Word";
 import { currentSelectionInfo } from "../utils";
 import { isWord } from "../utils";
 import type { CollectRemarkInfo, EngineValue } from "@/types";
-import { allSentenceEngineList, allWordEngineList } from "@/utils/const";
+import {
+  allSentenceEngineList,
+  allWordEngineList,
+  isEngineLanguageSupported,
+} from "@/api/engines";
 import EngineDropdown from "./EngineDropdown";
 import { ErrorBoundary } from "react-error-boundary";
 import FallbackComponent from "./FallbackComponent";
@@ -33,7 +40,11 @@ import {
   collectInputBasicAtom,
   collectInputRemarkAtom,
   remarkListAtom,
+  recordLookupAtom,
+  deckListAtom,
 } from "@/store";
+import { getDefaultDeck } from "@/utils/deck";
+import { appendOccurrence, createOccurrence } from "@/utils/occurrence";
 import Browser from "webextension-polyfill";
 import { setSession } from "@/storage/session";
 import { createPortal } from "react-dom";
@@ -42,7 +53,8 @@ import CollectForm from "./CollectForm";
 import { v4 as uuidv4 } from "uuid";
 import { hasWord } from "../utils";
 import {
-  getLocal,
+  getList as getStorageSwwList,
+  getRemarkList,
   addRemark,
   removeRemark,
   updateRemark,
@@ -55,19 +67,24 @@ import {
   uploadMultiBase64,
 } from "@/api";
 import { useImmerAtom } from "jotai-immer";
+import { useTranslation } from "react-i18next";
 import { getSetting } from "@/storage/sync";
+import { Columns2 } from "lucide-react";
 
 /**
  * 搜索结果展示组件
  * 根据搜索内容类型智能显示翻译结果或单词详情
  * @param props - 组件属性
  * @param props.searchText - 搜索的文本内容
+ * @param props.recordHistory - 是否记录查词历史（练习中查看释义时不记录），默认记录
  * @returns 搜索结果展示React组件
  */
 export default function TranslateContent({
   searchText,
+  recordHistory = true,
 }: {
   searchText: string;
+  recordHistory?: boolean;
 }) {
 
   // ===================== 全局状态管理 =====================
@@ -83,12 +100,23 @@ export default function TranslateContent({
   
   /** 更新单词操作 */
   const [, updateSww] = useAtom(updateSwwItemAtom);
+
+  /** 记录查词历史操作 */
+  const [, recordLookup] = useAtom(recordLookupAtom);
+
+  /** 生词本分组列表 */
+  const [deckList] = useAtom(deckListAtom);
   
   /** 应用设置状态 */
-  const [setting] = useAtom(settingAtom);
+  const [setting, setSetting] = useAtom(settingAtom);
+
+  /** 源语言（用于选择默认分组） */
+  const sourceLanguage = setting.sourceLanguage?.language;
   
   /** 备注列表状态（使用Immer进行不可变更新） */
   const [remarkList, setRemarkList] = useImmerAtom(remarkListAtom);
+
+  const { t } = useTranslation();
   
   /** 收集表单基础信息状态 */
   const [collectInputBasic, setCollectBasicInfo] = useAtom(collectInputBasicAtom);
@@ -127,6 +155,12 @@ export default function TranslateContent({
   /** 错误边界组件引用 */
   const fallbackComRef = useRef<React.ComponentRef<typeof FallbackComponent>>(null);
 
+  /** 已记录查词历史的文本（切换引擎不重复记录） */
+  const recordedTextRef = useRef("");
+
+  /** 本次查词得到的考试标签，收藏时一并保存 */
+  const examTagsRef = useRef<string[] | undefined>(undefined);
+
   // ===================== 初始化和事件处理 =====================
 
   /**
@@ -145,6 +179,8 @@ export default function TranslateContent({
         root.querySelector("#orange-translator-container") as HTMLDivElement
       );
     }
+  };
+
   // ===================== UseEffect 钩子函数 =====================
 
   /**
@@ -191,20 +227,32 @@ export default function TranslateContent({
 
   /**
    * 单词收集信息同步Effect
-   * 根据搜索词获取已收集的单词信息和默认上下文
+   * 根据搜索词获取已收集的单词信息和默认上下文、默认分组
    */
   useEffect(() => {
     const result = getCollectWord({ word: searchText, swwList });
     setCurrentCollect(result);
     setCollectBasicInfo(
       result
-        ? { word: result.word, context: result.context! }
+        ? {
+            word: result.word,
+            // 在新的页面再次遇到已收藏单词时，默认使用当前句子，保存后追加为新的出现记录
+            context:
+              currentSelectionInfo.context &&
+              isSameWord(currentSelectionInfo.word, result.word)
+                ? currentSelectionInfo.context
+                : result.context!,
+            deckId: result.deckId,
+            translation: result.translation,
+          }
         : {
             word: currentSelectionInfo.word,
             context: currentSelectionInfo.context,
+            // 新收藏默认放入与源语言匹配的分组
+            deckId: getDefaultDeck(deckList, sourceLanguage)?.id,
           }
     );
-  }, [searchText, swwList, setCollectBasicInfo]);
+  }, [searchText, swwList, deckList, sourceLanguage, setCollectBasicInfo]);
 
   /**
    * 备注信息同步Effect
@@ -230,11 +278,11 @@ export default function TranslateContent({
   useEffect(() => {
     let ignore = false;
     
-    Promise.all([getSetting(), getLocal()]).then(res => {
+    Promise.all([getSetting(), getStorageSwwList()]).then(res => {
       if (ignore) {return}
       
       const setting = res[0];
-      const swwList = res[1].swwList;
+      const swwList = res[1];
       const isWordResult = isWord({
         input: searchText,
         lang: setting.sourceLanguage?.language,
@@ -247,12 +295,16 @@ export default function TranslateContent({
       if (swwList?.find(item => isSameWord(item.word, searchText))) {return} // 已存在
       
       // 创建新单词项
-      const item = {
-        id: uuidv4(),
-        lastEditDate: Date.now(),
-        word: searchText,
-        context: currentSelectionInfo.context ?? searchText
-      };
+      const context = currentSelectionInfo.context || searchText;
+      const item = appendOccurrence(
+        {
+          id: uuidv4(),
+          lastEditDate: Date.now(),
+          word: searchText,
+          context,
+        },
+        createOccurrence(context)
+      );
       addSww(item);
     });
       
@@ -261,6 +313,36 @@ export default function TranslateContent({
     };
   }, [searchText, addSww]);
 
+  /**
+   * 搜索文本变化时清空上一次查词的考试标签
+   */
+  useEffect(() => {
+    examTagsRef.current = undefined;
+  }, [searchText]);
+
+  /**
+   * 查词历史Effect
+   * 引擎确定后记录一次查词，同一搜索文本切换引擎不重复记录
+   */
+  useEffect(() => {
+    if (!recordHistory || !currentEngine || !searchText.trim()) {
+      return;
+    }
+    if (recordedTextRef.current === searchText) {
+      return;
+    }
+    recordedTextRef.current = searchText;
+    recordLookup({
+      id: uuidv4(),
+      word: searchText.trim(),
+      context: currentSelectionInfo.context || undefined,
+      url: isInPopup ? undefined : location.href,
+      title: isInPopup ? undefined : document.title,
+      engine: currentEngine,
+      date: Date.now(),
+    });
+  }, [searchText, currentEngine, recordHistory, recordLookup]);
+
   // ===================== 交互操作处理函数 =====================
 
   /**
@@ -311,6 +393,33 @@ export default function TranslateContent({
     updateSww({ ...wordCollectInfo, ...{ weight: num } });
   };
 
+  /**
+   * 处理考试标签加载
+   * 记录本次查词的考试标签，已收藏且标签有变化时写入单词，供学习统计使用
+   * @param tags - 考试标签
+   */
+  const handleExamTagsLoad = useCallback(
+    (tags: string[]) => {
+      examTagsRef.current = tags;
+      if (wordCollectInfo && wordCollectInfo.examTags?.join() !== tags.join()) {
+        updateSww({ ...wordCollectInfo, examTags: tags });
+      }
+    },
+    [wordCollectInfo, updateSww]
+  );
+
+  /**
+   * 选择收藏时保存的译文（对比模式）
+   * 已收藏时直接更新，未收藏时在收藏表单提交时保存
+   * @param translation - 译文
+   */
+  const handleUseTranslation = (translation: string) => {
+    setCollectBasicInfo((pre) => (pre ? { ...pre, translation } : pre));
+    if (wordCollectInfo) {
+      updateSww({ ...wordCollectInfo, lastEditDate: Date.now(), translation });
+    }
+  };
+
   /**
    * 处理编辑按钮点击
    * 显示收集表单进行编辑
@@ -332,6 +441,16 @@ export default function TranslateContent({
     }
   };
 
+  /**
+   * 备注写入冲突或失败时提示，并从本地重新加载备注
+   * @param error - 写入错误（message 为 i18n 文案键）
+   */
+  const handleRemarkWriteError = async (error: Error) => {
+    toastManager.add({ type: "error", msg: t(error.message) });
+    const list = await getRemarkList();
+    setRemarkList(() => list);
+  };
+
   /**
    * 处理收集表单提交
    * 复杂的提交逻辑，包含单词和备注的创建、更新、删除操作
@@ -341,18 +460,26 @@ export default function TranslateContent({
 
     // ============ 单词部分处理 ============
     
-    // 情况1：编辑现有单词（基础信息变更）
+    // 情况1：编辑现有单词（基础信息或所属分组变更），新的上下文追加为一条出现记录
     if (
       collectInputBasic &&
       wordCollectInfo &&
-      collectInputBasic.word !== wordCollectInfo?.word &&
-      collectInputBasic.context !== wordCollectInfo?.context
+      (collectInputBasic.word !== wordCollectInfo.word ||
+        collectInputBasic.context !== wordCollectInfo.context ||
+        collectInputBasic.deckId !== wordCollectInfo.deckId ||
+        collectInputBasic.translation !== wordCollectInfo.translation)
     ) {
-      item = {
+      const edited: Sww = {
         ...wordCollectInfo,
         lastEditDate: Date.now(),
-        ...collectInputBasic,
+        word: collectInputBasic.word,
+        deckId: collectInputBasic.deckId,
+        translation: collectInputBasic.translation,
       };
+      item =
+        collectInputBasic.context !== wordCollectInfo.context
+          ? appendOccurrence(edited, createOccurrence(collectInputBasic.context))
+          : edited;
       updateSww(item);
     }
 
@@ -360,17 +487,21 @@ export default function TranslateContent({
     if (!wordCollectInfo && collectInputBasic) {
       // 检查单词是否已存在
       if (
-        hasWord({ word: searchText, swwList: (await getLocal()).swwList ?? [] })
+        hasWord({ word: searchText, swwList: await getStorageSwwList() })
       ) {
         toastManager.add({ type: "error", msg: "the word already existed" });
         return;
       }
       
-      item = {
-        id: uuidv4(),
-        lastEditDate: Date.now(),
-        ...collectInputBasic,
-      };
+      item = appendOccurrence(
+        {
+          id: uuidv4(),
+          lastEditDate: Date.now(),
+          examTags: examTagsRef.current,
+          ...collectInputBasic,
+        },
+        createOccurrence(collectInputBasic.context)
+      );
       addSww(item);
     }
 
@@ -389,7 +520,7 @@ export default function TranslateContent({
           draft.splice(index, 1);
         }
       });
-      removeRemark({ id: wordRemarkInfo.id });
+      removeRemark({ id: wordRemarkInfo.id }).catch(handleRemarkWriteError);
     }
     
     // 情况4：更新现有备注
@@ -424,7 +555,7 @@ export default function TranslateContent({
           draft[index].lastEditDate = Date.now();
         }
       });
-      updateRemark(editItem);
+      updateRemark(editItem).catch(handleRemarkWriteError);
     }
 
     // 情况5：创建新备注
@@ -449,7 +580,7 @@ export default function TranslateContent({
       setRemarkList((draft) => {
         draft.push(communityItem);
       });
-      addRemark(communityItem);
+      addRemark(communityItem).catch(handleRemarkWriteError);
     }
 
     // 关闭收集表单
@@ -464,6 +595,19 @@ export default function TranslateContent({
     lang: setting.sourceLanguage?.language,
   });
 
+  /** 对比模式下参与对比的引擎：已启用且支持当前源语言的句子引擎 */
+  const compareEngines = (
+    setting.sentenceEngineList ?? allSentenceEngineList
+  ).filter(
+    (item) =>
+      item.checked &&
+      isEngineLanguageSupported(item.value, setting.sourceLanguage?.language)
+  );
+
+  /** 是否显示对比结果（句子且至少两个引擎） */
+  const isCompare =
+    !isWordResult && !!setting.compareMode && compareEngines.length > 1;
+
   /** 如果没有选中的引擎，显示为null */
   if (!currentEngine) {
     return null;
@@ -471,17 +615,36 @@ export default function TranslateContent({
 
   return (
     <div ref={divRef} className="max-h-[70vh] overflow-scroll">
-      {/* 引擎选择下拉菜单 */}
-      <EngineDropdown
-        isWord={isWordResult}
-        currentEngine={currentEngine}
-        onChange={(engine) => setCurrentEngine(engine)}
-        className={`absolute ${
+      <div
+        className={`absolute flex items-center gap-1 ${
           isInPopup
             ? "right-0 bg-gray-300/60 rounded-xl text-[11px] p-[3px] top-[0px]"
             : "right-16 text-[13px]"
         } top-[5px] z-10`}
-      />
+      >
+        {/* 对比模式开关（句子且启用了多个引擎时显示） */}
+        {!isWordResult && compareEngines.length > 1 && (
+          <span
+            onClick={() => setSetting({ compareMode: !setting.compareMode })}
+            data-tip={isCompare ? t("Single engine") : t("Compare engines")}
+            className={`tooltip tooltip-bottom cursor-pointer ${
+              isCompare ? "" : "opacity-50"
+            }`}
+          >
+            <Columns2 className="w-[15px] h-[15px]" />
+          </span>
+        )}
+
+        {/* 引擎选择下拉菜单 */}
+        {!isCompare && (
+          <EngineDropdown
+            isWord={isWordResult}
+            currentEngine={currentEngine}
+            onChange={(engine) => setCurrentEngine(engine)}
+            className="relative"
+          />
+        )}
+      </div>
 
       {/* 错误边界包装 */}
       <ErrorBoundary
@@ -504,8 +667,19 @@ export default function TranslateContent({
             searchText={searchText}
             currentEngine={currentEngine}
             onRefresh={() => onRefresh("word")}
+            onExamTagsLoad={handleExamTagsLoad}
             key={wordV}
           />
+        ) : isCompare ? (
+          // 对比模式：同时显示全部已启用句子引擎的结果
+          <TranslateCompare
+            searchText={searchText}
+            engines={compareEngines}
+            collected={!!wordCollectInfo}
+            selectedTranslation={collectInputBasic?.translation}
+            onHeartClick={handleHeartClick}
+            onUseTranslation={handleUseTranslation}
+          />
         ) : (
           // 句子模式：显示翻译组件
           <Translate
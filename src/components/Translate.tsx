@@ -7,7 +7,7 @@
  */
 import { useEffect, useState, useRef } from "react";
 import { CheckCheck, Heart, Undo2, MessageCircle, Pencil } from "lucide-react";
-import Highlight from "./Highlight";
+import ContextList from "./ContextList";
 import type { CommunityItemType, Sww } from "@/types/words";
 import InputBlink from "./InputBlink";
 import { Message } from "@/types/chat";
@@ -258,10 +258,9 @@ export default function Translate({
               </div>
             </div>
             <div>
-              <Highlight
-                highlightClassName="font-bold"
-                context={collectInfo.context}
-                wordString={JSON.stringify([searchText])}
+              <ContextList
+                collectInfo={collectInfo}
+                searchText={searchText}
               />
             </div>
           </div>
@@ -0,0 +1,315 @@
+/**
+ * 组件：多引擎对比翻译
+ * - 对比模式下同时请求全部已启用的句子引擎，结果分别流式显示在上下排列或标签页形式的面板中
+ * - 每个面板可单独复制、刷新，并可选为收藏时保存的译文
+ * - 单个引擎出错只显示在对应面板中，不影响其他引擎
+ */
+import { useCallback, useEffect, useState } from "react";
+import { Check, Copy, Heart, PanelTop, Rows3, RotateCcw } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { useAtom } from "jotai";
+import InputBlink from "./InputBlink";
+import { toastManager } from "./Toast";
+import translate from "@/utils/translate";
+import type { EngineItem, Setting } from "@/types";
+import { settingAtom } from "@/store";
+
+/** 对比结果的排列方式 */
+type CompareLayout = NonNullable<Setting["compareLayout"]>;
+
+/**
+ * 错误信息转为文本（对话引擎可能返回错误对象）
+ * @param error - 错误
+ * @returns 错误文本
+ */
+const getErrorText = (error: unknown) =>
+  typeof error === "string"
+    ? error
+    : (error as { message?: string })?.message ?? "request failed";
+
+// ===================== 单个引擎面板 =====================
+
+/**
+ * 单个引擎的翻译结果面板
+ * @param searchText - 待翻译的文本
+ * @param engine - 引擎
+ * @param selectedTranslation - 收藏时保存的译文
+ * @param onUse - 选为收藏时保存的译文
+ * @param onStateChange - 加载/生成状态变化（用于标签页显示进度）
+ */
+function ComparePane({
+  searchText,
+  engine,
+  selectedTranslation,
+  onUse,
+  onStateChange,
+}: {
+  searchText: string;
+  engine: EngineItem;
+  selectedTranslation?: string;
+  onUse: (text: string) => void;
+  onStateChange: (engine: string, busy: boolean) => void;
+}) {
+  const { t } = useTranslation();
+
+  /** 加载中（尚未返回内容） */
+  const [loading, setLoading] = useState(false);
+
+  /** 生成中（流式返回） */
+  const [generating, setGenerating] = useState(false);
+
+  /** 翻译结果 */
+  const [result, setResult] = useState("");
+
+  /** 错误信息 */
+  const [error, setError] = useState("");
+
+  /** 刷新版本号 */
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    onStateChange(engine.value, loading || generating);
+  }, [engine.value, loading, generating, onStateChange]);
+
+  /**
+   * 翻译请求Effect
+   * 搜索文本变化或刷新时重新请求
+   */
+  useEffect(() => {
+    let ignore = false;
+    setError("");
+    setResult("");
+    translate({
+      originText: searchText,
+      engine: engine.value,
+      beforeRequest() {
+        if (ignore) {
+          return;
+        }
+        setLoading(true);
+      },
+      onError(msg) {
+        if (ignore) {
+          return;
+        }
+        setLoading(false);
+        setGenerating(false);
+        setError(getErrorText(msg));
+      },
+      onGenerating(text) {
+        if (ignore) {
+          return;
+        }
+        setLoading(false);
+        setGenerating(true);
+        setResult(text);
+      },
+      onSuccess(text) {
+        if (ignore) {
+          return;
+        }
+        setLoading(false);
+        setGenerating(false);
+        setResult(text);
+      },
+    });
+    return () => {
+      ignore = true;
+    };
+  }, [searchText, engine.value, version]);
+
+  /**
+   * 复制翻译结果
+   */
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(result);
+      toastManager.add({ type: "success", msg: t("Copied") });
+    } catch (err) {
+      toastManager.add({ type: "error", msg: t("Copy failed") });
+    }
+  };
+
+  const done = !loading && !generating && !!result;
+  const selected = done && selectedTranslation === result;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center text-xs text-gray-400">
+        <span className="font-semibold">{engine.name}</span>
+        <span className="ml-auto flex items-center gap-1">
+          <span
+            onClick={() => done && copy()}
+            data-tip={t("Copy")}
+            className={`p-[2px] rounded tooltip tooltip-top ${
+              done ? "cursor-pointer" : "opacity-40"
+            }`}
+          >
+            <Copy className="w-[14px] h-[14px]" />
+          </span>
+          <span
+            onClick={() => setVersion((pre) => pre + 1)}
+            data-tip={t("Refresh")}
+            className="p-[2px] rounded tooltip tooltip-top cursor-pointer"
+          >
+            <RotateCcw className="w-[14px] h-[14px]" />
+          </span>
+          <span
+            onClick={() => done && onUse(result)}
+            data-tip={t("Use when collecting")}
+            className={`p-[2px] rounded tooltip tooltip-top ${
+              done ? "cursor-pointer" : "opacity-40"
+            } ${selected ? "text-success" : ""}`}
+          >
+            <Check className="w-[14px] h-[14px]" />
+          </span>
+        </span>
+      </div>
+      {loading ? (
+        <div className="flex flex-col gap-2 w-full">
+          <div className="skeleton h-4 w-full"></div>
+          <div className="skeleton h-4 w-2/3"></div>
+        </div>
+      ) : error ? (
+        <div className="text-[13px] text-red-600">{error}</div>
+      ) : (
+        <div className="text-[15px]">
+          <span>{result}</span>
+          {generating && <InputBlink />}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ===================== 对比卡片 =====================
+
+/**
+ * 多引擎对比翻译组件
+ * @param searchText - 待翻译的文本
+ * @param engines - 参与对比的引擎（已启用的句子引擎）
+ * @param collected - 是否已收藏
+ * @param selectedTranslation - 收藏时保存的译文
+ * @param onHeartClick - 收藏/取消收藏回调
+ * @param onUseTranslation - 选择收藏时保存的译文
+ */
+export default function TranslateCompare({
+  searchText,
+  engines,
+  collected,
+  selectedTranslation,
+  onHeartClick,
+  onUseTranslation,
+}: {
+  searchText: string;
+  engines: EngineItem[];
+  collected: boolean;
+  selectedTranslation?: string;
+  onHeartClick: () => void;
+  onUseTranslation: (text: string) => void;
+}) {
+  const { t } = useTranslation();
+  const [setting, setSetting] = useAtom(settingAtom);
+  const layout: CompareLayout = setting.compareLayout ?? "stacked";
+
+  /** 选中的标签页（标签页排列时） */
+  const [selectedEngine, setActiveEngine] = useState(engines[0]?.value);
+
+  /** 当前标签页：选中的引擎已不在对比列表中时回退到第一个引擎 */
+  const activeEngine = engines.some((item) => item.value === selectedEngine)
+    ? selectedEngine
+    : engines[0]?.value;
+
+  /** 仍在请求中的引擎 */
+  const [busyEngines, setBusyEngines] = useState<string[]>([]);
+
+  /**
+   * 记录引擎的请求状态
+   * @param engine - 引擎值
+   * @param busy - 是否请求中
+   */
+  const handleStateChange = useCallback((engine: string, busy: boolean) => {
+    setBusyEngines((pre) => {
+      if (busy === pre.includes(engine)) {
+        return pre;
+      }
+      return busy ? [...pre, engine] : pre.filter((item) => item !== engine);
+    });
+  }, []);
+
+  return (
+    <div className="relative space-y-2 px-2 pb-3 pt-3">
+      {/* 收藏与排列方式 */}
+      <div className="flex items-center gap-2 text-xs text-gray-400">
+        <span
+          onClick={onHeartClick}
+          data-tip={collected ? t("Remove from collection") : t("Add to collection")}
+          className="p-[1px] rounded tooltip tooltip-bottom w-[16px] h-[16px] cursor-pointer"
+        >
+          <Heart
+            className={`w-full h-full stroke-base-content ${
+              collected ? "fill-base-content" : ""
+            }`}
+          />
+        </span>
+        <span
+          onClick={() =>
+            setSetting({ compareLayout: layout === "stacked" ? "tabs" : "stacked" })
+          }
+          data-tip={layout === "stacked" ? t("Show as tabs") : t("Show stacked")}
+          className="p-[1px] rounded tooltip tooltip-bottom cursor-pointer"
+        >
+          {layout === "stacked" ? (
+            <PanelTop className="w-[16px] h-[16px]" />
+          ) : (
+            <Rows3 className="w-[16px] h-[16px]" />
+          )}
+        </span>
+        {selectedTranslation ? (
+          <span className="truncate">
+            {t("Translation to save")}: {selectedTranslation}
+          </span>
+        ) : null}
+      </div>
+
+      {/* 标签页 */}
+      {layout === "tabs" && (
+        <div role="tablist" className="tabs tabs-bordered tabs-xs">
+          {engines.map((item) => (
+            <a
+              role="tab"
+              key={item.value}
+              onClick={() => setActiveEngine(item.value)}
+              className={`tab ${item.value === activeEngine ? "tab-active" : ""}`}
+            >
+              {item.name}
+              {busyEngines.includes(item.value) && (
+                <span className="ml-1 loading loading-spinner loading-xs"></span>
+              )}
+            </a>
+          ))}
+        </div>
+      )}
+
+      {/* 各引擎面板：标签页排列时隐藏非当前面板，所有引擎仍同时请求 */}
+      <div className={layout === "stacked" ? "space-y-3 divide-y divide-base-300" : ""}>
+        {engines.map((item) => (
+          <div
+            key={item.value}
+            className={`${layout === "stacked" ? "pt-2 first:pt-0" : ""} ${
+              layout === "tabs" && item.value !== activeEngine ? "hidden" : ""
+            }`}
+          >
+            <ComparePane
+              searchText={searchText}
+              engine={item}
+              selectedTranslation={selectedTranslation}
+              onUse={onUseTranslation}
+              onStateChange={handleStateChange}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
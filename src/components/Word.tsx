@@ -8,9 +8,10 @@ import {
   Inbox,
   Carrot,
 } from "lucide-react";
-import { useRef } from "react";
+import { useEffect, useRef } from "react";
 import { CommunityItemType, Sww } from "@/types/words";
 import Highlight from "./Highlight";
+import ContextList from "./ContextList";
 import useYoudao from "./useYoudao";
 import { useTranslation } from "react-i18next";
 import RenderWordChat from "./WordChat";
@@ -25,12 +26,23 @@ import useOldYoudao from "./useOldYoudao";
 import { useAtom } from "jotai";
 import { settingAtom } from "@/store";
 import RenderRemark from "./RenderRemark";
-function RenderYoudaoWord({ searchText }: { searchText: string }) {
+function RenderYoudaoWord({
+  searchText,
+  onExamTagsLoad,
+}: {
+  searchText: string;
+  onExamTagsLoad?: (tags: string[]) => void;
+}) {
  const {t} = useTranslation();
   const [setting] = useAtom(settingAtom);
   const sourceLang =
     setting.sourceLanguage?.language ?? defaultSetting.sourceLanguage.language;
   const { loading, wordData } = useYoudao(searchText, sourceLang);
+  useEffect(() => {
+    if (wordData?.examTags?.length) {
+      onExamTagsLoad?.(wordData.examTags);
+    }
+  }, [wordData, onExamTagsLoad]);
 
   const wordAutoPlay = setting.autoPronounce ?? defaultSetting.autoPronounce;
 
@@ -108,12 +120,23 @@ function RenderYoudaoWord({ searchText }: { searchText: string }) {
     </>
   );
 }
-function RenderCollinsWord({ searchText }: { searchText: string }) {
+function RenderCollinsWord({
+  searchText,
+  onExamTagsLoad,
+}: {
+  searchText: string;
+  onExamTagsLoad?: (tags: string[]) => void;
+}) {
   const [setting] = useAtom(settingAtom);
 
   const sourceLang =
     setting.sourceLanguage?.language ?? defaultSetting.sourceLanguage.language;
   const { loading, wordData } = useYoudao(searchText, sourceLang);
+  useEffect(() => {
+    if (wordData?.examTags?.length) {
+      onExamTagsLoad?.(wordData.examTags);
+    }
+  }, [wordData, onExamTagsLoad]);
   const { loading: collinsLoading, wordData: collins } = useOldYoudao(
     searchText,
     sourceLang
@@ -225,6 +248,7 @@ export default function RenderWord({
   onWeightChange,
   currentEngine,
   onRefresh,
+  onExamTagsLoad,
 }: {
   searchText: string;
   collectInfo: Sww | undefined;
@@ -235,6 +259,7 @@ export default function RenderWord({
   onWeightChange: (num: number) => void;
   currentEngine: EngineValue;
   onRefresh: () => void;
+  onExamTagsLoad?: (tags: string[]) => void;
 }) {
   const { t } = useTranslation();
   // const { setConversationEngine, setConversationShow, setMessageList } =
@@ -356,11 +381,15 @@ export default function RenderWord({
           {currentEngine === "collins" && (
             <RenderCollinsWord
               searchText={searchText}
+              onExamTagsLoad={onExamTagsLoad}
             />
           )}
           {currentEngine === "youdao" && (
             <>
-              <RenderYoudaoWord searchText={searchText} />
+              <RenderYoudaoWord
+                searchText={searchText}
+                onExamTagsLoad={onExamTagsLoad}
+              />
             </>
           )}
           
@@ -379,10 +408,9 @@ export default function RenderWord({
                 </div>
               </div>
               <div>
-                <Highlight
-                  highlightClassName="font-bold"
-                  context={collectInfo.context}
-                  wordString={JSON.stringify([searchText])}
+                <ContextList
+                  collectInfo={collectInfo}
+                  searchText={searchText}
                 />
               </div>
             </div>
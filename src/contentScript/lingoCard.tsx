@@ -12,7 +12,11 @@ import {
 import SearchResult from "@/components/SearchResult";
 import { ToastContainer } from "@/components/Toast";
 import { getSentenceFromSelection } from "@/utils/getSelection";
-import { currentSelectionInfo } from "@/utils";
+import {
+  currentSelectionInfo,
+  getIframeWindow,
+  setIframeWindow,
+} from "@/utils";
 import { settingAtom } from "../store";
 import { useTranslation } from "react-i18next";
 import CardDragableWrapper from "@/components/CardDragableWrapper";
@@ -22,11 +26,12 @@ import { emitter } from "@/utils/mitt";
 // import { useConversationContext } from "@/context/conversation";
 // import Conversation from "./Conversation";
 // import { ConversationProvider } from "@/context/conversation";
-import { ExtensionMessage } from "@/types";
+import { ExtensionMessage, PostMessage } from "@/types";
 import onCaptureScreenResult from "@/utils/onCaptureScreenResult";
 import { useAtom } from "jotai";
 import useTreeWalker from "@/hooks/useTreeWalker";
-import useContentScriptMessage from "@/hooks/useContentScriptMessage";
+import useListenPostMessage from "@/hooks/useListenPostMessage";
+import Practice from "@/components/Practice";
 import hotkeys from "hotkeys-js";
 // export default function ConversationProviderWrapper() {
 //   return (
@@ -36,7 +41,6 @@ import hotkeys from "hotkeys-js";
 //   );
 // }
 export default function ContentScriptApp() {
-  useContentScriptMessage();
   const mouseoverCollectTimer = useRef<number | null>(null);
   const hideCardTimer = useRef<number | null>(null);
   const [setting] = useAtom(settingAtom);
@@ -55,6 +59,8 @@ export default function ContentScriptApp() {
   });
   const [cardPosition, setCardPosition] = useState({ x: 0, y: 0 });
   const [cardShow, setCardShow] = useState(false);
+  const [cardMode, setCardMode] = useState<"practice" | "normal">("normal");
+  const practiceRef = useRef<React.ComponentRef<typeof Practice>>(null);
   const rangeRef = useRef<Range | undefined>(undefined);
   const [searchText, setSearchText] = useState("");
   const showCardAndPosition = useCallback(
@@ -62,16 +68,24 @@ export default function ContentScriptApp() {
       text,
       position,
       domRect,
+      mode,
     }: {
       text: string;
       domRect?: DOMRect;
       position?: { x: number; y: number };
+      mode?: "practice" | "normal";
     }) => {
       setCardShow(true);
+      setCardMode(mode ?? "normal");
       setSearchText(text);
       setTriggerIconShow(false);
       let x = -300;
       let y = -300;
+      if (mode === "practice") {
+        // 练习卡片没有锚点元素时，显示在视口上方居中
+        x = window.scrollX + Math.max(0, (window.innerWidth - defaultCardWidth) / 2);
+        y = window.scrollY + 80;
+      }
       if (domRect) {
         const position = preventBeyondWindow({
           boxWidth: isWord({
@@ -214,6 +228,39 @@ export default function ContentScriptApp() {
   const hideCard = useCallback(() => {
     setCardShow(false);
   }, []);
+  /**
+   * 处理扩展 iframe 发送的消息
+   * - iframe 加载完成时记录其窗口，之后只处理来自该窗口的消息
+   * @param data - 消息
+   * @param source - 发送消息的窗口
+   */
+  const handlePostMessage = useCallback(
+    (data: PostMessage, source?: MessageEventSource | null) => {
+      if (data?.name === "iframeOnload") {
+        source && setIframeWindow(source);
+        return;
+      }
+      if (!source || source !== getIframeWindow()) {
+        return;
+      }
+      if (data?.name === "showCard") {
+        const { context, ...rest } = data.payload;
+        if (rest.mode === "normal" && context) {
+          currentSelectionInfo.word = rest.text;
+          currentSelectionInfo.context = context;
+        }
+        showCardAndPosition(rest);
+      }
+      if (data?.name === "hidePracticeCard" && cardMode === "practice") {
+        setCardShow(false);
+      }
+      if (data?.name === "practiceWordNext") {
+        practiceRef.current?.next();
+      }
+    },
+    [showCardAndPosition, cardMode]
+  );
+  useListenPostMessage(handlePostMessage);
 
   useEffect(() => {
     if (setting.interfaceLanguage !== i18n.language) {
@@ -234,6 +281,12 @@ export default function ContentScriptApp() {
           domRect: rangeRef.current!.getBoundingClientRect(),
         });
       }
+      if (message.type === "startPractice") {
+        showCardAndPosition({
+          text: message.payload ?? "",
+          mode: "practice",
+        });
+      }
       if (message.type === "onScreenDataurl") {
         onCaptureScreenResult(message.payload, (result, domRect) =>
           showCardAndPosition({
@@ -297,7 +350,11 @@ export default function ContentScriptApp() {
             onClose={hideCard}
             onmouseenter={onmouseenterCard}
           >
-            <SearchResult searchText={searchText} />
+            {cardMode === "practice" ? (
+              <Practice ref={practiceRef} text={searchText} />
+            ) : (
+              <SearchResult searchText={searchText} />
+            )}
           </CardDragableWrapper>
         )}
       </ErrorBoundary>
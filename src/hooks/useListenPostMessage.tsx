@@ -1,12 +1,21 @@
 /**
  * Hook：监听 window.postMessage
  * - 将消息统一回调到业务层，自动绑定/解绑事件。
+ * - 只接收扩展自身页面（嵌入网页的扩展 iframe）发送的消息，网页脚本发送的消息直接忽略。
  */
 import { useEffect } from "react";
+import browser from "webextension-polyfill";
 import type { PostMessage } from "@/types";
+
+/** 扩展页面的 origin（chrome-extension://<id> 或 moz-extension://<uuid>） */
+const extensionOrigin = new URL(browser.runtime.getURL("/")).origin;
+
 export default function useListenPostMessage(callback:(data:PostMessage,source?:MessageEventSource | null)=>void) {
   useEffect(()=>{
     const handleMessage = (e:MessageEvent<PostMessage>) => {
+      if (e.origin !== extensionOrigin) {
+        return;
+      }
       const data = e.data;            
       callback(data, e.source)
     };
@@ -1,13 +1,16 @@
 /**
  * Hook：基于 TreeWalker 的页面生词高亮
- * - 将生词表中未掌握/遗忘的单词在页面中批量标记；
+ * - 将生词表中未掌握/遗忘的单词，以及已掌握但到期待复习的单词在页面中批量标记；
+ * - 只标记与页面语言（页面未声明时取设置中的源语言）匹配的分组中的单词；
+ * - 生词表变化（包括其他标签页的收藏/掌握）时只标记或取消标记变化的单词，不重新扫描整个页面；
  * - 监听 DOM 变化动态增量标记；
  * - 可通过 mouseoverCallback/mouseoutCallback 定制悬停行为。
  */
-import { swwListAtom } from "@/store";
+import { deckListAtom, dueSwwListAtom, settingAtom, swwListAtom } from "@/store";
+import { isInLanguage } from "@/utils/deck";
 import { useAtom } from "jotai";
-import { useEffect, useMemo } from "react";
-import { treeWalkerMark,ignoreTags } from "@/utils/treeWalkerMark";
+import { useEffect, useMemo, useRef } from "react";
+import { treeWalkerMark,ignoreTags,unmarkWords } from "@/utils/treeWalkerMark";
 const isExtentionPage = location.href.startsWith("chrome-extension");
 const checkIfIgnore = () => {
   return location.href.includes('words.mywords.cc')
@@ -22,7 +25,61 @@ export default function useTreeWalker(
   }
 ) {
   const [swwList] = useAtom(swwListAtom);
-  const walkerWords = useMemo(()=>swwList.filter(item => (item.masteryLevel !==1 && item.masteryLevel !==2)).map(item => item.word), [swwList])
+  const [dueSwwList] = useAtom(dueSwwListAtom);
+  const [deckList] = useAtom(deckListAtom);
+  const [setting] = useAtom(settingAtom);
+  const pageLanguage = document.documentElement.lang || setting.sourceLanguage?.language;
+  const walkerWords = useMemo(()=>{
+    const dueIds = new Set(dueSwwList.map(item => item.id))
+    return swwList
+      .filter(item => isInLanguage(item, deckList, pageLanguage))
+      .filter(item => (item.masteryLevel !==1 && item.masteryLevel !==2) || dueIds.has(item.id)).map(item => item.word)
+  }, [swwList, dueSwwList, deckList, pageLanguage])
+
+  /** 当前需要标记的单词，供 DOM 变化时的增量标记读取 */
+  const wordsRef = useRef<string[]>([]);
+  /** 已在页面中标记过的单词，为 null 表示尚未进行首次标记 */
+  const markedRef = useRef<string[] | null>(null);
+  const callbackRef = useRef({ mouseoverCallback, mouseoutCallback });
+  callbackRef.current = { mouseoverCallback, mouseoutCallback };
+  /** 稳定的悬停回调，标记插入后回调变化也能调用到最新的函数 */
+  const callbacks = useMemo(() => ({
+    mouseoverCallback: (params: { ele: HTMLElement }) => callbackRef.current.mouseoverCallback(params),
+    mouseoutCallback: () => callbackRef.current.mouseoutCallback?.(),
+  }), [])
+
+  // 单词变化时只处理差异：移除不再需要的单词的标记，为新增的单词补充标记
+  useEffect(()=>{
+    wordsRef.current = walkerWords;
+    if (isExtentionPage || checkIfIgnore()) {
+      return;
+    }
+    const marked = markedRef.current;
+    markedRef.current = walkerWords;
+    if (!marked) {
+      treeWalkerMark({
+        target: document.body,
+        words: walkerWords,
+        ...callbacks
+      })
+      return;
+    }
+    const prev = new Set(marked);
+    const next = new Set(walkerWords);
+    const removed = marked.filter(item => !next.has(item));
+    const added = walkerWords.filter(item => !prev.has(item));
+    if (removed.length) {
+      unmarkWords(removed, walkerWords);
+    }
+    if (added.length) {
+      treeWalkerMark({
+        target: document.body,
+        words: added,
+        incremental: true,
+        ...callbacks
+      })
+    }
+  }, [walkerWords, callbacks])
 
   useEffect(()=>{
     
@@ -30,12 +87,6 @@ export default function useTreeWalker(
       return;
     }
     
-    treeWalkerMark({
-      target: document.body,
-      words: walkerWords,
-      mouseoverCallback,
-      mouseoutCallback
-    })
     const observer = new MutationObserver(function (mutationsList) {
       for (const mutation of mutationsList) {
         if (mutation.type === "childList" && mutation.addedNodes.length > 0) {
@@ -51,9 +102,8 @@ export default function useTreeWalker(
               setTimeout(() => {
                 treeWalkerMark({
                   target: node,
-                  words: walkerWords,
-                  mouseoverCallback,
-                  mouseoutCallback
+                  words: wordsRef.current,
+                  ...callbacks
                 })
               }, 0);
               
@@ -66,9 +116,8 @@ export default function useTreeWalker(
             ) {
               treeWalkerMark({
                 target: node.parentElement,
-                words: walkerWords,
-                mouseoverCallback,
-                mouseoutCallback
+                words: wordsRef.current,
+                ...callbacks
               })
             }
           }
@@ -80,5 +129,5 @@ export default function useTreeWalker(
       //unMarkAll();
       observer.disconnect();
     };
-  }, [walkerWords, mouseoutCallback, mouseoverCallback])
+  }, [callbacks])
 }
@@ -87,12 +87,179 @@ const resources = {
       "Oulu Dic":"Oulu Dic",
       "Oulu Token": "Oulu Token",
       "Oulu Learning Language":"Oulu Learning Language",
-      "Synchronization Status":"Synchronization Status",
       "EnginesTip":"Drag and drop to sort, the first one is the default service",
       "Update Log":"Update Log",
       "Question":"Common Question",
       "Highlight Color": "Highlight Color",
-      "Highlight Style": "Highlight Style"
+      "Highlight Style": "Highlight Style",
+      "Words due for review today": "Words due for review today",
+      "Review": "Review",
+      "Show Answer": "Show Answer",
+      "Again": "Again",
+      "Hard": "Hard",
+      "Good": "Good",
+      "Easy": "Easy",
+      "No words due for review": "No words due for review",
+      "Review on this page": "Review on this page",
+      "The current page does not support practice": "The current page does not support practice",
+      "Cloze Quiz": "Cloze Quiz",
+      "Multiple Choice": "Multiple Choice",
+      "Spelling": "Spelling",
+      "No words with context to quiz": "No collected words with context to quiz",
+      "Type the missing word": "Type the missing word",
+      "Correct": "Correct",
+      "Incorrect": "Incorrect",
+      "Next": "Next",
+      "All": "All",
+      "Unmastered": "Unmastered",
+      "All Levels": "All Levels",
+      "Level ≥ 3": "Level ≥ 3",
+      "Level ≥ 4": "Level ≥ 4",
+      "Level = 5": "Level = 5",
+      "Sort By Time": "Sort By Time",
+      "Sort By Level": "Sort By Level",
+      "Online Notebook": "Online Notebook",
+      "Search words, context or notes": "Search words, context or notes",
+      "Select All": "Select All",
+      "Selected Count": "{{count}} selected",
+      "Mark As Mastered": "Mark As Mastered",
+      "Mark As Unmastered": "Mark As Unmastered",
+      "Delete": "Delete",
+      "Confirm Delete Words": "Are you sure you want to delete the selected words?",
+      "No words found": "No words found",
+      "Lookup History": "Lookup History",
+      "Clear": "Clear",
+      "In vocabulary": "In vocabulary",
+      "Add to vocabulary": "Add to vocabulary",
+      "No lookup history": "No lookup history",
+      "Deck": "Deck",
+      "No Deck": "No Deck",
+      "All Decks": "All Decks",
+      "Manage Decks": "Manage Decks",
+      "New deck name": "New deck name",
+      "Move To Deck": "Move To Deck",
+      "Collapse": "Collapse",
+      "Show all occurrences": "Show all {{count}} occurrences",
+      "Statistics": "Statistics",
+      "Total Words": "Total Words",
+      "Lookups": "Lookups",
+      "Review Streak": "Review Streak",
+      "Days": "{{count}} days",
+      "Words Added Per Day": "Words Added Per Day (last 30 days)",
+      "Words Mastered Over Time": "Words Mastered Over Time (last 30 days)",
+      "Activity": "Activity",
+      "Exam Tags": "Exam Tags",
+      "Untagged": "Untagged",
+      "Import & Export": "Import & Export",
+      "Export": "Export",
+      "Import": "Import",
+      "Include Definitions": "Include definitions (Youdao)",
+      "Choose File": "Choose File",
+      "Invalid import file": "Invalid import file",
+      "Import Preview": "{{count}} words, {{duplicate}} duplicates",
+      "Skip Duplicates": "Skip duplicates",
+      "Import Count": "Import {{count}} words",
+      "Imported Count": "Imported {{count}} words",
+      "Duplicate": "Duplicate",
+      "New": "New",
+      "Word": "Word",
+      "Context": "Context",
+      "Definition": "Definition",
+      "Audio": "Audio",
+      "AnkiConnect Address": "AnkiConnect Address",
+      "Anki Deck": "Deck",
+      "Note Type": "Note Type",
+      "Field Mapping": "Field Mapping",
+      "Delete Anki notes when words are removed": "Delete Anki notes when words are removed",
+      "Cannot connect to AnkiConnect": "Cannot connect to AnkiConnect, please make sure Anki is running",
+      "Backup & Restore": "Backup & Restore",
+      "Backup": "Backup",
+      "Restore": "Restore",
+      "Include API keys": "Include API keys and login info",
+      "Invalid backup file": "Invalid backup file",
+      "Backup Date": "Backed up at {{date}}",
+      "API keys not included": "API keys not included",
+      "Current": "Current",
+      "Changed": "Changed",
+      "OpenAI Models": "OpenAI Models",
+      "Settings Changed": "{{count}} settings differ",
+      "Merge Tip": "Merge: keep current data, add items from the backup and keep the newer version of items in both",
+      "Replace Tip": "Replace: clear current data and use the backup",
+      "Merge": "Merge",
+      "Replace": "Replace",
+      "Word already exists": "The word has already been saved (possibly in another tab)",
+      "Word no longer exists": "The word has been changed or deleted elsewhere, reloaded the latest vocabulary",
+      "Deck no longer exists": "The deck has been deleted elsewhere, reloaded the latest decks",
+      "Note no longer exists": "The note has been deleted elsewhere, reloaded the latest notes",
+      "Failed to save": "Failed to save, please try again",
+      "Update": "Update",
+      "Synced": "Synced",
+      "Pending Sync": "{{count}} pending",
+      "Sync Failed": "{{count}} failed",
+      "Retry": "Retry",
+      "Discard": "Discard",
+      "Sync Targets": "Sync Targets",
+      "Not Configured": "Not configured",
+      "Connected": "Connected",
+      "Connection failed": "Connection failed",
+      "Check Connection": "Check",
+      "Pull": "Pull",
+      "WebDAV Address": "WebDAV URL",
+      "Username": "Username",
+      "Auto Sync": "Auto sync",
+      "Every Minutes": "Every {{count}} minutes",
+      "Off": "Off",
+      "Sync Now": "Sync now",
+      "Last Sync": "Last sync",
+      "Never": "Never",
+      "Sync completed": "Sync completed",
+      "Permission denied": "Permission denied",
+      "Sync with WebDAV": "Sync with WebDAV",
+      "Two-way Sync": "Two-way sync",
+      "Push local-only words": "Push words only in local vocabulary",
+      "Oulu Sync Result": "Imported {{imported}}, pushed {{pushed}}, {{both}} already in both",
+      "Sync failed": "Sync failed",
+      "Failed to load vocabulary notebooks": "Failed to load vocabulary notebooks",
+      "API Key Encryption": "API key encryption",
+      "API Key Encryption Tip": "API keys are stored only on this device and are not synced. Encrypt them with a passphrase; you will need to unlock them again after the browser restarts.",
+      "Passphrase": "Passphrase",
+      "Confirm Passphrase": "Confirm passphrase",
+      "Passphrases do not match": "Passphrases do not match",
+      "Encrypt": "Encrypt",
+      "Unlock": "Unlock",
+      "Lock": "Lock",
+      "Remove Encryption": "Remove encryption",
+      "Reset Keys": "Forgot passphrase",
+      "Reset Keys Confirm": "This clears all saved API keys on this device. Continue?",
+      "Secrets are locked": "API keys are locked, unlock them in Engine settings",
+      "Secrets are already encrypted": "API keys are already encrypted",
+      "Wrong passphrase": "Wrong passphrase",
+      "Sync storage quota exceeded": "Settings exceed the browser sync storage quota and were not saved",
+      "Settings Storage": "Settings storage",
+      "Synced Settings": "Synced settings",
+      "Local-only Settings": "Settings kept on this device (prompts, links, large items)",
+      "Sync storage almost full": "Sync storage is almost full. Large settings are kept on this device automatically.",
+      "OpenAI-compatible Profiles": "OpenAI-compatible profiles",
+      "OpenAI-compatible Profiles Tip": "Each profile appears as its own engine in the word and sentence engine lists",
+      "Profile": "Profile",
+      "Profile Name": "Profile name",
+      "Add Profile": "Add profile",
+      "Delete Profile Confirm": "Delete profile \"{{name}}\" and its API key?",
+      "Extra Parameters": "Extra request parameters (JSON)",
+      "Extra parameters must be a JSON object": "Extra parameters must be a JSON object",
+      "Compare engines": "Compare all enabled engines",
+      "Single engine": "Show one engine",
+      "Show as tabs": "Show as tabs",
+      "Show stacked": "Show stacked",
+      "Copy": "Copy",
+      "Copied": "Copied",
+      "Copy failed": "Copy failed",
+      "Use when collecting": "Save this translation when collecting",
+      "Translation to save": "Translation to save",
+      "Translation": "Translation",
+      "Synced Keys Tip": "API keys from an older version are still in synced settings and visible to every signed-in browser. Unlock the key vault and move them to this device.",
+      "Remove Synced Keys": "Remove from sync",
+      "Remove Synced Keys Confirm": "Move the old API keys to this device and remove them from synced settings? Browsers that have not opened this version yet will need their keys entered again."
     },
   },
   zh: {
@@ -168,7 +335,6 @@ const resources = {
       "Oulu Dic":"欧路词典",
       "Oulu Token":"授权信息",
       "Oulu Learning Language":"在欧路词典学习的语言",
-      "Synchronization Status":"同步开关",
       "EnginesTip":"可拖拽排序，第一个为默认服务",
       "Screenshot API":"屏幕截图API",
       "Update Log":"更新日志",
@@ -176,7 +342,175 @@ const resources = {
       "Clear All Settings": "恢复默认设置",
       "Highlight Color": "高亮颜色",
       "Highlight Style": "高亮样式",
-      "Auto Save Word When Searching": "查词后自动保存单词"
+      "Auto Save Word When Searching": "查词后自动保存单词",
+      "Words due for review today": "今日待复习单词",
+      "Review": "复习",
+      "Show Answer": "显示释义",
+      "Again": "忘记",
+      "Hard": "困难",
+      "Good": "良好",
+      "Easy": "简单",
+      "No words due for review": "暂无待复习的单词",
+      "Review on this page": "在当前页面复习",
+      "The current page does not support practice": "当前页面不支持练习",
+      "Cloze Quiz": "完形填空",
+      "Multiple Choice": "选择",
+      "Spelling": "拼写",
+      "No words with context to quiz": "没有带上下文的收藏单词可供测验",
+      "Type the missing word": "输入缺失的单词",
+      "Correct": "回答正确",
+      "Incorrect": "回答错误",
+      "Next": "下一个",
+      "All": "全部",
+      "Unmastered": "未掌握",
+      "All Levels": "全部重要程度",
+      "Level ≥ 3": "重要程度 ≥ 3",
+      "Level ≥ 4": "重要程度 ≥ 4",
+      "Level = 5": "重要程度 = 5",
+      "Sort By Time": "按时间排序",
+      "Sort By Level": "按重要程度排序",
+      "Online Notebook": "在线生词本",
+      "Search words, context or notes": "搜索单词、上下文或笔记",
+      "Select All": "全选",
+      "Selected Count": "已选 {{count}} 个",
+      "Mark As Mastered": "标记为已掌握",
+      "Mark As Unmastered": "标记为未掌握",
+      "Delete": "删除",
+      "Confirm Delete Words": "确定要删除选中的单词吗?",
+      "No words found": "没有找到单词",
+      "Lookup History": "查词历史",
+      "Clear": "清空",
+      "In vocabulary": "已在生词本中",
+      "Add to vocabulary": "加入生词本",
+      "No lookup history": "暂无查词历史",
+      "Deck": "分组",
+      "No Deck": "未分组",
+      "All Decks": "全部分组",
+      "Manage Decks": "管理分组",
+      "New deck name": "新分组名称",
+      "Move To Deck": "移动到分组",
+      "Collapse": "收起",
+      "Show all occurrences": "查看全部 {{count}} 处出现",
+      "Statistics": "学习统计",
+      "Total Words": "单词总数",
+      "Lookups": "查词次数",
+      "Review Streak": "连续复习",
+      "Days": "{{count}} 天",
+      "Words Added Per Day": "每日新增单词（近 30 天）",
+      "Words Mastered Over Time": "已掌握单词趋势（近 30 天）",
+      "Activity": "学习活跃度",
+      "Exam Tags": "考试标签",
+      "Untagged": "无标签",
+      "Import & Export": "导入导出",
+      "Export": "导出",
+      "Import": "导入",
+      "Include Definitions": "包含释义（有道）",
+      "Choose File": "选择文件",
+      "Invalid import file": "无法解析导入文件",
+      "Import Preview": "共 {{count}} 个单词，其中 {{duplicate}} 个重复",
+      "Skip Duplicates": "跳过重复单词",
+      "Import Count": "导入 {{count}} 个单词",
+      "Imported Count": "已导入 {{count}} 个单词",
+      "Duplicate": "重复",
+      "New": "新增",
+      "Word": "单词",
+      "Context": "上下文",
+      "Definition": "释义",
+      "Audio": "发音",
+      "AnkiConnect Address": "AnkiConnect 地址",
+      "Anki Deck": "牌组",
+      "Note Type": "笔记类型",
+      "Field Mapping": "字段对应",
+      "Delete Anki notes when words are removed": "删除生词时同时删除 Anki 笔记",
+      "Cannot connect to AnkiConnect": "无法连接 AnkiConnect，请确认 Anki 已启动",
+      "Backup & Restore": "备份与恢复",
+      "Backup": "备份",
+      "Restore": "恢复",
+      "Include API keys": "包含 API Key 与登录信息",
+      "Invalid backup file": "无法解析备份文件",
+      "Backup Date": "备份于 {{date}}",
+      "API keys not included": "不含 API Key",
+      "Current": "当前",
+      "Changed": "有变化",
+      "OpenAI Models": "OpenAI 模型",
+      "Settings Changed": "{{count}} 项设置不同",
+      "Merge Tip": "合并：保留当前数据，补充备份中的内容，两边都有的保留较新的版本",
+      "Replace Tip": "替换：清空当前数据，使用备份中的数据",
+      "Merge": "合并",
+      "Replace": "替换",
+      "Word already exists": "该单词已收藏（可能在其他标签页中）",
+      "Word no longer exists": "该单词已在其他地方修改或删除，已重新加载生词本",
+      "Deck no longer exists": "该分组已在其他地方删除，已重新加载分组",
+      "Note no longer exists": "该笔记已在其他地方删除，已重新加载笔记",
+      "Failed to save": "保存失败，请重试",
+      "Update": "更新",
+      "Synced": "已同步",
+      "Pending Sync": "{{count}} 个待同步",
+      "Sync Failed": "{{count}} 个同步失败",
+      "Retry": "重试",
+      "Discard": "丢弃",
+      "Sync Targets": "同步目标",
+      "Not Configured": "未配置",
+      "Connected": "连接正常",
+      "Connection failed": "连接失败",
+      "Check Connection": "检查",
+      "Pull": "拉取",
+      "WebDAV Address": "WebDAV 地址",
+      "Username": "用户名",
+      "Auto Sync": "自动同步",
+      "Every Minutes": "每 {{count}} 分钟",
+      "Off": "关闭",
+      "Sync Now": "立即同步",
+      "Last Sync": "上次同步",
+      "Never": "从未同步",
+      "Sync completed": "同步完成",
+      "Permission denied": "未获得访问权限",
+      "Sync with WebDAV": "与 WebDAV 同步",
+      "Two-way Sync": "双向同步",
+      "Push local-only words": "推送只在本地的单词",
+      "Oulu Sync Result": "导入 {{imported}} 个，推送 {{pushed}} 个，{{both}} 个两边都有",
+      "Sync failed": "同步失败",
+      "Failed to load vocabulary notebooks": "获取生词本失败",
+      "API Key Encryption": "API Key 加密",
+      "API Key Encryption Tip": "API Key 只保存在当前设备，不会同步。可以设置口令加密，浏览器重启后需重新解锁。",
+      "Passphrase": "口令",
+      "Confirm Passphrase": "确认口令",
+      "Passphrases do not match": "两次输入的口令不一致",
+      "Encrypt": "加密",
+      "Unlock": "解锁",
+      "Lock": "锁定",
+      "Remove Encryption": "取消加密",
+      "Reset Keys": "忘记口令",
+      "Reset Keys Confirm": "将清空当前设备上保存的全部 API Key，是否继续？",
+      "Secrets are locked": "API Key 已锁定，请在引擎设置中解锁",
+      "Secrets are already encrypted": "API Key 已加密",
+      "Wrong passphrase": "口令错误",
+      "Sync storage quota exceeded": "设置超出浏览器同步存储配额，未能保存",
+      "Settings Storage": "设置存储",
+      "Synced Settings": "同步的设置",
+      "Local-only Settings": "仅保存在本设备的设置（提示词、链接、较大的项）",
+      "Sync storage almost full": "同步存储即将用满，较大的设置会自动保存在本设备",
+      "OpenAI-compatible Profiles": "OpenAI 兼容接口",
+      "OpenAI-compatible Profiles Tip": "每个接口配置会作为单独的引擎出现在单词与句子引擎列表中",
+      "Profile": "接口",
+      "Profile Name": "接口名称",
+      "Add Profile": "添加接口",
+      "Delete Profile Confirm": "删除接口“{{name}}”及其 API Key？",
+      "Extra Parameters": "额外请求参数（JSON）",
+      "Extra parameters must be a JSON object": "额外请求参数必须是 JSON 对象",
+      "Compare engines": "对比全部已启用的引擎",
+      "Single engine": "只显示一个引擎",
+      "Show as tabs": "标签页显示",
+      "Show stacked": "上下排列显示",
+      "Copy": "复制",
+      "Copied": "已复制",
+      "Copy failed": "复制失败",
+      "Use when collecting": "收藏时保存这条译文",
+      "Translation to save": "收藏时保存的译文",
+      "Translation": "译文",
+      "Synced Keys Tip": "旧版本的 API Key 仍保存在同步的设置中，所有登录的浏览器都能读取。请解锁密钥库后移到本设备。",
+      "Remove Synced Keys": "从同步中删除",
+      "Remove Synced Keys Confirm": "把旧的 API Key 移到本设备并从同步的设置中删除？尚未打开新版本的浏览器需要重新填写密钥。"
     },
   },
 };
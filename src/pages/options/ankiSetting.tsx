@@ -0,0 +1,238 @@
+/**
+ * 组件：AnkiConnect 同步设置
+ * - 配置本地 AnkiConnect 地址，读取牌组、笔记类型及其字段列表并持久化到设置中
+ * - 配置单词/上下文/释义/发音与笔记字段的对应关系，以及是否同步删除（是否启用在同步目标中设置）
+ */
+import { useState } from "react";
+import { useAtom } from "jotai";
+import { useTranslation } from "react-i18next";
+import { RotateCcw } from "lucide-react";
+import { toastManager } from "@/components/Toast";
+import { settingAtom } from "@/store";
+import { defaultAnkiAddress, defaultAnkiFields, invokeAnki } from "@/api/anki";
+import type { AnkiField } from "@/types";
+
+/** 可映射的单词信息 */
+const ankiFields: { name: string; value: AnkiField }[] = [
+  { name: "Word", value: "word" },
+  { name: "Context", value: "context" },
+  { name: "Definition", value: "definition" },
+  { name: "Audio", value: "audio" },
+];
+
+/**
+ * AnkiConnect 同步设置组件
+ * @returns AnkiConnect 设置React组件
+ */
+export default function AnkiSetting() {
+  const { t } = useTranslation();
+
+  // ===================== 全局状态 =====================
+
+  const [setting, setSetting] = useAtom(settingAtom);
+  const ankiInfo = setting.ankiInfo;
+  const fields = ankiInfo?.fields ?? defaultAnkiFields;
+
+  /** 牌组/笔记类型加载状态 */
+  const [loading, setLoading] = useState(false);
+
+  // ===================== API调用函数 =====================
+
+  /**
+   * 读取指定笔记类型的字段列表
+   * @param modelName - 笔记类型名称
+   * @returns 字段列表
+   */
+  const getFieldList = (modelName?: string) => {
+    if (!modelName) {
+      return Promise.resolve([]);
+    }
+    return invokeAnki<string[]>(
+      "modelFieldNames",
+      { modelName },
+      ankiInfo?.address
+    );
+  };
+
+  /**
+   * 从 AnkiConnect 读取牌组、笔记类型与当前笔记类型的字段
+   */
+  const getAnkiLists = async () => {
+    if (loading) {
+      return;
+    }
+    setLoading(true);
+    try {
+      const [deckList, modelList, fieldList] = await Promise.all([
+        invokeAnki<string[]>("deckNames", {}, ankiInfo?.address),
+        invokeAnki<string[]>("modelNames", {}, ankiInfo?.address),
+        getFieldList(ankiInfo?.modelName),
+      ]);
+      setSetting({ ankiInfo: { ...ankiInfo, deckList, modelList, fieldList } });
+    } catch (error) {
+      toastManager.add({
+        type: "error",
+        msg: t("Cannot connect to AnkiConnect"),
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * 切换笔记类型：重新读取字段列表，并清除不再存在的字段映射
+   * @param modelName - 笔记类型名称
+   */
+  const changeModel = async (modelName: string) => {
+    try {
+      const fieldList = await getFieldList(modelName);
+      const nextFields = Object.fromEntries(
+        Object.entries(fields).filter(([, value]) =>
+          fieldList.includes(value ?? "")
+        )
+      );
+      setSetting({
+        ankiInfo: { ...ankiInfo, modelName, fieldList, fields: nextFields },
+      });
+    } catch (error) {
+      toastManager.add({
+        type: "error",
+        msg: t("Cannot connect to AnkiConnect"),
+      });
+    }
+  };
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div>
+      <div className="font-semibold text-[17px] mb-3">Anki</div>
+      <div className="border rounded-xl p-9">
+        {/* ===================== 地址配置 ===================== */}
+        <div>
+          <div className="text-[15px] my-2">
+            <span>{t("AnkiConnect Address")}</span>
+            <a
+              target="_blank"
+              className="ml-3 text-xs underline text-indigo-400"
+              href="https://foosoft.net/projects/anki-connect/"
+            >
+              AnkiConnect
+            </a>
+          </div>
+          <div className="flex">
+            <input
+              onChange={(e) => {
+                setSetting({
+                  ankiInfo: { ...ankiInfo, address: e.target.value },
+                });
+              }}
+              value={ankiInfo?.address ?? ""}
+              type="text"
+              placeholder={defaultAnkiAddress}
+              className="input input-bordered w-full flex-auto"
+            />
+            <button onClick={getAnkiLists} className="btn btn-square ml-2">
+              {loading ? (
+                <span className="w-5 loading loading-spinner"></span>
+              ) : (
+                <RotateCcw className="w-5" />
+              )}
+            </button>
+          </div>
+        </div>
+
+        {/* ===================== 牌组与笔记类型 ===================== */}
+        <div className="flex gap-3">
+          <div className="flex-1">
+            <div className="text-[15px] my-2">{t("Anki Deck")}</div>
+            <select
+              value={ankiInfo?.deckName ?? ""}
+              onChange={(e) => {
+                setSetting({
+                  ankiInfo: { ...ankiInfo, deckName: e.target.value },
+                });
+              }}
+              className="select select-bordered w-full"
+            >
+              <option disabled value={""}>
+                Please Select
+              </option>
+              {ankiInfo?.deckList?.map((item) => (
+                <option key={item} value={item}>
+                  {item}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1">
+            <div className="text-[15px] my-2">{t("Note Type")}</div>
+            <select
+              value={ankiInfo?.modelName ?? ""}
+              onChange={(e) => changeModel(e.target.value)}
+              className="select select-bordered w-full"
+            >
+              <option disabled value={""}>
+                Please Select
+              </option>
+              {ankiInfo?.modelList?.map((item) => (
+                <option key={item} value={item}>
+                  {item}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* ===================== 字段映射 ===================== */}
+        <div>
+          <div className="text-[15px] my-2">{t("Field Mapping")}</div>
+          <div className="grid grid-cols-2 gap-2">
+            {ankiFields.map((item) => (
+              <label key={item.value} className="flex items-center text-sm">
+                <span className="w-[90px] shrink-0">{t(item.name)}</span>
+                <select
+                  value={fields[item.value] ?? ""}
+                  onChange={(e) => {
+                    setSetting({
+                      ankiInfo: {
+                        ...ankiInfo,
+                        fields: {
+                          ...fields,
+                          [item.value]: e.target.value || undefined,
+                        },
+                      },
+                    });
+                  }}
+                  className="select select-bordered select-sm w-full"
+                >
+                  <option value={""}>-</option>
+                  {ankiInfo?.fieldList?.map((field) => (
+                    <option key={field} value={field}>
+                      {field}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* ===================== 同步开关 ===================== */}
+        <label className="flex items-center my-3 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            onChange={(e) => {
+              setSetting({
+                ankiInfo: { ...ankiInfo, syncRemove: e.target.checked },
+              });
+            }}
+            checked={ankiInfo?.syncRemove ?? false}
+            className="checkbox checkbox-sm mr-2"
+          />
+          {t("Delete Anki notes when words are removed")}
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+/**
+ * 组件：备份与恢复
+ * - 导出包含设置、生词本、笔记等全部数据的备份文件，可选是否包含 API Key 等密钥
+ * - 恢复前校验备份文件并展示与当前数据的差异摘要
+ * - 支持合并与替换两种恢复方式，恢复后重新加载扩展
+ */
+import { ChangeEvent, useState } from "react";
+import { useTranslation } from "react-i18next";
+import browser from "webextension-polyfill";
+import { Download, Upload } from "lucide-react";
+import { toastManager } from "@/components/Toast";
+import { downloadFile } from "@/utils/transfer";
+import {
+  BackupDiffItem,
+  BackupFile,
+  RestoreMode,
+  backupFilename,
+  createBackup,
+  getBackupDiff,
+  parseBackup,
+  restoreBackup,
+} from "@/utils/backup";
+
+/** 差异摘要中各数据项的显示名称 */
+const listNames: Record<string, string> = {
+  swwList: "Vocabulary Notebook",
+  remarkList: "Notes",
+  historyList: "Lookup History",
+  deckList: "Deck",
+  openAIModelList: "OpenAI Models",
+};
+
+/**
+ * 备份与恢复组件
+ * @returns 备份与恢复React组件
+ */
+export default function Backup() {
+  const { t } = useTranslation();
+
+  /** 备份时是否包含密钥 */
+  const [includeSecrets, setIncludeSecrets] = useState(false);
+
+  /** 待恢复的备份 */
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+
+  /** 差异摘要 */
+  const [diff, setDiff] = useState<{
+    lists: BackupDiffItem[];
+    settingChanged: number;
+  } | null>(null);
+
+  // ===================== 交互处理 =====================
+
+  const handleBackup = async () => {
+    downloadFile(
+      await createBackup(includeSecrets),
+      backupFilename(),
+      "application/json"
+    );
+  };
+
+  /**
+   * 读取备份文件并生成差异摘要
+   * @param e - 文件选择事件
+   */
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) {
+      return;
+    }
+    try {
+      const data = parseBackup(await file.text());
+      setDiff(await getBackupDiff(data));
+      setBackup(data);
+    } catch (error) {
+      toastManager.add({ type: "error", msg: t("Invalid backup file") });
+    }
+  };
+
+  /**
+   * 恢复备份并重新加载扩展
+   * @param mode - 恢复方式
+   */
+  const handleRestore = async (mode: RestoreMode) => {
+    if (!backup) {
+      return;
+    }
+    try {
+      await restoreBackup(backup, mode);
+      browser.runtime.reload();
+    } catch (error) {
+      toastManager.add({ type: "error", msg: t((error as Error).message) });
+    }
+  };
+
+  const cancel = () => {
+    setBackup(null);
+    setDiff(null);
+  };
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div>
+      <div className="font-semibold text-[17px] mb-3">
+        {t("Backup & Restore")}
+      </div>
+      <div className="flex items-center gap-2">
+        <button onClick={handleBackup} className="btn btn-sm">
+          <Download className="w-4 h-4" />
+          {t("Backup")}
+        </button>
+        <label className="btn btn-sm">
+          <Upload className="w-4 h-4" />
+          {t("Restore")}
+          <input
+            type="file"
+            accept=".json"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </label>
+        <label className="flex items-center text-sm cursor-pointer ml-2">
+          <input
+            type="checkbox"
+            checked={includeSecrets}
+            onChange={(e) => setIncludeSecrets(e.target.checked)}
+            className="checkbox checkbox-xs mr-1"
+          />
+          {t("Include API keys")}
+        </label>
+      </div>
+
+      {backup && diff ? (
+        <div className="border rounded-xl p-4 mt-3 w-[600px] text-sm">
+          <div className="mb-2 opacity-70">
+            {t("Backup Date", {
+              date: new Date(backup.createDate).toLocaleString(),
+            })}
+            {backup.includeSecrets ? null : ` · ${t("API keys not included")}`}
+          </div>
+          <table className="table table-xs">
+            <thead>
+              <tr>
+                <th></th>
+                <th>{t("Current")}</th>
+                <th>{t("Backup")}</th>
+                <th>{t("New")}</th>
+                <th>{t("Changed")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.lists.map((item) => (
+                <tr key={item.name}>
+                  <td>{t(listNames[item.name] ?? item.name)}</td>
+                  <td>{item.current}</td>
+                  <td>{item.backup}</td>
+                  <td>{item.added}</td>
+                  <td>{item.changed}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-2 opacity-70">
+            {t("Settings Changed", { count: diff.settingChanged })}
+          </div>
+          <div className="text-xs opacity-50 mt-2 space-y-1">
+            <div>{t("Merge Tip")}</div>
+            <div>{t("Replace Tip")}</div>
+          </div>
+          <div className="flex items-center gap-2 mt-3">
+            <button
+              onClick={() => handleRestore("merge")}
+              className="btn btn-xs btn-primary"
+            >
+              {t("Merge")}
+            </button>
+            <button
+              onClick={() => handleRestore("replace")}
+              className="btn btn-xs btn-error"
+            >
+              {t("Replace")}
+            </button>
+            <button onClick={cancel} className="btn btn-xs">
+              {t("Cancel")}
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 /**
- * 页面：数据管理（欧路词典同步）
- * - 配置欧路开放平台 Token、学习语言、生词本，并控制是否开启同步
+ * 页面：数据管理（同步目标、WebDAV、欧路词典/Anki 同步）
+ * - 启用同步目标、检查连接、拉取单词（见 syncProviders）
+ * - 配置 WebDAV 服务器与自动同步间隔（见 webdavSetting）
+ * - 配置欧路开放平台 Token、学习语言、生词本
+ * - 配置 AnkiConnect 牌组、笔记类型与字段映射
  * - 通过接口获取欧路生词本列表，持久化到设置中
- * - 实现用户词典与欧路词典的同步功能
+ * - 与欧路生词本双向同步：导入只在欧路中的单词，可选推送只在本地的单词（见 ouluSync）
  * - 支持多语言学习材料的管理
  */
 import { useTranslation } from "react-i18next";
@@ -11,6 +14,10 @@ import { RotateCcw } from "lucide-react";
 import { toastManager } from "@/components/Toast";
 import { useAtom } from "jotai";
 import { settingAtom } from "@/store";
+import AnkiSetting from "./ankiSetting";
+import SyncProviders from "./syncProviders";
+import WebDAVSetting from "./webdavSetting";
+import OuluSync from "./ouluSync";
 
 // ===================== 欧路词典支持语言配置 =====================
 
@@ -108,7 +115,12 @@ export default function DataManage() {
         },
       }
     )
-      .then((res) => res.json())  // 解析JSON响应
+      .then((res) => {
+        if (!res.ok) {
+          throw new Error(`${res.status}`);
+        }
+        return res.json();  // 解析JSON响应
+      })
       .then((res) => {
         // ===================== 存储生词本列表 =====================
         /**
@@ -117,6 +129,12 @@ export default function DataManage() {
          */
         setSetting({ ouluInfo: { ...ouluInfo, bookList: res.data } });
       })
+      .catch((error) => {
+        toastManager.add({
+          type: "error",
+          msg: `${t("Failed to load vocabulary notebooks")}: ${error.message}`,
+        });
+      })
       .finally(() => {
         // ===================== 清理加载状态 =====================
         /**
@@ -131,6 +149,12 @@ export default function DataManage() {
 
   return (
     <div className="w-[600px] space-y-5">
+      {/* ===================== 同步目标 ===================== */}
+      <SyncProviders />
+
+      {/* ===================== WebDAV 同步 ===================== */}
+      <WebDAVSetting />
+
       <div>
         {/* ===================== 页面标题 ===================== */}
         <div className="font-semibold text-[17px] mb-3">{t("Oulu Dic")}</div>
@@ -233,27 +257,21 @@ export default function DataManage() {
                 )}
               </button>
             </div>
-
-            {/* ===================== 同步状态开关 ===================== */}
-            <div className="">
-              <div className="my-2">{t("Synchronization Status")}</div>
-              <div className="flex items-center">
-                {/* 同步状态开关 */}
-                <input
-                  type="checkbox"
-                  onChange={(e) => {
-                    setSetting({
-                      ouluInfo: { ...ouluInfo, open: e.target.checked },
-                    });
-                  }}
-                  checked={ouluInfo?.open ?? false}
-                  className="checkbox"
-                />
-              </div>
-            </div>
           </div>
+
+          {/* ===================== 双向同步 ===================== */}
+          <OuluSync
+            disabled={
+              !ouluInfo?.token ||
+              !ouluInfo.targetBookLang ||
+              !ouluInfo.targetBookId
+            }
+          />
         </div>
       </div>
+
+      {/* ===================== Anki 同步 ===================== */}
+      <AnkiSetting />
     </div>
   );
 }
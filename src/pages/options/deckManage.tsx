@@ -0,0 +1,131 @@
+/**
+ * 组件：生词本分组管理
+ * - 新建分组（名称 + 学习语言），修改分组名称与语言，删除分组
+ * - 删除分组后其中的单词变为未分组，不会被删除
+ */
+import { useState } from "react";
+import { useAtom } from "jotai";
+import { useTranslation } from "react-i18next";
+import { Trash2 } from "lucide-react";
+import { v4 as uuidv4 } from "uuid";
+import {
+  addDeckAtom,
+  deckListAtom,
+  removeDeckAtom,
+  swwListAtom,
+  updateDeckAtom,
+} from "@/store";
+import { AllLanguage } from "@/utils/const";
+import { toastManager } from "@/components/Toast";
+
+/**
+ * 分组语言选择框
+ * @param props - 组件属性
+ * @param props.value - 当前语言代码
+ * @param props.onChange - 语言变化回调
+ * @returns 语言选择React组件
+ */
+function LanguageSelect({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (language: string) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="select select-bordered select-sm w-[180px]"
+    >
+      {AllLanguage.map((item) => (
+        <option key={item.language} value={item.language}>
+          {item.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * 分组管理组件
+ * @returns 分组管理React组件
+ */
+export default function DeckManage() {
+  const { t } = useTranslation();
+
+  // ===================== 全局状态 =====================
+
+  const [deckList] = useAtom(deckListAtom);
+  const [swwList] = useAtom(swwListAtom);
+  const [, addDeck] = useAtom(addDeckAtom);
+  const [, updateDeck] = useAtom(updateDeckAtom);
+  const [, removeDeck] = useAtom(removeDeckAtom);
+
+  // ===================== 新建分组表单 =====================
+
+  const [name, setName] = useState("");
+  const [language, setLanguage] = useState("");
+
+  /** 新建分组 */
+  const create = () => {
+    if (!name.trim()) {
+      toastManager.add({ type: "error", msg: t("This field is required") });
+      return;
+    }
+    addDeck({
+      id: uuidv4(),
+      name: name.trim(),
+      language,
+      lastEditDate: Date.now(),
+    });
+    setName("");
+    setLanguage("");
+  };
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div className="border rounded-xl p-4 space-y-2 text-sm">
+      {deckList.map((deck) => (
+        <div key={deck.id} className="flex items-center gap-2">
+          <input
+            value={deck.name}
+            onChange={(e) => updateDeck({ ...deck, name: e.target.value })}
+            type="text"
+            className="input input-bordered input-sm grow"
+          />
+          <LanguageSelect
+            value={deck.language}
+            onChange={(value) => updateDeck({ ...deck, language: value })}
+          />
+          <span className="w-[50px] text-right opacity-60">
+            {swwList.filter((item) => item.deckId === deck.id).length}
+          </span>
+          <Trash2
+            onClick={() => removeDeck(deck)}
+            className="w-4 h-4 cursor-pointer opacity-60 hover:opacity-100"
+          />
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              create();
+            }
+          }}
+          type="text"
+          placeholder={t("New deck name")}
+          className="input input-bordered input-sm grow"
+        />
+        <LanguageSelect value={language} onChange={setLanguage} />
+        <button onClick={create} className="btn btn-sm btn-primary">
+          {t("Add")}
+        </button>
+      </div>
+    </div>
+  );
+}
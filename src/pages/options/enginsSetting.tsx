@@ -1,347 +1,120 @@
 /**
  * 页面：引擎设置
- * - 统一配置各类引擎（OpenAI / Gemini / 文心 / DeepSeek / MoonShot / DeepLX / Custom）。
- * - OpenAI 提供当前 key 可用模型的拉取功能，并缓存到 `storage.local`。
+ * - 由引擎注册表（api/engines）生成已启用引擎的设置项，新增引擎无需修改本页面。
+ * - 设置项保存在设置（同步）中；密钥保存在本地密钥库（不同步），可用口令加密（见 secretSetting）。
+ * - OpenAI 兼容接口配置（见 openAIProfiles）可添加任意多个，每个配置作为单独的引擎。
+ * - 个别引擎的额外设置（如 OpenAI 的模型选择）通过 engineExtras 渲染在设置项之后。
  */
-import { useState, useCallback, useEffect } from "react";
-import { toastManager } from "@/components/Toast";
-import { RotateCcw } from "lucide-react";
+import type { ComponentType } from "react";
+import { useTranslation } from "react-i18next";
 import {
   allSentenceEngineList,
   allWordEngineList,
-  defaultSetting,
-} from "@/utils/const";
-import { getLocal, setLocal } from "@/storage/local";
-import { useTranslation } from "react-i18next";
+  engineProviders,
+  type EngineId,
+  type EngineSettingField,
+} from "@/api/engines";
 import WordEngine from "./wordEngine";
 import SentenceEngine from "./sentenceEngine";
+import SecretSetting from "./secretSetting";
+import OpenAIProfiles from "./openAIProfiles";
+import OpenAIModels from "./openAIModels";
 import { useAtom } from "jotai";
-import { settingAtom } from "@/store";
+import { secretStateAtom, secretsAtom, settingAtom } from "@/store";
+
+/** 引擎的额外设置 */
+const engineExtras: Partial<Record<EngineId, ComponentType>> = {
+  openai: OpenAIModels,
+};
+
 export default function EnginesSetting() {
   const { t } = useTranslation();
   const [setting, setSetting] = useAtom(settingAtom);
-  const [openAIModelList, setOpenAIModelList] = useState<
-    { label: string; value: string }[]
-  >([]);
+  const [secrets, setSecrets] = useAtom(secretsAtom);
+  const [secretState] = useAtom(secretStateAtom);
 
-  const [getOpenAIModelLoading, setOpenAIModelLoading] = useState(false);
-  const getOpenAIModelList = useCallback(() => {
-    if (!setting?.openAIKey) {
-      return;
-    }
-    if (getOpenAIModelLoading) {
-      return;
-    }
-    const controller = new AbortController();
-    const address = setting?.openAIAddress ?? defaultSetting.openAIAddress;
-    const url = address.replace("/v1/chat/completions", "/v1/models");
-    setOpenAIModelLoading(true);
-    fetch(`${url}`, {
-      signal: controller.signal,
-      headers: {
-        Authorization: `Bearer ${setting.openAIKey}`,
-      },
-    })
-      .then((res) => res.json())
-      .then((res) => {
-        if (res.error) {
-          toastManager.add({ type: "error", msg: res.error.message });
-          throw new Error(res.error);
-        }
-        const list = res.data
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          .sort((a: any, b: any) => a.created - b.created)
-          .reverse()
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          .map((item: any) => ({ label: item.id, value: item.id }));
-        setOpenAIModelList(list);
-        setLocal({ openAIModelList: list });
-      })
-      .catch((err) => {
-        console.log(err);
-      })
-      .finally(() => {
-        setOpenAIModelLoading(false);
-      });
-    return controller;
-  }, [setting?.openAIAddress, setting?.openAIKey, getOpenAIModelLoading]);
- 
-  useEffect(() => {
-    getLocal().then((res): void => {
-      if (res.openAIModelList) {
-        setOpenAIModelList(res.openAIModelList);
-      }
-    });
-  }, []);
   const availableEngines = [
     ...(setting?.wordEngineList ?? allWordEngineList),
     ...(setting?.sentenceEngineList ?? allSentenceEngineList),
   ].filter((item) => item.checked);
+  const providers = engineProviders.filter(
+    (provider) =>
+      provider.settings &&
+      availableEngines.some((engine) => engine.value === provider.id)
+  );
 
+  /**
+   * 渲染单个设置项
+   * @param field - 设置项
+   */
+  const renderField = (field: EngineSettingField) => (
+    <label key={field.key} className="block">
+      <div className="text-[15px] my-2">
+        <span>{field.label}</span>
+        {field.link && (
+          <a
+            target="_blank"
+            className="ml-3 text-xs underline text-indigo-400"
+            href={field.link}
+          >
+            {t("Method of acquisition")}
+          </a>
+        )}
+      </div>
+      {field.store === "secret" ? (
+        <input
+          onChange={(e) => {
+            setSecrets({
+              [field.key]: e.target.value
+            })
+          }}
+          disabled={secretState === "locked"}
+          value={secrets[field.key] ?? ""}
+          type="text"
+          placeholder=""
+          className="input input-bordered w-full"
+        />
+      ) : (
+        <input
+          onChange={(e) => {
+            setSetting({
+              [field.key]: e.target.value
+            })
+          }}
+          value={(setting?.[field.key] as string | undefined) ?? field.default ?? ""}
+          type="text"
+          placeholder=""
+          className="input input-bordered w-full"
+        />
+      )}
+    </label>
+  );
 
   return (
     <div className="space-y-9">
       <WordEngine />
       <SentenceEngine />
-      {availableEngines.findIndex((engine) => engine.value === "openai") !==
-        -1 && (
-        <div>
-          <div className="font-semibold text-[17px] mb-3">OpenAI</div>
-          <div className="border rounded-xl p-9">
-            <label>
-              <div className="text-[15px] my-2">apiKey</div>
-              <input
-                onChange={(e) => {
-                  setSetting({
-                    openAIKey: e.target.value
-                  })
-                }}
-                value={setting?.openAIKey ?? ""}
-                type="text"
-                placeholder=""
-                className="input input-bordered w-full"
-              />
-            </label>
-            <label>
-              <div className="text-[15px] my-2">apiAddress</div>
-              <input
-                onChange={(e) => {
-                  setSetting({
-                    openAIAddress: e.target.value
-                  })
-                }}
-                value={setting?.openAIAddress ?? defaultSetting.openAIAddress}
-                type="text"
-                placeholder=""
-                className="input input-bordered w-full"
-              />
-            </label>
-            <label>
-              <div className="text-[15px] my-2">
-                {t("Available models for the current key")}
-              </div>
-              <div
-                className={`flex transition-opacity ${
-                  getOpenAIModelLoading ? "opacity-50" : "opacity-100"
-                }`}
-              >
-                <select
-                  value={setting.openAIModel ?? defaultSetting.openAIModel}
-                  onChange={(e) => {
-                    setSetting({
-                      openAIModel: e.target.value
-                    })
-                  }}
-                  className="select select-bordered w-full flex-auto"
-                >
-                  {openAIModelList.map((item) => (
-                    <option key={item.value} value={item.value}>
-                      {item.label}
-                    </option>
-                  ))}
-                </select>
-                <button
-                  onClick={getOpenAIModelList}
-                  className="btn btn-square ml-2"
-                >
-                  {getOpenAIModelLoading ? (
-                    <span className="w-5 loading loading-spinner"></span>
-                  ) : (
-                    <RotateCcw className="w-5" />
-                  )}
-                </button>
-              </div>
-            </label>
-          </div>
-        </div>
-      )}
-      {availableEngines.findIndex((engine) => engine.value === "wenxin") !==
-        -1 && (
-        <div>
-          <div className="font-semibold text-[17px] mb-3">文心一言</div>
-          <div className="border rounded-xl p-9">
-            <div className="text-[15px] my-2">
-              <span>AccesToken</span>
-              <a
-                target="_blank"
-                className="ml-3 text-xs underline text-indigo-400"
-                href="https://cloud.baidu.com/doc/WENXINWORKSHOP/s/Ilkkrb0i5"
-              >
-                {t("Method of acquisition")}
-              </a>
+      <SecretSetting />
+      <OpenAIProfiles />
+      {providers.map((provider) => {
+        const Extra = engineExtras[provider.id];
+        return (
+          <div key={provider.id}>
+            <div className="flex items-center mb-3">
+              <div className="font-semibold text-[17px]">{provider.name}</div>
+              {provider.settingsTip && (
+                <div className="ml-3 text-[12px] text-gray-500">
+                  {provider.settingsTip}
+                </div>
+              )}
             </div>
-            <input
-              onChange={(e) => {
-                setSetting({
-                  wenxinToken: e.target.value
-                })
-              }}
-              value={setting?.wenxinToken ?? ""}
-              type="text"
-              placeholder=""
-              className="input input-bordered w-full"
-            />
-          </div>
-        </div>
-      )}
-      {availableEngines.findIndex((engine) => engine.value === "gemini") !==
-        -1 && (
-        <div>
-          <div className="font-semibold text-[17px] mb-3">Gemini</div>
-          <div className="border rounded-xl p-9">
-            <div className="text-[15px] my-2">
-              <span>apiKey</span>
-              <a
-                target="_blank"
-                className="ml-3 text-xs underline text-indigo-400"
-                href="https://ai.google.dev/tutorials/setup"
-              >
-                {t("Method of acquisition")}
-              </a>
+            <div className="border rounded-xl p-9">
+              {provider.settings?.map(renderField)}
+              {Extra && <Extra />}
             </div>
-            <input
-              onChange={(e) => {
-                setSetting({
-                  geminiKey: e.target.value
-                })
-              }}
-              value={setting?.geminiKey ?? ""}
-              type="text"
-              placeholder=""
-              className="input input-bordered w-full"
-            />
           </div>
-        </div>
-      )}
-      {availableEngines.findIndex((engine) => engine.value === "moonshot") !==
-        -1 && (
-        <div>
-          <div className="font-semibold text-[17px] mb-3">MoonShot</div>
-          <div className="border rounded-xl p-9">
-            <div className="text-[15px] my-2">
-              <span>apiKey</span>
-              <a
-                target="_blank"
-                className="ml-3 text-xs underline text-indigo-400"
-                href="https://platform.moonshot.cn/docs/api-reference"
-              >
-                {t("Method of acquisition")}
-              </a>
-            </div>
-            <input
-              onChange={(e) => {
-                setSetting({
-                  moonShotKey: e.target.value
-                })
-              }}
-              value={setting?.moonShotKey ?? ""}
-              type="text"
-              placeholder=""
-              className="input input-bordered w-full"
-            />
-          </div>
-        </div>
-      )}
-      {availableEngines.findIndex((engine) => engine.value === "deepseek") !==
-        -1 && (
-        <div>
-          <div className="font-semibold text-[17px] mb-3">DeepSeek</div>
-          <div className="border rounded-xl p-9">
-            <div className="text-[15px] my-2">
-              <span>apiKey</span>
-              <a
-                target="_blank"
-                className="ml-3 text-xs underline text-indigo-400"
-                href="https://platform.deepseek.com/docs"
-              >
-                {t("Method of acquisition")}
-              </a>
-            </div>
-            <input
-              onChange={(e) => {
-                setSetting({
-                  deepSeekApiKey: e.target.value
-                })
-              }}
-              value={setting?.deepSeekApiKey ?? ""}
-              type="text"
-              placeholder=""
-              className="input input-bordered w-full"
-            />
-          </div>
-        </div>
-      )}
-      {availableEngines.findIndex((engine) => engine.value === "deeplx") !==
-        -1 && (
-        <div>
-          <div className="font-semibold text-[17px] mb-3">DeepLX</div>
-          <div className="border rounded-xl p-9">
-          <div>
-              <div className="text-[15px] my-2">apiAddress</div>
-              <input
-                onChange={(e) => {
-                  setSetting({
-                    deepLXAddress: e.target.value
-                  })
-                }}
-                value={setting?.deepLXAddress ?? ''}
-                type="text"
-                placeholder=""
-                className="input input-bordered w-full"
-              />
-            </div>
-          </div>
-        </div>
-      )}
-      {availableEngines.findIndex((engine) => engine.value === "custom") !==
-        -1 && (
-        <div>
-          <div className="flex items-center mb-3">
-          <div className="font-semibold text-[17px]">Custom AI</div>
-          <div className="ml-3 text-[12px] text-gray-500">API format need compatible with OpenAI</div>
-          </div>
-          <div className="border rounded-xl p-9">
-          <div>
-              <div className="text-[15px] my-2">apiAddress</div>
-              <input
-                onChange={(e) => {
-                  setSetting({
-                    customAIAddress: e.target.value
-                  })
-                }}
-                value={setting?.customAIAddress ?? ''}
-                type="text"
-                placeholder=""
-                className="input input-bordered w-full"
-              />
-              <div className="text-[15px] my-2">model</div>
-              <input
-                onChange={(e) => {
-                  setSetting({
-                    customAIModel: e.target.value
-                  })
-                }}
-                value={setting?.customAIModel ?? ''}
-                type="text"
-                placeholder=""
-                className="input input-bordered w-full"
-              />
-              <div className="text-[15px] my-2">apiKey</div>
-              <input
-                onChange={(e) => {
-                  setSetting({
-                    customAIKey: e.target.value
-                  })
-                }}
-                value={setting?.customAIKey ?? ''}
-                type="text"
-                placeholder=""
-                className="input input-bordered w-full"
-              />
-            </div>
-          </div>
-        </div>
-      )}
+        );
+      })}
     </div>
   );
 }
@@ -0,0 +1,284 @@
+/**
+ * 页面：生词本导入导出
+ * - 导出本地生词本与对应笔记为 JSON（可原样导入）、CSV 或 Anki 可导入的文本文件
+ * - Anki 导出可选从有道词典逐个获取释义
+ * - 导入 JSON / CSV 时先生成预览，标记与现有生词重复的单词，确认后再写入本地
+ */
+import { ChangeEvent, useState } from "react";
+import { useAtom } from "jotai";
+import { useTranslation } from "react-i18next";
+import { Download, Upload } from "lucide-react";
+import {
+  importSwwListAtom,
+  remarkListAtom,
+  settingAtom,
+  swwListAtom,
+} from "@/store";
+import {
+  downloadFile,
+  exportFilename,
+  fetchDefinition,
+  ImportRow,
+  parseImport,
+  toAnki,
+  toCSV,
+  toJSON,
+} from "@/utils/transfer";
+import { toastManager } from "@/components/Toast";
+
+/**
+ * 导入导出页面主组件
+ * @returns 导入导出页面React组件
+ */
+export default function ImportExport() {
+  const { t } = useTranslation();
+
+  // ===================== 全局状态 =====================
+
+  const [swwList] = useAtom(swwListAtom);
+  const [remarkList] = useAtom(remarkListAtom);
+  const [setting] = useAtom(settingAtom);
+  const [, importSwwList] = useAtom(importSwwListAtom);
+
+  // ===================== 导出状态 =====================
+
+  /** Anki 导出时是否获取释义 */
+  const [withDefinition, setWithDefinition] = useState(false);
+
+  /** 释义获取进度，null 表示未在导出 */
+  const [progress, setProgress] = useState<number | null>(null);
+
+  // ===================== 导入状态 =====================
+
+  /** 导入预览 */
+  const [rows, setRows] = useState<ImportRow[]>([]);
+
+  /** 是否跳过重复单词 */
+  const [skipDuplicate, setSkipDuplicate] = useState(true);
+
+  const duplicateCount = rows.filter((item) => item.duplicate).length;
+  const importList = skipDuplicate
+    ? rows.filter((item) => !item.duplicate)
+    : rows;
+
+  // ===================== 导出处理 =====================
+
+  const exportJSON = () => {
+    downloadFile(
+      toJSON(swwList, remarkList),
+      exportFilename("json"),
+      "application/json"
+    );
+  };
+
+  const exportCSV = () => {
+    downloadFile(
+      toCSV(swwList, remarkList),
+      exportFilename("csv"),
+      "text/csv;charset=utf-8"
+    );
+  };
+
+  /**
+   * 导出 Anki 文件，需要释义时逐个请求，避免并发过多
+   */
+  const exportAnki = async () => {
+    const definitions: Record<string, string> = {};
+    if (withDefinition) {
+      const lang = setting.sourceLanguage?.language ?? "en";
+      setProgress(0);
+      for (let i = 0; i < swwList.length; i++) {
+        definitions[swwList[i].id] = await fetchDefinition(
+          swwList[i].word,
+          lang
+        );
+        setProgress(i + 1);
+      }
+      setProgress(null);
+    }
+    downloadFile(
+      toAnki(swwList, remarkList, definitions),
+      exportFilename("txt"),
+      "text/plain;charset=utf-8"
+    );
+  };
+
+  // ===================== 导入处理 =====================
+
+  /**
+   * 读取选择的文件并生成预览
+   * @param e - 文件选择事件
+   */
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) {
+      return;
+    }
+    try {
+      const result = parseImport({
+        text: await file.text(),
+        type: file.name.toLowerCase().endsWith(".csv") ? "csv" : "json",
+        swwList,
+        author: setting.userInfo?.email ?? "",
+      });
+      if (!result.length) {
+        toastManager.add({ type: "error", msg: t("No words found") });
+        return;
+      }
+      setRows(result);
+    } catch (error) {
+      toastManager.add({ type: "error", msg: t("Invalid import file") });
+    }
+  };
+
+  const confirmImport = async () => {
+    await importSwwList({
+      swwList: importList.map((item) => item.sww),
+      remarkList: importList
+        .map((item) => item.remark)
+        .filter((item): item is NonNullable<typeof item> => Boolean(item)),
+    });
+    toastManager.add({
+      type: "success",
+      msg: t("Imported Count", { count: importList.length }),
+    });
+    setRows([]);
+  };
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div className="space-y-6">
+      {/* ===================== 导出 ===================== */}
+      <div>
+        <div className="font-semibold text-[17px] mb-3">{t("Export")}</div>
+        <div className="flex items-center gap-2">
+          <button
+            disabled={!swwList.length}
+            onClick={exportJSON}
+            className="btn btn-sm"
+          >
+            <Download className="w-4 h-4" />
+            JSON
+          </button>
+          <button
+            disabled={!swwList.length}
+            onClick={exportCSV}
+            className="btn btn-sm"
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            disabled={!swwList.length || progress !== null}
+            onClick={exportAnki}
+            className="btn btn-sm"
+          >
+            <Download className="w-4 h-4" />
+            Anki
+          </button>
+          <label className="flex items-center text-sm cursor-pointer ml-2">
+            <input
+              type="checkbox"
+              checked={withDefinition}
+              onChange={(e) => setWithDefinition(e.target.checked)}
+              className="checkbox checkbox-xs mr-1"
+            />
+            {t("Include Definitions")}
+          </label>
+        </div>
+        {progress !== null ? (
+          <div className="flex items-center gap-2 mt-2 text-xs opacity-70">
+            <progress
+              className="progress w-56"
+              value={progress}
+              max={swwList.length}
+            ></progress>
+            <span>
+              {progress}/{swwList.length}
+            </span>
+          </div>
+        ) : null}
+      </div>
+
+      {/* ===================== 导入 ===================== */}
+      <div>
+        <div className="font-semibold text-[17px] mb-3">{t("Import")}</div>
+        <label className="btn btn-sm">
+          <Upload className="w-4 h-4" />
+          {t("Choose File")} (JSON / CSV)
+          <input
+            type="file"
+            accept=".json,.csv"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </label>
+
+        {rows.length ? (
+          <div className="mt-3">
+            <div className="flex items-center gap-3 mb-2 text-sm">
+              <span>
+                {t("Import Preview", {
+                  count: rows.length,
+                  duplicate: duplicateCount,
+                })}
+              </span>
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={skipDuplicate}
+                  onChange={(e) => setSkipDuplicate(e.target.checked)}
+                  className="checkbox checkbox-xs mr-1"
+                />
+                {t("Skip Duplicates")}
+              </label>
+              <button
+                disabled={!importList.length}
+                onClick={confirmImport}
+                className="btn btn-xs btn-primary ml-auto"
+              >
+                {t("Import Count", { count: importList.length })}
+              </button>
+              <button onClick={() => setRows([])} className="btn btn-xs">
+                {t("Cancel")}
+              </button>
+            </div>
+            <div className="max-h-[400px] overflow-y-auto border rounded divide-y">
+              {rows.map((item) => (
+                <div
+                  key={item.sww.id}
+                  className={`flex items-start px-2 py-1 text-sm ${
+                    item.duplicate && skipDuplicate ? "opacity-40" : ""
+                  }`}
+                >
+                  <div className="grow min-w-0">
+                    <div className="font-semibold truncate">{item.sww.word}</div>
+                    {item.sww.context ? (
+                      <div className="text-xs opacity-70 truncate">
+                        {item.sww.context}
+                      </div>
+                    ) : null}
+                    {item.remark ? (
+                      <div className="text-xs opacity-50 truncate">
+                        {item.remark.content}
+                      </div>
+                    ) : null}
+                  </div>
+                  <span
+                    className={`badge badge-sm shrink-0 ml-2 ${
+                      item.duplicate ? "badge-warning" : "badge-success"
+                    }`}
+                  >
+                    {item.duplicate ? t("Duplicate") : t("New")}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
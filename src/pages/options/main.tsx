@@ -1,6 +1,6 @@
 /**
  * Options 应用入口
- * - 组织左侧菜单与右侧对应模块（基础设置/引擎/外链/同步/更新日志/问题/其他）
+ * - 组织左侧菜单与右侧对应模块（基础设置/引擎/外链/生词本/查词历史/学习统计/导入导出/同步/更新日志/问题/其他）
  * - 实现路由管理和页面导航功能
  * - 响应式布局，支持左右分栏结构
  * - 统一的Toast消息提示系统
@@ -14,13 +14,16 @@ import Options from "./options";
 import "@/i18n.ts";
 import EnginesSetting from "./enginsSetting";
 import ExternalLinks from "./externalLiks";
-import { wordListUrl, wordListWindowName } from "@/utils/const";
 // import ScreenshotSetting from "./screenshotSetting";
 import UpdateLog from "@/components/UpdateLog";
 import Question from './question'
 import Other from "./other";
 import Sidebar from "./sidebar";
 import MovieWeb from "./movieWeb";
+import Notebook from "./notebook";
+import History from "@/components/History";
+import Statistics from "./statistics";
+import ImportExport from "./importExport";
 
 // ===================== 类型定义 =====================
 
@@ -78,11 +81,32 @@ export default function App() {
       component: <ExternalLinks />,
     },
     {
-      // 生词本页面 - 打开新窗口
+      // 本地生词本页面
       name: "Vocabulary Notebook",
       path: "/wordList",
       active: false,
-      component: null, // 无内嵌组件，通过window.open打开
+      component: <Notebook />,
+    },
+    {
+      // 查词历史页面
+      name: "Lookup History",
+      path: "/history",
+      active: false,
+      component: <History />,
+    },
+    {
+      // 学习统计页面
+      name: "Statistics",
+      path: "/statistics",
+      active: false,
+      component: <Statistics />,
+    },
+    {
+      // 生词本导入导出页面
+      name: "Import & Export",
+      path: "/importExport",
+      active: false,
+      component: <ImportExport />,
     },
     {
       // 数据同步页面
@@ -162,16 +186,10 @@ export default function App() {
 
   /**
    * 菜单项点击处理函数
-   * 处理不同的菜单点击逻辑：内嵌组件、外部链接、新窗口打开等
+   * 处理不同的菜单点击逻辑：内嵌组件、外部链接等
    * @param item - 被点击的菜单项
    */
   const onMenuClick = async (item: MenuItem) => {
-    // 生词本页面：打开新窗口
-    if (item.path === "/wordList") {
-      window.open(wordListUrl, wordListWindowName);
-      return;
-    }
-    
     // 外部链接：打开新窗口
     if (item.externalLink) {
       window.open(item.externalLink);
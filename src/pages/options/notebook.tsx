@@ -0,0 +1,389 @@
+/**
+ * 页面：本地生词本
+ * - 直接读取本地存储中的生词本，无需登录、可离线使用
+ * - 支持按分组/掌握状态/重要程度筛选、按时间/重要程度排序、按关键字搜索
+ * - 支持批量标记掌握状态、批量设置重要程度、批量移动分组与批量删除
+ * - 支持管理按学习语言划分的生词本分组
+ */
+import { useMemo, useState } from "react";
+import { useAtom } from "jotai";
+import { useTranslation } from "react-i18next";
+import { ExternalLink, FolderCog, Inbox } from "lucide-react";
+import {
+  deckListAtom,
+  removeSwwListAtom,
+  swwListAtom,
+  updateSwwListAtom,
+} from "@/store";
+import type { SortType, WeightRange, WordType } from "@/types/words";
+import { filterSwwList, isMastered } from "@/utils/notebook";
+import { wordListUrl, wordListWindowName } from "@/utils/const";
+import { noDeckId } from "@/utils/deck";
+import DeckManage from "./deckManage";
+
+// ===================== 筛选项配置 =====================
+
+/** 掌握状态选项 */
+const wordTypes: { name: string; value: WordType }[] = [
+  { name: "All", value: "all" },
+  { name: "Mastered", value: "mastered" },
+  { name: "Unmastered", value: "unMastered" },
+];
+
+/** 重要程度选项 */
+const weightRanges: { name: string; value: WeightRange }[] = [
+  { name: "All Levels", value: "all" },
+  { name: "Level ≥ 3", value: "gtoe3" },
+  { name: "Level ≥ 4", value: "gtoe4" },
+  { name: "Level = 5", value: "e5" },
+];
+
+/** 排序选项 */
+const sortTypes: { name: string; value: SortType }[] = [
+  { name: "Sort By Time", value: "time" },
+  { name: "Sort By Level", value: "weight" },
+];
+
+/** 可批量设置的重要程度 */
+const weights = [1, 2, 3, 4, 5];
+
+/**
+ * 本地生词本页面主组件
+ * @returns 生词本页面React组件
+ */
+export default function Notebook() {
+  const { t } = useTranslation();
+
+  // ===================== 全局状态 =====================
+
+  const [swwList] = useAtom(swwListAtom);
+  const [, updateSwwList] = useAtom(updateSwwListAtom);
+  const [, removeSwwList] = useAtom(removeSwwListAtom);
+  const [deckList] = useAtom(deckListAtom);
+
+  // ===================== 筛选状态 =====================
+
+  const [deckId, setDeckId] = useState("");
+  const [wordType, setWordType] = useState<WordType>("all");
+  const [weightRange, setWeightRange] = useState<WeightRange>("all");
+  const [sortType, setSortType] = useState<SortType>("time");
+  const [keyword, setKeyword] = useState("");
+
+  /** 是否展开分组管理 */
+  const [deckManageShow, setDeckManageShow] = useState(false);
+
+  /** 已勾选的单词ID */
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  /** 筛选排序后的列表 */
+  const list = useMemo(
+    () =>
+      filterSwwList({
+        swwList,
+        deckId,
+        deckList,
+        wordType,
+        weightRange,
+        sortType,
+        keyword,
+      }),
+    [swwList, deckId, deckList, wordType, weightRange, sortType, keyword]
+  );
+
+  /** 仅统计当前列表中可见的勾选项，筛选条件变化后不会误操作隐藏的单词 */
+  const selected = list.filter((item) => selectedIds.includes(item.id));
+  const allSelected = list.length > 0 && selected.length === list.length;
+
+  // ===================== 交互处理 =====================
+
+  /**
+   * 切换单个单词的勾选状态
+   * @param id - 单词ID
+   */
+  const toggleSelect = (id: string) => {
+    setSelectedIds((pre) =>
+      pre.includes(id) ? pre.filter((item) => item !== id) : [...pre, id]
+    );
+  };
+
+  /** 全选/取消全选当前列表 */
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? [] : list.map((item) => item.id));
+  };
+
+  /**
+   * 批量设置掌握状态
+   * @param mastered - 是否已掌握
+   */
+  const setMastered = (mastered: boolean) => {
+    updateSwwList(
+      selected.map((item) => ({ ...item, masteryLevel: mastered ? 1 : 0 }))
+    );
+  };
+
+  /**
+   * 批量设置重要程度
+   * @param weight - 重要程度 1-5
+   */
+  const setWeight = (weight: number) => {
+    updateSwwList(selected.map((item) => ({ ...item, weight })));
+  };
+
+  /**
+   * 批量移动到分组
+   * @param id - 目标分组ID，空字符串表示移出分组
+   */
+  const moveToDeck = (id: string) => {
+    updateSwwList(
+      selected.map((item) => ({ ...item, deckId: id || undefined }))
+    );
+  };
+
+  /** 批量删除 */
+  const remove = () => {
+    removeSwwList(selected);
+    setSelectedIds([]);
+  };
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div>
+      {/* ===================== 标题 ===================== */}
+      <div className="flex items-center mb-3">
+        <span className="font-semibold text-[17px]">
+          {t("Vocabulary Notebook")}
+        </span>
+        <span className="ml-2 text-sm opacity-60">
+          {list.length}/{swwList.length}
+        </span>
+        <button
+          onClick={() => setDeckManageShow((pre) => !pre)}
+          className={`btn btn-xs ml-auto ${deckManageShow ? "btn-active" : ""}`}
+        >
+          <FolderCog className="w-3 h-3" />
+          {t("Manage Decks")}
+        </button>
+        <a
+          onClick={() => window.open(wordListUrl, wordListWindowName)}
+          className="ml-3 flex items-center text-xs underline text-indigo-400 cursor-pointer"
+        >
+          {t("Online Notebook")}
+          <ExternalLink className="w-3 h-3 ml-1" />
+        </a>
+      </div>
+
+      {/* ===================== 分组管理 ===================== */}
+      {deckManageShow ? (
+        <div className="mb-3">
+          <DeckManage />
+        </div>
+      ) : null}
+
+      {/* ===================== 筛选栏 ===================== */}
+      <div className="flex items-center gap-2 mb-3">
+        {deckList.length ? (
+          <select
+            value={deckId}
+            onChange={(e) => setDeckId(e.target.value)}
+            className="select select-bordered select-sm"
+          >
+            <option value="">{t("All Decks")}</option>
+            {deckList.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+            <option value={noDeckId}>{t("No Deck")}</option>
+          </select>
+        ) : null}
+        <input
+          value={keyword}
+          onChange={(e) => setKeyword(e.target.value)}
+          type="text"
+          placeholder={t("Search words, context or notes")}
+          className="input input-bordered input-sm grow"
+        />
+        <select
+          value={wordType}
+          onChange={(e) => setWordType(e.target.value as WordType)}
+          className="select select-bordered select-sm"
+        >
+          {wordTypes.map((item) => (
+            <option key={item.value} value={item.value}>
+              {t(item.name)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={weightRange}
+          onChange={(e) => setWeightRange(e.target.value as WeightRange)}
+          className="select select-bordered select-sm"
+        >
+          {weightRanges.map((item) => (
+            <option key={item.value} value={item.value}>
+              {t(item.name)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={sortType}
+          onChange={(e) => setSortType(e.target.value as SortType)}
+          className="select select-bordered select-sm"
+        >
+          {sortTypes.map((item) => (
+            <option key={item.value} value={item.value}>
+              {t(item.name)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* ===================== 批量操作 ===================== */}
+      <div className="flex items-center gap-2 mb-2 text-sm min-h-[32px]">
+        <label className="flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={toggleSelectAll}
+            className="checkbox checkbox-sm mr-2"
+          />
+          {t("Select All")}
+        </label>
+        {selected.length ? (
+          <>
+            <span className="opacity-60">
+              {t("Selected Count", { count: selected.length })}
+            </span>
+            <button onClick={() => setMastered(true)} className="btn btn-xs">
+              {t("Mark As Mastered")}
+            </button>
+            <button onClick={() => setMastered(false)} className="btn btn-xs">
+              {t("Mark As Unmastered")}
+            </button>
+            <select
+              value=""
+              onChange={(e) => setWeight(Number(e.target.value))}
+              className="select select-bordered select-xs"
+            >
+              <option disabled value="">
+                {t("Level of importance")}
+              </option>
+              {weights.map((item) => (
+                <option key={item} value={item}>
+                  {item}
+                </option>
+              ))}
+            </select>
+            {deckList.length ? (
+              <select
+                value="-"
+                onChange={(e) => moveToDeck(e.target.value)}
+                className="select select-bordered select-xs"
+              >
+                <option disabled value="-">
+                  {t("Move To Deck")}
+                </option>
+                {deckList.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+                <option value="">{t("No Deck")}</option>
+              </select>
+            ) : null}
+            <div className="dropdown dropdown-end ml-auto">
+              <button tabIndex={0} role="button" className="btn btn-xs btn-error">
+                {t("Delete")}
+              </button>
+              <div
+                tabIndex={0}
+                className="dropdown-content z-10 card card-compact w-[170px] bg-base-200 text-base-content text-xs"
+              >
+                <div className="card-body items-center text-center">
+                  <p className="text-[13px]">{t("Confirm Delete Words")}</p>
+                  <div className="card-actions justify-end">
+                    <button
+                      onMouseDown={() =>
+                        (document.activeElement as HTMLElement).blur()
+                      }
+                      className="btn btn-xs btn-primary"
+                    >
+                      {t("Cancel")}
+                    </button>
+                    <button
+                      onClick={() => {
+                        (document.activeElement as HTMLElement).blur();
+                        remove();
+                      }}
+                      className="btn btn-xs btn-ghost"
+                    >
+                      {t("Confirm")}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </>
+        ) : null}
+      </div>
+
+      {/* ===================== 单词列表 ===================== */}
+      {list.length ? (
+        <div className="border rounded-xl divide-y">
+          {list.map((item) => (
+            <label
+              key={item.id}
+              className="flex items-start px-4 py-3 cursor-pointer hover:bg-gray-50"
+            >
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(item.id)}
+                onChange={() => toggleSelect(item.id)}
+                className="checkbox checkbox-sm mr-3 mt-[2px]"
+              />
+              <div className="grow min-w-0">
+                <div className="flex items-center">
+                  <span className="font-semibold">{item.word}</span>
+                  {deckList.find((deck) => deck.id === item.deckId) ? (
+                    <span className="badge badge-ghost badge-sm ml-2">
+                      {deckList.find((deck) => deck.id === item.deckId)!.name}
+                    </span>
+                  ) : null}
+                  {isMastered(item) ? (
+                    <span className="badge badge-success badge-sm ml-2">
+                      {t("Mastered")}
+                    </span>
+                  ) : null}
+                  <span className="ml-auto text-xs opacity-60">
+                    {t("Level of importance")}: {item.weight ?? 1}
+                  </span>
+                </div>
+                {item.context ? (
+                  <div className="text-sm opacity-70 truncate">
+                    {item.context}
+                  </div>
+                ) : null}
+                {item.remark ? (
+                  <div className="text-xs opacity-60 truncate">
+                    {item.remark}
+                  </div>
+                ) : null}
+                {item.lastEditDate ? (
+                  <div className="text-xs opacity-40 mt-1">
+                    {new Date(item.lastEditDate).toLocaleString()}
+                  </div>
+                ) : null}
+              </div>
+            </label>
+          ))}
+        </div>
+      ) : (
+        <div className="text-sm flex items-center justify-center space-x-1 py-[40px] text-gray-500">
+          <Inbox className="w-[16px] h-[16px]" />
+          <span>{t("No words found")}</span>
+        </div>
+      )}
+    </div>
+  );
+}
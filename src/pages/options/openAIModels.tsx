@@ -0,0 +1,110 @@
+/**
+ * 组件：OpenAI 模型选择
+ * - 拉取当前 key 可用的模型列表，并缓存到 `storage.local`。
+ * - 在引擎设置页中渲染在 OpenAI 的设置项之后。
+ */
+import { useState, useCallback, useEffect } from "react";
+import { toastManager } from "@/components/Toast";
+import { RotateCcw } from "lucide-react";
+import { defaultSetting } from "@/utils/const";
+import { getLocal, setLocal } from "@/storage/local";
+import { useTranslation } from "react-i18next";
+import { useAtom } from "jotai";
+import { secretsAtom, settingAtom } from "@/store";
+export default function OpenAIModels() {
+  const { t } = useTranslation();
+  const [setting, setSetting] = useAtom(settingAtom);
+  const [secrets] = useAtom(secretsAtom);
+  const [openAIModelList, setOpenAIModelList] = useState<
+    { label: string; value: string }[]
+  >([]);
+
+  const [getOpenAIModelLoading, setOpenAIModelLoading] = useState(false);
+  const getOpenAIModelList = useCallback(() => {
+    if (!secrets.openAIKey) {
+      return;
+    }
+    if (getOpenAIModelLoading) {
+      return;
+    }
+    const controller = new AbortController();
+    const address = setting?.openAIAddress ?? defaultSetting.openAIAddress;
+    const url = address.replace("/v1/chat/completions", "/v1/models");
+    setOpenAIModelLoading(true);
+    fetch(`${url}`, {
+      signal: controller.signal,
+      headers: {
+        Authorization: `Bearer ${secrets.openAIKey}`,
+      },
+    })
+      .then((res) => res.json())
+      .then((res) => {
+        if (res.error) {
+          toastManager.add({ type: "error", msg: res.error.message });
+          throw new Error(res.error);
+        }
+        const list = res.data
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .sort((a: any, b: any) => a.created - b.created)
+          .reverse()
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .map((item: any) => ({ label: item.id, value: item.id }));
+        setOpenAIModelList(list);
+        setLocal({ openAIModelList: list });
+      })
+      .catch((err) => {
+        console.log(err);
+      })
+      .finally(() => {
+        setOpenAIModelLoading(false);
+      });
+    return controller;
+  }, [setting?.openAIAddress, secrets.openAIKey, getOpenAIModelLoading]);
+
+  useEffect(() => {
+    getLocal().then((res): void => {
+      if (res.openAIModelList) {
+        setOpenAIModelList(res.openAIModelList);
+      }
+    });
+  }, []);
+
+  return (
+    <label>
+      <div className="text-[15px] my-2">
+        {t("Available models for the current key")}
+      </div>
+      <div
+        className={`flex transition-opacity ${
+          getOpenAIModelLoading ? "opacity-50" : "opacity-100"
+        }`}
+      >
+        <select
+          value={setting.openAIModel ?? defaultSetting.openAIModel}
+          onChange={(e) => {
+            setSetting({
+              openAIModel: e.target.value
+            })
+          }}
+          className="select select-bordered w-full flex-auto"
+        >
+          {openAIModelList.map((item) => (
+            <option key={item.value} value={item.value}>
+              {item.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={getOpenAIModelList}
+          className="btn btn-square ml-2"
+        >
+          {getOpenAIModelLoading ? (
+            <span className="w-5 loading loading-spinner"></span>
+          ) : (
+            <RotateCcw className="w-5" />
+          )}
+        </button>
+      </div>
+    </label>
+  );
+}
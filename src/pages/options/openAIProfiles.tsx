@@ -0,0 +1,189 @@
+/**
+ * 组件：OpenAI 兼容接口配置
+ * - 添加、编辑、删除任意多个命名的接口配置：地址、模型、密钥与额外请求参数（JSON 对象）
+ * - 每个配置作为单独的引擎出现在单词与句子引擎列表中，修改后同步更新引擎列表（见 storage/migration 的 mergeEngineLists）
+ * - 密钥保存在本地密钥库，密钥库未解锁时不能编辑
+ */
+import { useAtom } from "jotai";
+import { useTranslation } from "react-i18next";
+import { Plus, Trash2 } from "lucide-react";
+import { v4 as uuidv4 } from "uuid";
+import type { OpenAIProfile } from "@/types";
+import { secretStateAtom, secretsAtom, settingAtom } from "@/store";
+import { mergeEngineLists } from "@/storage/migration";
+import { getProfileEngineId, parseProfileParams } from "@/api/openAIProfile";
+
+/**
+ * 额外请求参数是否有效
+ * @param text - JSON 对象文本
+ * @returns 是否有效
+ */
+const isValidParams = (text?: string) => {
+  try {
+    parseProfileParams(text);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * OpenAI 兼容接口配置组件
+ * @returns 接口配置React组件
+ */
+export default function OpenAIProfiles() {
+  const { t } = useTranslation();
+
+  // ===================== 全局状态 =====================
+
+  const [setting, setSetting] = useAtom(settingAtom);
+  const [secrets, setSecrets] = useAtom(secretsAtom);
+  const [secretState] = useAtom(secretStateAtom);
+  const profiles = setting.openAIProfiles ?? [];
+
+  // ===================== 交互处理 =====================
+
+  /**
+   * 保存接口配置，并同步更新单词/句子引擎列表
+   * @param openAIProfiles - 新的接口配置列表
+   */
+  const saveProfiles = (openAIProfiles: OpenAIProfile[]) => {
+    setSetting({
+      openAIProfiles,
+      ...mergeEngineLists({ ...setting, openAIProfiles }),
+    });
+  };
+
+  /**
+   * 更新单个接口配置
+   * @param id - 配置ID
+   * @param update - 需要更新的字段
+   */
+  const updateProfile = (id: string, update: Partial<OpenAIProfile>) => {
+    saveProfiles(
+      profiles.map((item) => (item.id === id ? { ...item, ...update } : item))
+    );
+  };
+
+  /**
+   * 新增接口配置
+   */
+  const addProfile = () => {
+    saveProfiles([
+      ...profiles,
+      { id: uuidv4(), name: `${t("Profile")} ${profiles.length + 1}` },
+    ]);
+  };
+
+  /**
+   * 删除接口配置（同时删除其密钥）
+   * @param profile - 接口配置
+   */
+  const removeProfile = (profile: OpenAIProfile) => {
+    if (!window.confirm(t("Delete Profile Confirm", { name: profile.name }))) {
+      return;
+    }
+    saveProfiles(profiles.filter((item) => item.id !== profile.id));
+    if (secretState !== "locked") {
+      setSecrets({ [getProfileEngineId(profile.id)]: "" });
+    }
+  };
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div>
+      <div className="flex items-center mb-3">
+        <div className="font-semibold text-[17px]">{t("OpenAI-compatible Profiles")}</div>
+        <div className="ml-3 text-[12px] text-gray-500">
+          {t("OpenAI-compatible Profiles Tip")}
+        </div>
+      </div>
+      <div className="space-y-3">
+        {profiles.map((profile) => (
+          <div key={profile.id} className="border rounded-xl p-9">
+            <div className="flex items-center gap-2">
+              <input
+                onChange={(e) => {
+                  updateProfile(profile.id, { name: e.target.value });
+                }}
+                value={profile.name}
+                type="text"
+                placeholder={t("Profile Name")}
+                className="input input-bordered input-sm flex-1 font-semibold"
+              />
+              <button
+                onClick={() => removeProfile(profile)}
+                className="btn btn-sm btn-ghost btn-square"
+                title={t("Delete")}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <label className="block">
+              <div className="text-[15px] my-2">apiAddress</div>
+              <input
+                onChange={(e) => {
+                  updateProfile(profile.id, { address: e.target.value });
+                }}
+                value={profile.address ?? ""}
+                type="text"
+                placeholder="https://example.com/v1/chat/completions"
+                className="input input-bordered w-full"
+              />
+            </label>
+            <label className="block">
+              <div className="text-[15px] my-2">model</div>
+              <input
+                onChange={(e) => {
+                  updateProfile(profile.id, { model: e.target.value });
+                }}
+                value={profile.model ?? ""}
+                type="text"
+                placeholder=""
+                className="input input-bordered w-full"
+              />
+            </label>
+            <label className="block">
+              <div className="text-[15px] my-2">apiKey</div>
+              <input
+                onChange={(e) => {
+                  setSecrets({
+                    [getProfileEngineId(profile.id)]: e.target.value,
+                  });
+                }}
+                disabled={secretState === "locked"}
+                value={secrets[getProfileEngineId(profile.id)] ?? ""}
+                type="text"
+                placeholder=""
+                className="input input-bordered w-full"
+              />
+            </label>
+            <label className="block">
+              <div className="text-[15px] my-2">{t("Extra Parameters")}</div>
+              <textarea
+                onChange={(e) => {
+                  updateProfile(profile.id, { params: e.target.value });
+                }}
+                value={profile.params ?? ""}
+                placeholder='{"temperature": 0.3}'
+                className={`textarea textarea-bordered w-full font-mono ${
+                  isValidParams(profile.params) ? "" : "textarea-error"
+                }`}
+              />
+              {!isValidParams(profile.params) && (
+                <div className="text-error text-xs mt-1">
+                  {t("Extra parameters must be a JSON object")}
+                </div>
+              )}
+            </label>
+          </div>
+        ))}
+        <button onClick={addProfile} className="btn btn-sm">
+          <Plus className="w-4 h-4" />
+          {t("Add Profile")}
+        </button>
+      </div>
+    </div>
+  );
+}
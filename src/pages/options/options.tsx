@@ -1,6 +1,6 @@
 /**
  * 页面：扩展设置（通用）
- * - 账户登录/退出、触发图标、界面语言、选中文本触发方式等基础设置
+ * - 账户登录/退出（登录后显示单词的后端同步状态）、触发图标、界面语言、选中文本触发方式等基础设置
  * - 依赖 jotai 全局 `settingAtom`，通过 `setSetting` 落盘到 `chrome.storage.sync`
  * - 支持多语言界面，基于 react-i18next 实现国际化
  * - 包含完整的用户偏好设置界面
@@ -26,6 +26,7 @@ import type { Storage } from "webextension-polyfill";
 import { useAtom } from "jotai";
 import { settingAtom } from "@/store";
 import HotkeysInput from "./hotkeyInput";
+import SyncStatus from "./syncStatus";
 
 /** 默认触发图标的资源路径 */
 const defaultTriggerUrl = new URL(triggerIcon, import.meta.url).href;
@@ -176,6 +177,8 @@ export default function Options() {
               {setting.userInfo?.email ? t("Sign out") : t("Sign in")}
             </button>
           </div>
+          {/* 单词后端同步状态 */}
+          {setting.userInfo?.email ? <SyncStatus /> : null}
         </div>
 
         {/* ===================== 交互设置区域 ===================== */}
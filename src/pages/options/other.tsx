@@ -4,6 +4,8 @@ import { clearSession } from "@/storage/session";
 import browser from "webextension-polyfill";
 import { useTranslation } from "react-i18next";
 import {Github} from 'lucide-react'
+import Backup from "./backup";
+import StorageUsage from "./storageUsage";
 export default function Other() {
   const { t } = useTranslation();
   const reset = async () => {
@@ -14,6 +16,8 @@ export default function Other() {
   };
   return (
     <div className="space-y-[50px]">
+      <StorageUsage />
+      <Backup />
       <div>
         <div className="dropdown">
           <button tabIndex={0} role="button" className="btn btn-neutral btn-sm">
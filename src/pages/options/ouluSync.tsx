@@ -0,0 +1,126 @@
+/**
+ * 组件：欧路词典双向同步
+ * - 拉取欧路生词本并与本地生词本对比，导入只在欧路中的单词
+ * - 可选择把只在本地的单词批量推送到欧路生词本
+ * - 显示本次同步的结果，同步失败时提示失败原因
+ */
+import { useState } from "react";
+import { useAtom, useSetAtom } from "jotai";
+import { useTranslation } from "react-i18next";
+import { ArrowLeftRight } from "lucide-react";
+import { v4 as uuidv4 } from "uuid";
+import { toastManager } from "@/components/Toast";
+import { importSwwListAtom, swwListAtom } from "@/store";
+import { addWordsOulu, diffWordListOulu } from "@/api/oulu";
+
+/** 同步结果 */
+interface OuluSyncResult {
+  /** 导入到本地的单词数量 */
+  imported: number;
+  /** 推送到欧路的单词数量 */
+  pushed: number;
+  /** 两边都有的单词数量 */
+  both: number;
+}
+
+/**
+ * 欧路词典双向同步组件
+ * @param disabled - 未配置完整时不可同步
+ * @returns 欧路同步React组件
+ */
+export default function OuluSync({ disabled }: { disabled: boolean }) {
+  const { t } = useTranslation();
+
+  // ===================== 全局状态 =====================
+
+  const [swwList] = useAtom(swwListAtom);
+  const importSwwList = useSetAtom(importSwwListAtom);
+
+  /** 是否推送只在本地的单词 */
+  const [pushLocal, setPushLocal] = useState(false);
+
+  /** 同步中 */
+  const [syncing, setSyncing] = useState(false);
+
+  /** 上次同步结果 */
+  const [result, setResult] = useState<OuluSyncResult>();
+
+  // ===================== 交互处理 =====================
+
+  /**
+   * 与欧路生词本双向同步
+   */
+  const sync = async () => {
+    if (syncing) {
+      return;
+    }
+    setSyncing(true);
+    try {
+      const diff = await diffWordListOulu(swwList);
+      if (pushLocal && diff.localOnly.length) {
+        await addWordsOulu(diff.localOnly.map((item) => item.word));
+      }
+      await importSwwList({
+        swwList: diff.remoteOnly.map((item) => ({
+          id: uuidv4(),
+          word: item.word,
+          lastEditDate: Date.now(),
+        })),
+        remarkList: [],
+      });
+      setResult({
+        imported: diff.remoteOnly.length,
+        pushed: pushLocal ? diff.localOnly.length : 0,
+        both: diff.bothCount,
+      });
+    } catch (error) {
+      toastManager.add({
+        type: "error",
+        msg: `${t("Sync failed")}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      });
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div className="mt-5">
+      <div className="flex items-center gap-3">
+        <button
+          disabled={disabled || syncing}
+          onClick={sync}
+          className="btn btn-sm"
+        >
+          {syncing ? (
+            <span className="loading loading-spinner loading-xs"></span>
+          ) : (
+            <ArrowLeftRight className="w-4 h-4" />
+          )}
+          {t("Two-way Sync")}
+        </button>
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={pushLocal}
+            onChange={(e) => setPushLocal(e.target.checked)}
+            className="checkbox checkbox-sm"
+          />
+          {t("Push local-only words")}
+        </label>
+      </div>
+      {result ? (
+        <div className="mt-2 text-sm opacity-70">
+          {t("Oulu Sync Result", {
+            imported: result.imported,
+            pushed: result.pushed,
+            both: result.both,
+          })}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,15 +1,16 @@
 /**
  * 页面：截图 OCR 设置
- * - 配置百度通用文字识别（标准版）的 AccessToken，用于截图后识别文字。
+ * - 配置百度通用文字识别（标准版）的 AccessToken，用于截图后识别文字（保存在本地密钥库中）。
  */
 import { useTranslation } from "react-i18next";
 import { Info } from "lucide-react";
 import { useAtom } from "jotai";
-import { settingAtom } from "@/store";
+import { secretStateAtom, secretsAtom } from "@/store";
 
 export default function ScreenshotSetting() {
   const { t } = useTranslation();
-  const [setting,setSetting] = useAtom(settingAtom);
+  const [secrets, setSecrets] = useAtom(secretsAtom);
+  const [secretState] = useAtom(secretStateAtom);
   
   return (
     <div className="w-[600px] space-y-5">
@@ -36,9 +37,10 @@ export default function ScreenshotSetting() {
             </div>
             <input
               onChange={(e) => {
-                setSetting({screenshotToken: e.target.value});
+                setSecrets({screenshotToken: e.target.value});
               }}
-              value={setting.screenshotToken ?? ""}
+              disabled={secretState === "locked"}
+              value={secrets.screenshotToken ?? ""}
               type="text"
               placeholder=""
               className="input input-bordered w-full"
@@ -0,0 +1,196 @@
+/**
+ * 组件：密钥库加密设置
+ * - 引擎密钥只保存在当前设备，可用口令加密（见 storage/secret）
+ * - 未加密时设置口令加密；已加密时解锁、锁定或取消加密
+ * - 口令无法找回，忘记时只能清空密钥库后重新填写密钥
+ * - 旧版本同步在设置中的密钥已复制到本机，确认所有设备都已迁移后可从同步中删除
+ */
+import { useEffect, useState } from "react";
+import { useAtom } from "jotai";
+import { useTranslation } from "react-i18next";
+import { Lock, LockOpen } from "lucide-react";
+import { toastManager } from "@/components/Toast";
+import { secretStateAtom } from "@/store";
+import {
+  disableEncryption,
+  enableEncryption,
+  hasLegacySecrets,
+  lockSecrets,
+  removeLegacySecrets,
+  resetSecrets,
+  unlockSecrets,
+} from "@/storage/secret";
+
+/**
+ * 密钥库加密设置组件
+ * @returns 密钥库设置React组件
+ */
+export default function SecretSetting() {
+  const { t } = useTranslation();
+
+  // ===================== 全局状态 =====================
+
+  const [secretState] = useAtom(secretStateAtom);
+
+  /** 口令 */
+  const [passphrase, setPassphrase] = useState("");
+
+  /** 确认口令（设置加密时） */
+  const [confirm, setConfirm] = useState("");
+
+  /** 处理中 */
+  const [loading, setLoading] = useState(false);
+
+  /** 设置（同步）中是否还有旧版本的密钥 */
+  const [hasLegacy, setHasLegacy] = useState(false);
+
+  useEffect(() => {
+    hasLegacySecrets().then(setHasLegacy);
+  }, []);
+
+  // ===================== 交互处理 =====================
+
+  /**
+   * 执行密钥库操作，失败时提示原因
+   * @param task - 操作
+   */
+  const run = async (task: () => Promise<void>) => {
+    if (loading) {
+      return;
+    }
+    setLoading(true);
+    try {
+      await task();
+      setPassphrase("");
+      setConfirm("");
+    } catch (error) {
+      toastManager.add({ type: "error", msg: t((error as Error).message) });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * 设置口令并加密
+   */
+  const encrypt = () => {
+    if (!passphrase || passphrase !== confirm) {
+      toastManager.add({ type: "error", msg: t("Passphrases do not match") });
+      return;
+    }
+    run(() => enableEncryption(passphrase));
+  };
+
+  /**
+   * 从同步中删除旧版本的密钥
+   */
+  const removeLegacy = () => {
+    if (window.confirm(t("Remove Synced Keys Confirm"))) {
+      run(async () => {
+        await removeLegacySecrets();
+        setHasLegacy(false);
+      });
+    }
+  };
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div>
+      <div className="font-semibold text-[17px] mb-3 flex items-center gap-2">
+        {secretState === "locked" ? (
+          <Lock className="w-4 h-4" />
+        ) : (
+          <LockOpen className="w-4 h-4" />
+        )}
+        {t("API Key Encryption")}
+      </div>
+      <div className="border rounded-xl p-9 space-y-3">
+        <div className="text-sm opacity-70">{t("API Key Encryption Tip")}</div>
+        {hasLegacy && (
+          <div className="flex items-center gap-2 text-sm text-warning">
+            <span className="flex-1">{t("Synced Keys Tip")}</span>
+            <button
+              disabled={loading || secretState === "locked"}
+              onClick={removeLegacy}
+              className="btn btn-sm btn-ghost"
+            >
+              {t("Remove Synced Keys")}
+            </button>
+          </div>
+        )}
+        {secretState === "plain" ? (
+          <div className="flex gap-2">
+            <input
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              type="password"
+              placeholder={t("Passphrase")}
+              className="input input-bordered input-sm flex-1"
+            />
+            <input
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+              type="password"
+              placeholder={t("Confirm Passphrase")}
+              className="input input-bordered input-sm flex-1"
+            />
+            <button disabled={loading} onClick={encrypt} className="btn btn-sm">
+              {t("Encrypt")}
+            </button>
+          </div>
+        ) : secretState === "locked" ? (
+          <div className="flex gap-2">
+            <input
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  run(() => unlockSecrets(passphrase));
+                }
+              }}
+              type="password"
+              placeholder={t("Passphrase")}
+              className="input input-bordered input-sm flex-1"
+            />
+            <button
+              disabled={loading || !passphrase}
+              onClick={() => run(() => unlockSecrets(passphrase))}
+              className="btn btn-sm"
+            >
+              {t("Unlock")}
+            </button>
+            <button
+              disabled={loading}
+              onClick={() => {
+                if (window.confirm(t("Reset Keys Confirm"))) {
+                  run(resetSecrets);
+                }
+              }}
+              className="btn btn-sm btn-ghost"
+            >
+              {t("Reset Keys")}
+            </button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <button
+              disabled={loading}
+              onClick={() => run(lockSecrets)}
+              className="btn btn-sm"
+            >
+              {t("Lock")}
+            </button>
+            <button
+              disabled={loading}
+              onClick={() => run(disableEncryption)}
+              className="btn btn-sm btn-ghost"
+            >
+              {t("Remove Encryption")}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+/**
+ * 页面：学习统计
+ * - 基于本地生词本、查词历史与复习记录计算，不依赖后端
+ * - 展示概览数字、每日新增、掌握趋势、复习连续天数、活跃度热力图
+ * - 展示按重要程度与考试标签的单词分布
+ */
+import { useMemo } from "react";
+import { useAtom } from "jotai";
+import { useTranslation } from "react-i18next";
+import { historyListAtom, swwListAtom } from "@/store";
+import {
+  getAddedPerDay,
+  getExamTagBreakdown,
+  getHeatmap,
+  getMasteredOverTime,
+  getReviewStreak,
+  getWeightBreakdown,
+} from "@/utils/stats";
+import { isMastered } from "@/utils/notebook";
+
+/** 热力图颜色分级 */
+const heatLevels = [
+  "bg-gray-100",
+  "bg-green-200",
+  "bg-green-300",
+  "bg-green-500",
+  "bg-green-700",
+];
+
+/**
+ * 根据活跃次数获取热力图颜色
+ * @param count - 活跃次数
+ * @returns tailwind 背景色
+ */
+const heatColor = (count: number) => {
+  if (count === 0) return heatLevels[0];
+  if (count < 3) return heatLevels[1];
+  if (count < 6) return heatLevels[2];
+  if (count < 10) return heatLevels[3];
+  return heatLevels[4];
+};
+
+/**
+ * 简易柱状图
+ * @param props - 组件属性
+ * @param props.data - 柱状数据（label 用于提示）
+ * @param props.colorClassName - 柱子颜色
+ * @returns 柱状图React组件
+ */
+function BarChart({
+  data,
+  colorClassName,
+}: {
+  data: { label: string; count: number }[];
+  colorClassName: string;
+}) {
+  const max = Math.max(1, ...data.map((item) => item.count));
+  return (
+    <div className="flex items-end h-[120px] gap-[2px]">
+      {data.map((item) => (
+        <div
+          key={item.label}
+          title={`${item.label}: ${item.count}`}
+          className="flex-1 h-full flex items-end"
+        >
+          <div
+            className={`w-full rounded-t ${colorClassName}`}
+            style={{ height: `${(item.count / max) * 100}%` }}
+          ></div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * 横向占比条
+ * @param props - 组件属性
+ * @param props.label - 标签
+ * @param props.count - 数量
+ * @param props.total - 总数
+ * @returns 占比条React组件
+ */
+function RatioBar({
+  label,
+  count,
+  total,
+}: {
+  label: string;
+  count: number;
+  total: number;
+}) {
+  return (
+    <div className="flex items-center text-sm gap-2">
+      <span className="w-[90px] shrink-0 truncate" title={label}>
+        {label}
+      </span>
+      <div className="grow h-[10px] bg-gray-100 rounded">
+        <div
+          className="h-full bg-blue-400 rounded"
+          style={{ width: `${total ? (count / total) * 100 : 0}%` }}
+        ></div>
+      </div>
+      <span className="w-[40px] text-right opacity-60">{count}</span>
+    </div>
+  );
+}
+
+/**
+ * 学习统计页面主组件
+ * @returns 学习统计页面React组件
+ */
+export default function Statistics() {
+  const { t } = useTranslation();
+
+  // ===================== 全局状态 =====================
+
+  const [swwList] = useAtom(swwListAtom);
+  const [historyList] = useAtom(historyListAtom);
+
+  // ===================== 统计数据 =====================
+
+  const addedPerDay = useMemo(() => getAddedPerDay(swwList), [swwList]);
+  const masteredOverTime = useMemo(
+    () => getMasteredOverTime(swwList),
+    [swwList]
+  );
+  const streak = useMemo(() => getReviewStreak(swwList), [swwList]);
+  const heatmap = useMemo(
+    () => getHeatmap(swwList, historyList),
+    [swwList, historyList]
+  );
+  const weightBreakdown = useMemo(() => getWeightBreakdown(swwList), [swwList]);
+  const examTagBreakdown = useMemo(
+    () => getExamTagBreakdown(swwList),
+    [swwList]
+  );
+  const masteredCount = swwList.filter(isMastered).length;
+
+  /** 概览数字 */
+  const overview = [
+    { name: "Total Words", value: swwList.length },
+    { name: "Mastered", value: masteredCount },
+    { name: "Lookups", value: historyList.length },
+    { name: "Review Streak", value: t("Days", { count: streak }) },
+  ];
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div className="space-y-6">
+      <div className="font-semibold text-[17px]">{t("Statistics")}</div>
+
+      {/* ===================== 概览 ===================== */}
+      <div className="stats stats-horizontal border w-full">
+        {overview.map((item) => (
+          <div key={item.name} className="stat py-3">
+            <div className="stat-title text-xs">{t(item.name)}</div>
+            <div className="stat-value text-2xl">{item.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* ===================== 每日新增 ===================== */}
+      <div>
+        <div className="text-[15px] mb-2">{t("Words Added Per Day")}</div>
+        <BarChart
+          colorClassName="bg-blue-400"
+          data={addedPerDay.map((item) => ({
+            label: item.day,
+            count: item.count,
+          }))}
+        />
+      </div>
+
+      {/* ===================== 掌握趋势 ===================== */}
+      <div>
+        <div className="text-[15px] mb-2">{t("Words Mastered Over Time")}</div>
+        <BarChart
+          colorClassName="bg-green-400"
+          data={masteredOverTime.map((item) => ({
+            label: item.day,
+            count: item.count,
+          }))}
+        />
+      </div>
+
+      {/* ===================== 活跃度热力图 ===================== */}
+      <div>
+        <div className="text-[15px] mb-2">{t("Activity")}</div>
+        <div className="flex gap-[3px]">
+          {heatmap.map((week, index) => (
+            <div key={index} className="flex flex-col gap-[3px]">
+              {week.map((item, weekday) =>
+                item ? (
+                  <div
+                    key={item.day}
+                    title={`${item.day}: ${item.count}`}
+                    className={`w-[12px] h-[12px] rounded-sm ${heatColor(
+                      item.count
+                    )}`}
+                  ></div>
+                ) : (
+                  <div key={weekday} className="w-[12px] h-[12px]"></div>
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* ===================== 重要程度分布 ===================== */}
+      <div>
+        <div className="text-[15px] mb-2">{t("Level of importance")}</div>
+        <div className="space-y-1">
+          {weightBreakdown.map((item) => (
+            <RatioBar
+              key={item.weight}
+              label={`${item.weight}`}
+              count={item.count}
+              total={swwList.length}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* ===================== 考试标签分布 ===================== */}
+      <div>
+        <div className="text-[15px] mb-2">{t("Exam Tags")}</div>
+        <div className="space-y-1">
+          {examTagBreakdown.tags.map((item) => (
+            <RatioBar
+              key={item.tag}
+              label={item.tag}
+              count={item.count}
+              total={swwList.length}
+            />
+          ))}
+          <RatioBar
+            label={t("Untagged")}
+            count={examTagBreakdown.untagged}
+            total={swwList.length}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * 组件：设置存储用量
+ * - 显示同步设置（storage.sync）占用的空间与配额，以及只保存在本地的较大设置占用的空间
+ * - 同步空间接近配额时提示，超出配额的写入会被拒绝（见 storage/sync）
+ */
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { getSettingUsage } from "@/storage/sync";
+
+/** 同步空间占用超过该比例时提示 */
+const warningRatio = 0.8;
+
+/**
+ * 字节数格式化为 KB
+ * @param bytes - 字节数
+ * @returns 格式化后的文本
+ */
+const formatKB = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+
+/**
+ * 设置存储用量组件
+ * @returns 存储用量React组件
+ */
+export default function StorageUsage() {
+  const { t } = useTranslation();
+
+  /** 存储用量 */
+  const [usage, setUsage] =
+    useState<Awaited<ReturnType<typeof getSettingUsage>>>();
+
+  useEffect(() => {
+    getSettingUsage().then(setUsage);
+  }, []);
+
+  if (!usage) {
+    return null;
+  }
+  const ratio = usage.syncBytes / usage.syncQuotaBytes;
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div>
+      <div className="font-semibold text-[17px] mb-3">{t("Settings Storage")}</div>
+      <div className="w-[600px] space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span>{t("Synced Settings")}</span>
+          <span>
+            {formatKB(usage.syncBytes)} / {formatKB(usage.syncQuotaBytes)}
+          </span>
+        </div>
+        <progress
+          className={`progress w-full ${
+            ratio > warningRatio ? "progress-warning" : "progress-success"
+          }`}
+          value={usage.syncBytes}
+          max={usage.syncQuotaBytes}
+        ></progress>
+        {ratio > warningRatio ? (
+          <div className="text-warning">{t("Sync storage almost full")}</div>
+        ) : null}
+        <div className="flex justify-between opacity-70">
+          <span>{t("Local-only Settings")}</span>
+          <span>{formatKB(usage.localBytes)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * 组件：生词本同步目标
+ * - 列出全部同步目标（api/sync），可启用任意多个；未配置完整的同步目标不会被调用
+ * - 检查同步目标的连接状态，从同步目标拉取本地生词本中没有的单词
+ */
+import { useState } from "react";
+import { useAtom, useSetAtom } from "jotai";
+import { useTranslation } from "react-i18next";
+import { Download, RefreshCw } from "lucide-react";
+import { v4 as uuidv4 } from "uuid";
+import { toastManager } from "@/components/Toast";
+import { importSwwListAtom, settingAtom, swwListAtom } from "@/store";
+import {
+  SyncProvider,
+  SyncProviderId,
+  defaultSyncProviders,
+  syncProviderList,
+} from "@/api/sync";
+import { isSameSpelling } from "@/utils";
+
+/** 连接检查结果 */
+type HealthState = "checking" | "ok" | "error";
+
+/**
+ * 同步目标组件
+ * @returns 同步目标React组件
+ */
+export default function SyncProviders() {
+  const { t } = useTranslation();
+
+  // ===================== 全局状态 =====================
+
+  const [setting, setSetting] = useAtom(settingAtom);
+  const [swwList] = useAtom(swwListAtom);
+  const importSwwList = useSetAtom(importSwwListAtom);
+  const enabled = setting.syncProviders ?? defaultSyncProviders;
+
+  /** 各同步目标的连接检查结果 */
+  const [health, setHealth] = useState<Partial<Record<SyncProviderId, HealthState>>>({});
+
+  /** 正在拉取的同步目标 */
+  const [pulling, setPulling] = useState<SyncProviderId>();
+
+  // ===================== 交互处理 =====================
+
+  /**
+   * 启用或停用同步目标
+   * @param id - 同步目标ID
+   * @param checked - 是否启用
+   */
+  const toggle = (id: SyncProviderId, checked: boolean) => {
+    setSetting({
+      syncProviders: checked
+        ? [...enabled, id]
+        : enabled.filter((item) => item !== id),
+    });
+  };
+
+  /**
+   * 检查同步目标的连接
+   * @param provider - 同步目标
+   */
+  const check = async (provider: SyncProvider) => {
+    setHealth((prev) => ({ ...prev, [provider.id]: "checking" }));
+    try {
+      await provider.healthCheck();
+      setHealth((prev) => ({ ...prev, [provider.id]: "ok" }));
+    } catch (error) {
+      setHealth((prev) => ({ ...prev, [provider.id]: "error" }));
+    }
+  };
+
+  /**
+   * 拉取同步目标中的单词，只导入本地没有的单词
+   * @param provider - 同步目标
+   */
+  const pull = async (provider: SyncProvider) => {
+    if (pulling) {
+      return;
+    }
+    setPulling(provider.id);
+    try {
+      const remoteList = await provider.pull();
+      const added = remoteList
+        .filter(
+          (item, index) =>
+            !swwList.some((sww) => isSameSpelling(sww.word, item.word)) &&
+            remoteList.findIndex((other) => isSameSpelling(other.word, item.word)) === index
+        )
+        .map((item) => ({ ...item, id: uuidv4(), lastEditDate: Date.now() }));
+      await importSwwList({ swwList: added, remarkList: [] });
+      toastManager.add({
+        type: "success",
+        msg: t("Imported Count", { count: added.length }),
+      });
+    } catch (error) {
+      toastManager.add({ type: "error", msg: t("Connection failed") });
+    } finally {
+      setPulling(undefined);
+    }
+  };
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div>
+      <div className="font-semibold text-[17px] mb-3">{t("Sync Targets")}</div>
+      <div className="border rounded-xl p-4 space-y-3">
+        {syncProviderList.map((provider) => {
+          const ready = provider.isReady(setting);
+          const state = health[provider.id];
+          return (
+            <div key={provider.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={enabled.includes(provider.id)}
+                onChange={(e) => toggle(provider.id, e.target.checked)}
+                className="checkbox checkbox-sm"
+              />
+              <span className="w-[120px]">{t(provider.name)}</span>
+              {!ready ? (
+                <span className="badge badge-ghost badge-sm">
+                  {t("Not Configured")}
+                </span>
+              ) : state === "ok" ? (
+                <span className="badge badge-success badge-sm">
+                  {t("Connected")}
+                </span>
+              ) : state === "error" ? (
+                <span className="badge badge-error badge-sm">
+                  {t("Connection failed")}
+                </span>
+              ) : null}
+              <div className="grow"></div>
+              <button
+                disabled={!ready || state === "checking"}
+                onClick={() => check(provider)}
+                className="btn btn-xs"
+              >
+                <RefreshCw
+                  className={`w-3 h-3 ${state === "checking" ? "animate-spin" : ""}`}
+                />
+                {t("Check Connection")}
+              </button>
+              <button
+                disabled={!ready || Boolean(pulling)}
+                onClick={() => pull(provider)}
+                className="btn btn-xs"
+              >
+                {pulling === provider.id ? (
+                  <span className="loading loading-spinner loading-xs"></span>
+                ) : (
+                  <Download className="w-3 h-3" />
+                )}
+                {t("Pull")}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
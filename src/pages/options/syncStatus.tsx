@@ -0,0 +1,90 @@
+/**
+ * 组件：后端同步状态
+ * - 显示离线队列（api/outbox）中待发送与发送失败的单词数量，队列变化时实时更新
+ * - 列出发送失败的单词与失败原因，可全部重试或逐个丢弃
+ */
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { RotateCcw, X } from "lucide-react";
+import {
+  OutboxItem,
+  discardOutbox,
+  getOutbox,
+  onOutboxChange,
+  retryOutbox,
+} from "@/api/outbox";
+
+/** 操作类型的显示名称 */
+const actionNames: Record<OutboxItem["action"], string> = {
+  add: "Add",
+  update: "Update",
+  remove: "Delete",
+};
+
+/**
+ * 后端同步状态组件
+ * @returns 同步状态React组件
+ */
+export default function SyncStatus() {
+  const { t } = useTranslation();
+
+  /** 离线队列 */
+  const [outbox, setOutbox] = useState<OutboxItem[]>([]);
+
+  useEffect(() => {
+    getOutbox().then(setOutbox);
+    return onOutboxChange(setOutbox);
+  }, []);
+
+  const failedList = outbox.filter((item) => item.failed);
+  const pendingCount = outbox.length - failedList.length;
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div className="mt-2 text-sm">
+      <div className="flex items-center gap-2">
+        {failedList.length ? (
+          <span className="badge badge-error badge-sm">
+            {t("Sync Failed", { count: failedList.length })}
+          </span>
+        ) : null}
+        {pendingCount ? (
+          <span className="badge badge-warning badge-sm">
+            {t("Pending Sync", { count: pendingCount })}
+          </span>
+        ) : null}
+        {outbox.length ? (
+          <button onClick={() => retryOutbox()} className="btn btn-xs">
+            <RotateCcw className="w-3 h-3" />
+            {t("Retry")}
+          </button>
+        ) : (
+          <span className="badge badge-success badge-sm">{t("Synced")}</span>
+        )}
+      </div>
+      {failedList.length ? (
+        <table className="table table-xs mt-2 w-[600px]">
+          <tbody>
+            {failedList.map((item) => (
+              <tr key={item.word}>
+                <td className="font-semibold">{item.word}</td>
+                <td>{t(actionNames[item.action])}</td>
+                <td className="opacity-70">{item.error}</td>
+                <td className="text-right">
+                  <button
+                    onClick={() => discardOutbox(item.word)}
+                    title={t("Discard")}
+                    className="btn btn-ghost btn-xs"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+/**
+ * 组件：WebDAV 同步设置
+ * - 配置 WebDAV 地址、用户名、密码与自动同步间隔（是否启用在同步目标中设置）
+ * - 密码保存在本地密钥库（不同步），密钥库未解锁时不能编辑
+ * - 立即同步：请求访问服务器的权限后由 background 执行同步，显示上次同步时间
+ */
+import { useEffect, useState } from "react";
+import { useAtom } from "jotai";
+import { useTranslation } from "react-i18next";
+import { RefreshCw } from "lucide-react";
+import { toastManager } from "@/components/Toast";
+import { secretStateAtom, secretsAtom, settingAtom } from "@/store";
+import {
+  getWebDAVSyncDate,
+  requestWebDAVPermission,
+  syncWebDAVNow,
+} from "@/api/webdav";
+
+/** 自动同步间隔（分钟），0 为不自动同步 */
+const intervalList = [0, 15, 30, 60, 360];
+
+/**
+ * WebDAV 同步设置组件
+ * @returns WebDAV 设置React组件
+ */
+export default function WebDAVSetting() {
+  const { t } = useTranslation();
+
+  // ===================== 全局状态 =====================
+
+  const [setting, setSetting] = useAtom(settingAtom);
+  const webdavInfo = setting.webdavInfo;
+  const [secrets, setSecrets] = useAtom(secretsAtom);
+  const [secretState] = useAtom(secretStateAtom);
+
+  /** 上次同步时间 */
+  const [syncDate, setSyncDate] = useState<number>();
+
+  /** 同步中 */
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    getWebDAVSyncDate().then(setSyncDate);
+  }, []);
+
+  // ===================== 交互处理 =====================
+
+  /**
+   * 立即同步
+   */
+  const sync = async () => {
+    if (syncing || !webdavInfo?.url) {
+      return;
+    }
+    if (!(await requestWebDAVPermission(webdavInfo.url))) {
+      toastManager.add({ type: "error", msg: t("Permission denied") });
+      return;
+    }
+    setSyncing(true);
+    const res = await syncWebDAVNow();
+    setSyncing(false);
+    if (res.ok) {
+      setSyncDate(res.date);
+      toastManager.add({ type: "success", msg: t("Sync completed") });
+    } else {
+      toastManager.add({ type: "error", msg: res.error });
+    }
+  };
+
+  // ===================== 渲染 =====================
+
+  return (
+    <div>
+      <div className="font-semibold text-[17px] mb-3">WebDAV</div>
+      <div className="border rounded-xl p-9">
+        <div>
+          <div className="text-[15px] my-2">{t("WebDAV Address")}</div>
+          <input
+            onChange={(e) => {
+              setSetting({ webdavInfo: { ...webdavInfo, url: e.target.value } });
+            }}
+            value={webdavInfo?.url ?? ""}
+            type="text"
+            placeholder="https://dav.example.com/remote.php/webdav"
+            className="input input-bordered w-full"
+          />
+        </div>
+        <div>
+          <div className="text-[15px] my-2">{t("Username")}</div>
+          <input
+            onChange={(e) => {
+              setSetting({
+                webdavInfo: { ...webdavInfo, username: e.target.value },
+              });
+            }}
+            value={webdavInfo?.username ?? ""}
+            type="text"
+            className="input input-bordered w-full"
+          />
+        </div>
+        <div>
+          <div className="text-[15px] my-2">{t("Password")}</div>
+          <input
+            onChange={(e) => {
+              setSecrets({ webdavPassword: e.target.value });
+            }}
+            disabled={secretState === "locked"}
+            value={secrets.webdavPassword ?? ""}
+            type="password"
+            className="input input-bordered w-full"
+          />
+        </div>
+        <div>
+          <div className="text-[15px] my-2">{t("Auto Sync")}</div>
+          <select
+            value={webdavInfo?.interval ?? 0}
+            onChange={(e) => {
+              setSetting({
+                webdavInfo: { ...webdavInfo, interval: Number(e.target.value) },
+              });
+            }}
+            className="select select-bordered w-full"
+          >
+            {intervalList.map((item) => (
+              <option key={item} value={item}>
+                {item ? t("Every Minutes", { count: item }) : t("Off")}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-3 mt-5">
+          <button
+            disabled={!webdavInfo?.url || syncing}
+            onClick={sync}
+            className="btn btn-sm"
+          >
+            <RefreshCw className={`w-4 h-4 ${syncing ? "animate-spin" : ""}`} />
+            {t("Sync Now")}
+          </button>
+          <span className="text-sm opacity-70">
+            {t("Last Sync")}:{" "}
+            {syncDate ? new Date(syncDate).toLocaleString() : t("Never")}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
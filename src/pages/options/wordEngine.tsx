@@ -5,7 +5,8 @@
  * - 结果写入 `setting.wordEngineList`。
  */
 import { EngineItem } from "@/types";
-import { defaultSetting, allWordEngineList } from "@/utils/const";
+import { defaultSetting } from "@/utils/const";
+import { allWordEngineList } from "@/api/engines";
 import { useTranslation } from "react-i18next";
 import { CSS } from "@dnd-kit/utilities";
 import { useSortable } from "@dnd-kit/sortable";
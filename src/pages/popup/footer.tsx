@@ -1,22 +1,42 @@
 /**
  * 组件：Popup 底部栏
- * - 展示用户信息、打开设置/生词本、从远端刷新本地生词与备注。
+ * - 展示用户信息、打开设置/生词本、从远端刷新本地生词与备注；配置了 WebDAV 时可立即与 WebDAV 同步；
+ * - 展示今日待复习单词数量，点击进入单词练习；进入完形填空测验与查词历史（未登录也可用）。
  */
 import { setSession } from "@/storage/session";
 import { getSetting } from "@/storage/sync";
-import { ExtensionMessage, Setting } from "@/types";
-import { Settings, ClipboardList, Check, RefreshCcw } from "lucide-react";
+import { Setting } from "@/types";
+import { Settings, ClipboardList, Check, RefreshCcw, GraduationCap, ListChecks, History, CloudCog } from "lucide-react";
 import { wordListUrl, wordListWindowName } from "@/utils/const";
 //import { screenshot } from "@/utils";
 import browser from "webextension-polyfill";
 import Avator from "@/components/Avator";
 import { getMyAllRemarkList, getSwwList } from "@/api";
-import { setLocal } from "@/storage/local";
+import { requestWebDAVPermission, syncWebDAVNow } from "@/api/webdav";
+import { toastManager } from "@/components/Toast";
+import { mergeRemoteRemarks, mergeRemoteWords } from "@/storage/local";
 import { useState } from "react";
+import { useAtom } from "jotai";
+import { dueSwwListAtom, settingAtom } from "@/store";
+import { useTranslation } from "react-i18next";
 let timer: number | null = null;
-export default function PopupFooter({ user }: { user: Setting["userInfo"] }) {
+export default function PopupFooter({
+  user,
+  onPracticeClick,
+  onQuizClick,
+  onHistoryClick,
+}: {
+  user: Setting["userInfo"];
+  onPracticeClick: () => void;
+  onQuizClick: () => void;
+  onHistoryClick: () => void;
+}) {
   const [refetchLoading, setRefetchLoading] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [webdavLoading, setWebdavLoading] = useState(false);
+  const [dueSwwList] = useAtom(dueSwwListAtom);
+  const [setting] = useAtom(settingAtom);
+  const { t } = useTranslation();
   const openOption = async () => {
     browser.runtime.openOptionsPage();
   };
@@ -37,30 +57,52 @@ export default function PopupFooter({ user }: { user: Setting["userInfo"] }) {
   // };
   const refechRemote = async () => {
     setRefetchLoading(true);
-    const res = await Promise.all([getSwwList(), getMyAllRemarkList()]);    
-    if (res[0]?.list instanceof Array) {
-      await setLocal({ swwList: res[0].list });
-    }
-    if (res[1]?.list instanceof Array) {
-      await setLocal({ remarkList: res[1].list });
+    try {
+      const res = await Promise.all([getSwwList(), getMyAllRemarkList()]);
+      // 合并进本地，不覆盖本地独有的复习进度、分组与离线收藏的单词
+      if (res[0]?.list instanceof Array) {
+        await mergeRemoteWords(res[0].list);
+      }
+      if (res[1]?.list instanceof Array) {
+        await mergeRemoteRemarks(res[1].list);
+      }
+    } catch (error) {
+      toastManager.add({ type: "error", msg: t((error as Error).message) });
+      setRefetchLoading(false);
+      return;
     }
     setShowSuccess(true);
     timer = window.setTimeout(() => {
       setShowSuccess(false);
     }, 1500);
 
-    const message: ExtensionMessage = { type: "refreshLocalData" };
-    browser.runtime.sendMessage(message);
-    const [tab] = await browser.tabs.query({active: true, lastFocusedWindow: true});
-    if (tab.id) {
-      browser.tabs.sendMessage(tab.id, message);
-    }
     setRefetchLoading(false);
 
     return () => {
       timer && clearTimeout(timer);
     };
   };
+  const syncWebDAV = async () => {
+    const url = setting.webdavInfo?.url;
+    if (!url || webdavLoading) {
+      return;
+    }
+    if (!(await requestWebDAVPermission(url))) {
+      toastManager.add({ type: "error", msg: t("Permission denied") });
+      return;
+    }
+    setWebdavLoading(true);
+    const res = await syncWebDAVNow();
+    setWebdavLoading(false);
+    if (!res.ok) {
+      toastManager.add({ type: "error", msg: res.error });
+      return;
+    }
+    setShowSuccess(true);
+    timer = window.setTimeout(() => {
+      setShowSuccess(false);
+    }, 1500);
+  };
   return (
     <div className="flex items-center justify-between bg-base-200/80 px-3 py-1 text-[11px]">
       <div onClick={openOption} className="flex items-center cursor-pointer">
@@ -71,6 +113,16 @@ export default function PopupFooter({ user }: { user: Setting["userInfo"] }) {
       </div>
 
       <div className="flex items-center space-x-1">
+        {dueSwwList.length ? (
+          <span
+            data-tip={t("Words due for review today")}
+            onClick={onPracticeClick}
+            className="tooltip tooltip-left flex items-center opacity-50 cursor-pointer"
+          >
+            <GraduationCap width={16} hanging={16} />
+            <span className="ml-[2px]">{dueSwwList.length}</span>
+          </span>
+        ) : null}
         {showSuccess ? (
           <Check className="opacity-50" width={16} hanging={16} />
         ) : null}
@@ -89,6 +141,21 @@ export default function PopupFooter({ user }: { user: Setting["userInfo"] }) {
             />
           </span>
         ) : null}
+        {!showSuccess && setting.webdavInfo?.url ? (
+          <span
+            data-tip={t("Sync with WebDAV")}
+            className="tooltip tooltip-left"
+          >
+            <CloudCog
+              onClick={syncWebDAV}
+              className={`opacity-50 cursor-pointer ${
+                webdavLoading ? "animate-pulse" : ""
+              }`}
+              width={16}
+              hanging={16}
+            />
+          </span>
+        ) : null}
 
         {/* <Scissors
           onClick={captureScreen}
@@ -96,6 +163,28 @@ export default function PopupFooter({ user }: { user: Setting["userInfo"] }) {
           width={16}
           hanging={16}
         /> */}
+        <span
+          data-tip={t("Cloze Quiz")}
+          className="tooltip tooltip-left"
+        >
+          <ListChecks
+            onClick={onQuizClick}
+            className="opacity-50 cursor-pointer"
+            width={16}
+            hanging={16}
+          />
+        </span>
+        <span
+          data-tip={t("Lookup History")}
+          className="tooltip tooltip-left"
+        >
+          <History
+            onClick={onHistoryClick}
+            className="opacity-50 cursor-pointer"
+            width={16}
+            hanging={16}
+          />
+        </span>
         <ClipboardList
           onClick={openWordList}
           className={`${user ? "" : "hidden"} opacity-50 cursor-pointer`}
@@ -16,6 +16,9 @@ import { ToastContainer } from "@/components/Toast";
 import PopupInput from "@/components/PopupInput";
 import "@/i18n.ts";
 import SearchResult from "@/components/SearchResult";
+import Practice from "@/components/Practice";
+import Quiz from "@/components/Quiz";
+import History from "@/components/History";
 import { useTranslation } from "react-i18next";
 import { defaultSetting } from "@/utils/const";
 
@@ -49,6 +52,9 @@ export default function App() {
   /** 搜索文本状态 */
   const [searchText, setSearchText] = useState("");
   
+  /** 当前面板：查词 / 单词练习 / 完形填空测验 / 查词历史 */
+  const [panel, setPanel] = useState<"search" | "practice" | "quiz" | "history">("search");
+  
   /** 用户信息状态 */
   const [user, setUser] = useState<Setting["userInfo"] | null>(null);
   
@@ -112,7 +118,7 @@ export default function App() {
       
       <div>
         {/* ===================== 搜索输入区域 ===================== */}
-        <div className={`p-3`}>
+        <div className={`p-3 ${panel !== "search" ? "hidden" : ""}`}>
           {/* 搜索输入组件 */}
           <PopupInput onSubmit={handleInputSubmit} />
           
@@ -122,8 +128,37 @@ export default function App() {
           </div>
         </div>
         
+        {/* ===================== 单词练习区域 ===================== */}
+        {panel === "practice" && (
+          <div className="p-3">
+            <Practice onClose={() => setPanel("search")} />
+          </div>
+        )}
+
+        {/* ===================== 完形填空测验区域 ===================== */}
+        {panel === "quiz" && (
+          <div className="p-3">
+            <Quiz onClose={() => setPanel("search")} />
+          </div>
+        )}
+        
+        {/* ===================== 查词历史区域 ===================== */}
+        {panel === "history" && (
+          <div className="p-3">
+            <History
+              onClose={() => setPanel("search")}
+              className="max-h-[400px]"
+            />
+          </div>
+        )}
+        
         {/* ===================== 底部用户区域 ===================== */}
-        <PopupFooter user={user} />
+        <PopupFooter
+          user={user}
+          onPracticeClick={() => setPanel("practice")}
+          onQuizClick={() => setPanel("quiz")}
+          onHistoryClick={() => setPanel("history")}
+        />
       </div>
 
       {/* ===================== 收集表单容器 ===================== */}
@@ -0,0 +1,385 @@
+/**
+ * IndexedDB 封装
+ * - 生词本（words）、备注（remarks）、查词历史（history）按条存储，增删改只读写相关记录
+ * - 索引：规范化单词 wordKey、lastEditDate、masteryLevel（生词）、date（历史）、seq（插入顺序）
+ * - 首次打开数据库时把旧版 storage.local 中的数组一次性迁入，之后删除旧数组
+ * - IndexedDB 按页面源隔离，内容脚本中的读取会通过 background 代理到扩展自身的数据库
+ * - 写入操作只在 background 中由 storage/writer 串行执行，其他环境不直接写入
+ */
+import browser from "webextension-polyfill";
+import type { ExtensionMessage } from "@/types";
+import type { CommunityItemType, LookupHistory, Sww } from "@/types/words";
+import { normalizeWord } from "@/utils";
+
+// ===================== 类型定义 =====================
+
+/** 对象仓库与其中记录的类型 */
+export interface DBStores {
+  words: Sww;
+  remarks: CommunityItemType;
+  history: LookupHistory;
+}
+
+export type StoreName = keyof DBStores;
+
+/** 实际存储的记录：附带规范化单词与插入顺序 */
+type DBRecord<T> = T & { wordKey: string; seq: number };
+
+/** 数据库名称 */
+const dbName = "lingo-link";
+
+/** 数据库版本 */
+const dbVersion = 1;
+
+/** 旧版 storage.local 中的数组与对象仓库的对应关系 */
+export const legacyListStores = {
+  swwList: "words",
+  remarkList: "remarks",
+  historyList: "history",
+} as const;
+
+/** 当前是否运行在扩展自身的源中（background、popup、options），内容脚本中为 false */
+export const isExtensionOrigin = /extension/.test(location.protocol);
+
+// ===================== 基础操作 =====================
+
+/**
+ * 将 IDBRequest 包装为 Promise
+ * @param request - IDBRequest
+ * @returns 请求结果
+ */
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * 等待事务完成
+ * @param tx - 事务
+ * @returns Promise<void>
+ */
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * 生成要写入的记录
+ * @param item - 原始数据
+ * @param seq - 插入顺序
+ * @returns 记录
+ */
+const toRecord = <T extends { word: string }>(item: T, seq: number) =>
+  ({ ...item, wordKey: normalizeWord(item.word), seq }) as DBRecord<T>;
+
+/**
+ * 去掉记录中的内部字段
+ * @param record - 记录
+ * @returns 原始数据
+ */
+const fromRecord = <T>(record: DBRecord<T>): T => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { wordKey, seq, ...item } = record;
+  return item as T;
+};
+
+/**
+ * 读取仓库中最大的插入顺序
+ * @param store - 对象仓库
+ * @returns 最大插入顺序，仓库为空时为 0
+ */
+const getMaxSeq = async (store: IDBObjectStore) => {
+  const cursor = await promisify(store.index("seq").openCursor(null, "prev"));
+  return (cursor?.value as DBRecord<unknown> | undefined)?.seq ?? 0;
+};
+
+/**
+ * 把旧版 storage.local 中的数组迁入数据库（可重复执行）
+ * @param db - 数据库
+ */
+const moveLegacyLists = async (db: IDBDatabase) => {
+  const keys = Object.keys(legacyListStores) as (keyof typeof legacyListStores)[];
+  const legacy = await browser.storage.local.get(keys);
+  const exists = keys.filter((key) => Array.isArray(legacy[key]));
+  if (!exists.length) {
+    return;
+  }
+  const tx = db.transaction(Object.values(legacyListStores), "readwrite");
+  for (const key of exists) {
+    const store = tx.objectStore(legacyListStores[key]);
+    let seq = await getMaxSeq(store);
+    (legacy[key] as { word: string }[]).forEach((item) => {
+      store.put(toRecord(item, ++seq));
+    });
+  }
+  await done(tx);
+  await browser.storage.local.remove(exists);
+};
+
+/** 数据库连接（每个运行环境只打开一次） */
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * 打开数据库，首次打开时创建仓库与索引，并迁入旧数据
+ * @returns 数据库
+ */
+const openDB = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, dbVersion);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const words = db.createObjectStore("words", { keyPath: "id" });
+        words.createIndex("wordKey", "wordKey");
+        words.createIndex("lastEditDate", "lastEditDate");
+        words.createIndex("masteryLevel", "masteryLevel");
+        words.createIndex("seq", "seq");
+        const remarks = db.createObjectStore("remarks", { keyPath: "id" });
+        remarks.createIndex("wordKey", "wordKey");
+        remarks.createIndex("lastEditDate", "lastEditDate");
+        remarks.createIndex("seq", "seq");
+        const history = db.createObjectStore("history", { keyPath: "id" });
+        history.createIndex("wordKey", "wordKey");
+        history.createIndex("date", "date");
+        history.createIndex("seq", "seq");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async (db) => {
+      await moveLegacyLists(db);
+      return db;
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// ===================== 记录操作 =====================
+
+/**
+ * 读取仓库中的全部记录
+ * 生词与备注按插入顺序，查词历史按时间倒序（新记录在前）
+ * @param name - 仓库名称
+ * @returns 记录数组
+ */
+export const getAllRecords = async <K extends StoreName>(name: K) => {
+  const db = await openDB();
+  const store = db.transaction(name).objectStore(name);
+  const records = (await promisify(
+    store.index(name === "history" ? "date" : "seq").getAll()
+  )) as DBRecord<DBStores[K]>[];
+  if (name === "history") {
+    records.reverse();
+  }
+  return records.map(fromRecord);
+};
+
+/**
+ * 按单词查询记录（忽略大小写和前后空格）
+ * @param name - 仓库名称
+ * @param word - 单词
+ * @returns 记录数组
+ */
+export const getRecordsByWord = async <K extends StoreName>(name: K, word: string) => {
+  const db = await openDB();
+  const store = db.transaction(name).objectStore(name);
+  const records = (await promisify(
+    store.index("wordKey").getAll(normalizeWord(word))
+  )) as DBRecord<DBStores[K]>[];
+  return records.map(fromRecord);
+};
+
+/**
+ * 新增或覆盖记录，已存在的记录保持原有顺序
+ * @param name - 仓库名称
+ * @param items - 记录数组
+ */
+export const putRecords = async <K extends StoreName>(name: K, items: DBStores[K][]) => {
+  const db = await openDB();
+  const tx = db.transaction(name, "readwrite");
+  const store = tx.objectStore(name);
+  let seq = await getMaxSeq(store);
+  for (const item of items) {
+    const exist = (await promisify(store.get(item.id))) as
+      | DBRecord<DBStores[K]>
+      | undefined;
+    store.put(toRecord(item, exist?.seq ?? ++seq));
+  }
+  await done(tx);
+};
+
+/**
+ * 合并更新已存在的记录（按ID匹配），不存在的记录忽略
+ * - 写入指令经过消息序列化后值为 undefined 的字段会丢失，需要清空字段时使用 replaceExistingRecords
+ * @param name - 仓库名称
+ * @param items - 包含更新信息的记录数组
+ * @returns 更新后的记录
+ */
+export const patchRecords = async <K extends StoreName>(
+  name: K,
+  items: Partial<DBStores[K]>[]
+) => {
+  const db = await openDB();
+  const tx = db.transaction(name, "readwrite");
+  const store = tx.objectStore(name);
+  const updated: DBStores[K][] = [];
+  for (const item of items) {
+    const exist = (await promisify(store.get(item.id!))) as
+      | DBRecord<DBStores[K]>
+      | undefined;
+    if (exist) {
+      const record = toRecord({ ...exist, ...item }, exist.seq);
+      store.put(record);
+      updated.push(fromRecord(record));
+    }
+  }
+  await done(tx);
+  return updated;
+};
+
+/**
+ * 用完整记录替换已存在的记录（按ID匹配），不存在的记录忽略
+ * - 整条替换，新记录中没有的字段（如移出分组后的 deckId）会被清除
+ * @param name - 仓库名称
+ * @param items - 完整记录数组
+ * @returns 更新后的记录
+ */
+export const replaceExistingRecords = async <K extends StoreName>(
+  name: K,
+  items: DBStores[K][]
+) => {
+  const db = await openDB();
+  const tx = db.transaction(name, "readwrite");
+  const store = tx.objectStore(name);
+  const updated: DBStores[K][] = [];
+  for (const item of items) {
+    const exist = (await promisify(store.get(item.id))) as
+      | DBRecord<DBStores[K]>
+      | undefined;
+    if (exist) {
+      const record = toRecord(item, exist.seq);
+      store.put(record);
+      updated.push(fromRecord(record));
+    }
+  }
+  await done(tx);
+  return updated;
+};
+
+/**
+ * 按ID删除记录
+ * @param name - 仓库名称
+ * @param ids - 记录ID数组
+ */
+export const deleteRecords = async (name: StoreName, ids: string[]) => {
+  const db = await openDB();
+  const tx = db.transaction(name, "readwrite");
+  const store = tx.objectStore(name);
+  ids.forEach((id) => store.delete(id));
+  await done(tx);
+};
+
+/**
+ * 删除拼写相同的记录
+ * @param name - 仓库名称
+ * @param word - 单词
+ * @returns 删除的记录ID
+ */
+export const deleteRecordsByWord = async (name: StoreName, word: string) => {
+  const db = await openDB();
+  const tx = db.transaction(name, "readwrite");
+  const store = tx.objectStore(name);
+  const keys = await promisify(
+    store.index("wordKey").getAllKeys(normalizeWord(word))
+  );
+  keys.forEach((key) => store.delete(key));
+  await done(tx);
+  return keys as string[];
+};
+
+/**
+ * 用新的数组替换仓库中的全部记录
+ * @param name - 仓库名称
+ * @param items - 记录数组
+ */
+export const replaceRecords = async <K extends StoreName>(
+  name: K,
+  items: DBStores[K][]
+) => {
+  const db = await openDB();
+  const tx = db.transaction(name, "readwrite");
+  const store = tx.objectStore(name);
+  store.clear();
+  items.forEach((item, index) => store.put(toRecord(item, index + 1)));
+  await done(tx);
+};
+
+/**
+ * 按时间只保留最新的若干条记录（用于查词历史）
+ * @param name - 仓库名称
+ * @param max - 最多保留条数
+ * @returns 删除的记录ID
+ */
+export const trimRecords = async (name: "history", max: number) => {
+  const db = await openDB();
+  const tx = db.transaction(name, "readwrite");
+  const store = tx.objectStore(name);
+  const extra = (await promisify(store.count())) - max;
+  const keys =
+    extra > 0 ? await promisify(store.index("date").getAllKeys(null, extra)) : [];
+  keys.forEach((key) => store.delete(key));
+  await done(tx);
+  return keys as string[];
+};
+
+/**
+ * 清空全部仓库
+ */
+export const clearRecords = async () => {
+  const db = await openDB();
+  const names: StoreName[] = ["words", "remarks", "history"];
+  const tx = db.transaction(names, "readwrite");
+  names.forEach((name) => tx.objectStore(name).clear());
+  await done(tx);
+};
+
+// ===================== 对外接口 =====================
+
+/** 可在任意环境调用的读取操作（background 收到内容脚本的请求后执行） */
+export type DBRequest =
+  | { method: "getAllRecords"; args: [name: StoreName] }
+  | { method: "getRecordsByWord"; args: [name: StoreName, word: string] };
+
+/**
+ * 执行数据库读取操作
+ * @param request - 读取操作
+ * @returns 操作结果
+ */
+export const runDBRequest = (request: DBRequest) => {
+  switch (request.method) {
+    case "getAllRecords":
+      return getAllRecords(...request.args);
+    case "getRecordsByWord":
+      return getRecordsByWord(...request.args);
+  }
+};
+
+/**
+ * 调用数据库读取操作：扩展页面中直接执行，内容脚本中交给 background 执行
+ * @param request - 读取操作
+ * @returns 操作结果
+ */
+export const callDB = async (
+  request: DBRequest
+): Promise<Awaited<ReturnType<typeof runDBRequest>>> => {
+  if (isExtensionOrigin) {
+    return runDBRequest(request);
+  }
+  const message: ExtensionMessage = { type: "db", payload: request };
+  return browser.runtime.sendMessage(message);
+};
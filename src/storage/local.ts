@@ -1,31 +1,77 @@
 /**
- * chrome.storage.local 封装
- * - 保存与设备相关的本地数据（生词本、社区备注、本地缓存模型列表等）
- * - 提供单词和备注的CRUD操作
- * - 使用Promise封装chrome.storage.local API，支持异步操作
+ * 本地数据封装
+ * - 保存与设备相关的本地数据（生词本、生词本分组、社区备注、查词历史、本地缓存模型列表等）
+ * - 生词本、备注与查词历史存放在 IndexedDB（见 storage/db）中按条读写，其余数据存放在 chrome.storage.local
+ * - getLocal/setLocal/clearLocal 对调用方屏蔽两者的区别，单词和备注的CRUD只读写相关记录
+ * - 生词本、备注、查词历史与生词本分组的写入经 storage/writer 在 background 中串行执行，冲突或失败时抛出错误
  */
-import type { CommunityItemType, Sww } from "@/types/words";
+import type { CommunityItemType, Deck, LookupHistory, Sww } from "@/types/words";
 import { Local } from "@/types";
-import { isSameWord } from "@/utils";
 import browser from "webextension-polyfill";
+import type { Storage } from "webextension-polyfill";
+import { DBStores, StoreName, callDB, legacyListStores } from "./db";
+import { changeKey, write } from "./writer";
 
 // ===================== 本地存储核心操作 =====================
 
+/** 存放在 IndexedDB 中的数据 */
+const dbKeys = Object.keys(legacyListStores) as (keyof typeof legacyListStores)[];
+
+/**
+ * 读取 IndexedDB 仓库中的全部记录
+ * @param name - 仓库名称
+ * @returns 记录数组
+ */
+const getRecords = <K extends StoreName>(name: K) => {
+  return callDB({ method: "getAllRecords", args: [name] }) as Promise<DBStores[K][]>;
+}
+
 /**
  * 获取本地存储的所有数据
  * @returns Promise<Local> 包含完整本地数据的对象
  */
 export const getLocal = async(): Promise<Local>=>{
-  return await browser.storage.local.get();
+  const [local, swwList, remarkList, historyList] = await Promise.all([
+    browser.storage.local.get(),
+    getRecords("words"),
+    getRecords("remarks"),
+    getRecords("history"),
+  ]);
+  delete local[changeKey];
+  return {...local, swwList, remarkList, historyList};
 }
 
 /**
  * 设置本地存储数据
+ * 生词本、备注与查词历史整体替换 IndexedDB 中的记录，其余数据写入 storage.local
  * @param param - Partial<Local> 要设置的本地数据
  * @returns Promise<void>
  */
 export const setLocal = async(param: Partial<Local>)=>{
-  return browser.storage.local.set(param);
+  const rest: Partial<Local> = {...param};
+  const tasks: Promise<unknown>[] = [];
+  dbKeys.forEach((key) => delete rest[key]);
+  if (param.swwList) {
+    tasks.push(write({action: "replaceWords", payload: param.swwList}));
+  }
+  if (param.remarkList) {
+    tasks.push(write({action: "replaceRemarks", payload: param.remarkList}));
+  }
+  if (param.historyList) {
+    tasks.push(write({action: "replaceHistory", payload: param.historyList}));
+  }
+  if (Object.keys(rest).length) {
+    tasks.push(browser.storage.local.set(rest));
+  }
+  await Promise.all(tasks);
+}
+
+/**
+ * 只读取 storage.local 中的数据（不读取 IndexedDB）
+ * @returns Promise<Local> storage.local 中的数据
+ */
+const getStorageLocal = async(): Promise<Local>=>{
+  return await browser.storage.local.get();
 }
 
 /**
@@ -33,49 +79,72 @@ export const setLocal = async(param: Partial<Local>)=>{
  * @returns Promise<void>
  */
 export const clearLocal = async()=>{
-  return browser.storage.local.clear();
+  await Promise.all([browser.storage.local.clear(), write({action: "clearAll"})]);
 }
 
 // ===================== 单词管理操作 =====================
 
 /**
- * 添加新单词到生词本
+ * 添加新单词到生词本，已有同拼写的单词时视为冲突
  * @param sww - Sww 要添加的单词对象
  * @returns Promise<void>
  */
 export const addWord = async (sww: Sww) => {
-  const swwList = (await getLocal())?.swwList ?? [];
-  setLocal({swwList: [...swwList, sww]})
+  return write({action: "addWord", payload: sww});
 };
 
 /**
- * 更新现有单词信息
- * @param sww - Sww 包含更新信息的单词对象
+ * 更新现有单词信息（按ID匹配，整条替换，可以修改拼写）
+ * @param sww - Sww 完整的单词对象，没有的字段会被清除
  * @returns Promise<void>
  */
 export const updateWord = async(sww: Sww) => {
-  const swwList = (await getLocal())?.swwList ?? [];
-  setLocal({swwList:(
-    swwList.map((item) => {
-      if (isSameWord(item.word, sww.word)) {
-        // 找到匹配的单词，合并新数据
-        return { ...item, ...sww  };
-      } else {
-        return item;
-      }
-    })
-  )});
+  return write({action: "updateWord", payload: sww});
 };
 
 /**
- * 删除指定单词
+ * 删除指定单词（按拼写匹配，忽略大小写）
  * @param param - { word: string } 要删除的单词
  * @returns Promise<void>
  */
 export const removeWord = async({ word }: { word: string; }) => {
-  const swwList = (await getLocal())?.swwList ?? [];
-  // 过滤掉匹配的单词
-  setLocal({swwList: (swwList.filter((item) => !isSameWord(item.word, word)))});
+  return write({action: "removeWord", payload: word});
+};
+
+/**
+ * 批量添加单词（导入时使用，在一个事务中写入）
+ * @param swws - Sww[] 要添加的单词对象数组
+ * @returns Promise<void>
+ */
+export const addWords = async (swws: Sww[]) => {
+  return write({action: "addWords", payload: swws});
+};
+
+/**
+ * 把后端的生词本合并进本地（按ID或拼写匹配，远端较新时更新），本地独有的字段与单词保留
+ * @param swws - Sww[] 后端的单词列表
+ * @returns Promise<void>
+ */
+export const mergeRemoteWords = async (swws: Sww[]) => {
+  return write({action: "mergeWords", payload: swws});
+};
+
+/**
+ * 批量更新单词（按ID匹配，整条替换）
+ * @param swws - Sww[] 完整的单词对象数组，没有的字段会被清除
+ * @returns Promise<void>
+ */
+export const updateWords = async(swws: Sww[]) => {
+  return write({action: "updateWords", payload: swws});
+};
+
+/**
+ * 批量删除单词（按ID匹配）
+ * @param ids - string[] 要删除的单词ID
+ * @returns Promise<void>
+ */
+export const removeWords = async(ids: string[]) => {
+  return write({action: "removeWords", payload: ids});
 };
 
 // ===================== 单词列表查询操作 =====================
@@ -85,7 +154,7 @@ export const removeWord = async({ word }: { word: string; }) => {
  * @returns Promise<Sww[]> 单词列表
  */
 export const getList = async () => {
-  return (await getLocal()).swwList ?? []
+  return getRecords("words");
 }
 
 /**
@@ -93,7 +162,7 @@ export const getList = async () => {
  * @returns Promise<CommunityItemType[]> 备注列表
  */
 export const getRemarkList = async () => {
-  return (await getLocal()).remarkList ?? []
+  return getRecords("remarks");
 }
 
 // ===================== 备注管理操作 =====================
@@ -104,8 +173,25 @@ export const getRemarkList = async () => {
  * @returns Promise<void>
  */
 export const addRemark = async (item: CommunityItemType) => {
-  const remarkList = (await getLocal())?.remarkList ?? [];
-  setLocal({remarkList: [...remarkList, item]})
+  return write({action: "addRemarks", payload: [item]});
+};
+
+/**
+ * 把后端的备注合并进本地（按ID匹配，远端较新时更新），本地独有的备注保留
+ * @param items - CommunityItemType[] 后端的备注列表
+ * @returns Promise<void>
+ */
+export const mergeRemoteRemarks = async (items: CommunityItemType[]) => {
+  return write({action: "mergeRemarks", payload: items});
+};
+
+/**
+ * 批量添加备注（导入时使用，在一个事务中写入）
+ * @param items - CommunityItemType[] 要添加的备注对象数组
+ * @returns Promise<void>
+ */
+export const addRemarks = async (items: CommunityItemType[]) => {
+  return write({action: "addRemarks", payload: items});
 };
 
 /**
@@ -114,17 +200,7 @@ export const addRemark = async (item: CommunityItemType) => {
  * @returns Promise<void>
  */
 export const updateRemark = async(item: CommunityItemType) => {
-  const remarkList = (await getLocal())?.remarkList ?? [];
-  setLocal({remarkList:(
-    remarkList.map((im) => {
-      if (item.id === im.id) {
-        // 找到匹配的备注，合并新数据
-        return { ...im, ...item  };
-      } else {
-        return im;
-      }
-    })
-  )});
+  return write({action: "updateRemark", payload: item});
 };
 
 /**
@@ -133,7 +209,96 @@ export const updateRemark = async(item: CommunityItemType) => {
  * @returns Promise<void>
  */
 export const removeRemark = async({ id }: { id: string; }) => {
-  const remarkList = (await getLocal())?.remarkList ?? [];
-  // 过滤掉匹配的备注
-  setLocal({remarkList: (remarkList.filter((item) => item.id !== id))});
+  return write({action: "removeRemark", payload: id});
+};
+
+// ===================== 生词本分组操作 =====================
+
+/**
+ * 获取生词本分组列表
+ * @returns Promise<Deck[]> 分组列表
+ */
+export const getDeckList = async () => {
+  return (await getStorageLocal()).deckList ?? []
+}
+
+/**
+ * 添加生词本分组
+ * @param deck - Deck 分组
+ * @returns Promise<void>
+ */
+export const addDeck = async (deck: Deck) => {
+  return write({action: "addDeck", payload: deck});
+};
+
+/**
+ * 更新生词本分组
+ * @param deck - Deck 包含更新信息的分组
+ * @returns Promise<void>
+ */
+export const updateDeck = async (deck: Deck) => {
+  return write({action: "updateDeck", payload: deck});
+};
+
+/**
+ * 删除生词本分组，分组内的单词变为未分组
+ * @param param - { id: string } 要删除的分组ID
+ * @returns Promise<void>
+ */
+export const removeDeck = async ({ id }: { id: string; }) => {
+  return write({action: "removeDeck", payload: id});
+};
+
+/**
+ * 订阅生词本分组的变化（包括当前页面发起的写入）
+ * @param listener - 回调，参数为新的分组列表
+ * @returns 取消订阅的函数
+ */
+export const onDeckListChange = (listener: (deckList: Deck[]) => void) => {
+  const handler = (changes: Storage.StorageAreaOnChangedChangesType) => {
+    if (changes.deckList) {
+      listener((changes.deckList.newValue as Deck[] | undefined) ?? []);
+    }
+  };
+  browser.storage.local.onChanged.addListener(handler);
+  return () => browser.storage.local.onChanged.removeListener(handler);
+};
+
+// ===================== 查词历史操作 =====================
+
+/** 查词历史最多保留条数，超出后丢弃最早的记录 */
+export const maxHistoryCount = 500;
+
+/**
+ * 获取查词历史（新记录在前）
+ * @returns Promise<LookupHistory[]> 查词历史
+ */
+export const getHistoryList = async () => {
+  return getRecords("history");
+}
+
+/**
+ * 添加一条查词历史，超出上限时删除最早的记录
+ * @param item - LookupHistory 查词记录
+ * @returns Promise<void>
+ */
+export const addHistory = async (item: LookupHistory) => {
+  return write({action: "addHistory", payload: {item, max: maxHistoryCount}});
+};
+
+/**
+ * 删除指定查词历史
+ * @param param - { id: string } 要删除的记录ID
+ * @returns Promise<void>
+ */
+export const removeHistory = async({ id }: { id: string; }) => {
+  return write({action: "removeHistory", payload: id});
+};
+
+/**
+ * 清空查词历史
+ * @returns Promise<void>
+ */
+export const clearHistory = async() => {
+  return setLocal({historyList: []});
 };
@@ -0,0 +1,222 @@
+/**
+ * 存储结构版本与迁移
+ * - storage.sync 与 storage.local 各自记录 schemaVersion，按版本顺序执行尚未执行的迁移
+ * - 迁移在 background 的 runtime.onInstalled 中执行（安装与升级时）
+ * - 引擎列表合并是幂等的，每次执行迁移后都会进行，保证新版本新增的引擎对老用户可见
+ * - 恢复旧备份后会从备份的版本重新执行迁移，因此每个迁移都需要可重复执行
+ * - 生词本、备注与查词历史迁入 IndexedDB 由 storage/db 在首次打开数据库时完成
+ * - 旧版本保存在同步存储中的大字段（提示词、data URL、超过单项配额的值等）每次执行迁移后移到本地
+ * - 设置中的引擎密钥每次执行迁移后都会移入本地密钥库（见 storage/secret），密钥库未解锁时留到解锁后
+ */
+import Browser from "webextension-polyfill";
+import type { AnkiInfo, EngineItem, Local, OuluInfo, Setting } from "@/types";
+import type { SyncProviderId } from "@/api/sync";
+import {
+  allSentenceEngineList,
+  allWordEngineList,
+  getProfileEngineList,
+} from "@/api/engines";
+import { getCreateDate } from "@/utils/stats";
+import { getSetting, moveLocalSettings, setSetting } from "./sync";
+import { getLocal, setLocal } from "./local";
+import { moveLegacySecrets } from "./secret";
+
+// ===================== 类型定义 =====================
+
+/** 迁移的执行结果：需要写入的字段与需要删除的字段 */
+interface MigrationResult<T> {
+  update?: Partial<T>;
+  remove?: string[];
+}
+
+/** 单个迁移 */
+interface Migration<T> {
+  /** 执行后的版本号，按顺序递增 */
+  version: number;
+  /** 迁移说明 */
+  description: string;
+  migrate: (data: T) => MigrationResult<T>;
+}
+
+// ===================== 引擎列表 =====================
+
+/**
+ * 将默认引擎列表合并进已保存的引擎列表
+ * - 保留用户的顺序与启用状态，名称等静态信息以默认列表为准
+ * - 去掉已下线的引擎，新增的引擎追加到末尾
+ * @param stored - 已保存的引擎列表
+ * @param defaults - 默认引擎列表
+ * @returns 合并后的引擎列表
+ */
+export const mergeEngineList = (
+  stored: EngineItem[],
+  defaults: EngineItem[]
+) => {
+  const kept = stored
+    .filter((item) => defaults.some((im) => im.value === item.value))
+    .map((item) => ({
+      ...defaults.find((im) => im.value === item.value)!,
+      checked: item.checked,
+    }));
+  const added = defaults.filter(
+    (item) => !stored.some((im) => im.value === item.value)
+  );
+  return [...kept, ...added];
+};
+
+/**
+ * 合并已保存的单词/句子引擎列表，未保存过的列表保持未设置（使用默认列表）
+ * - 接口配置（Setting.openAIProfiles）作为引擎合并进两个列表，已删除的配置从列表中去掉
+ * - 有接口配置但未保存过列表时，以默认列表为基础生成
+ * @param setting - 设置
+ * @returns 需要写入的引擎列表
+ */
+export const mergeEngineLists = (setting: Setting): Partial<Setting> => {
+  const update: Partial<Setting> = {};
+  const profileEngines = getProfileEngineList(setting.openAIProfiles);
+  if (setting.wordEngineList || profileEngines.length) {
+    update.wordEngineList = mergeEngineList(
+      setting.wordEngineList ?? allWordEngineList,
+      [...allWordEngineList, ...profileEngines]
+    );
+  }
+  if (setting.sentenceEngineList || profileEngines.length) {
+    update.sentenceEngineList = mergeEngineList(
+      setting.sentenceEngineList ?? allSentenceEngineList,
+      [...allSentenceEngineList, ...profileEngines]
+    );
+  }
+  return update;
+};
+
+// ===================== 迁移列表 =====================
+
+/** storage.sync（设置）的迁移，按版本顺序排列 */
+const syncMigrations: Migration<Setting>[] = [
+  {
+    version: 1,
+    description: "删除已废弃的 availableEngines",
+    migrate: () => ({ remove: ["availableEngines"] }),
+  },
+  {
+    version: 2,
+    description: "将新增引擎合并进已保存的引擎列表",
+    migrate: (setting) => ({ update: mergeEngineLists(setting) }),
+  },
+  {
+    version: 3,
+    description: "欧路/Anki 的启用开关改为已启用的同步目标列表",
+    migrate: (setting) => {
+      if (setting.syncProviders) {
+        return {};
+      }
+      const { open: ouluOpen, ...ouluInfo } = (setting.ouluInfo ?? {}) as OuluInfo & { open?: boolean };
+      const { open: ankiOpen, ...ankiInfo } = (setting.ankiInfo ?? {}) as AnkiInfo & { open?: boolean };
+      const syncProviders: SyncProviderId[] = ["mywords"];
+      if (ouluOpen) {
+        syncProviders.push("oulu");
+      }
+      if (ankiOpen) {
+        syncProviders.push("anki");
+      }
+      return {
+        update: {
+          syncProviders,
+          ...(setting.ouluInfo ? { ouluInfo } : {}),
+          ...(setting.ankiInfo ? { ankiInfo } : {}),
+        },
+      };
+    },
+  },
+];
+
+/** storage.local（本地数据）的迁移，按版本顺序排列 */
+const localMigrations: Migration<Local>[] = [
+  {
+    version: 1,
+    description: "为旧单词补充收藏时间",
+    migrate: (local) =>
+      local.swwList
+        ? {
+            update: {
+              swwList: local.swwList.map((item) => ({
+                ...item,
+                createDate: getCreateDate(item),
+              })),
+            },
+          }
+        : {},
+  },
+];
+
+/** 当前设置结构版本 */
+export const syncSchemaVersion = syncMigrations.length;
+
+/** 当前本地数据结构版本 */
+export const localSchemaVersion = localMigrations.length;
+
+// ===================== 执行迁移 =====================
+
+/**
+ * 依次执行尚未执行的迁移，返回累计的写入与删除
+ * @param data - 当前数据
+ * @param migrations - 迁移列表
+ * @returns 累计结果，没有需要执行的迁移时为 undefined
+ */
+const applyMigrations = <T extends { schemaVersion?: number }>(
+  data: T,
+  migrations: Migration<T>[]
+) => {
+  const pending = migrations.filter(
+    (item) => item.version > (data.schemaVersion ?? 0)
+  );
+  if (!pending.length) {
+    return;
+  }
+  let current = data;
+  const remove = new Set<string>();
+  let update: Partial<T> = {};
+  pending.forEach((item) => {
+    const result = item.migrate(current);
+    result.remove?.forEach((key) => {
+      remove.add(key);
+      delete (update as Record<string, unknown>)[key];
+    });
+    update = { ...update, ...result.update };
+    current = { ...current, ...result.update };
+    result.remove?.forEach((key) => {
+      delete (current as Record<string, unknown>)[key];
+    });
+  });
+  return {
+    update: { ...update, schemaVersion: pending[pending.length - 1].version },
+    remove: [...remove],
+  };
+};
+
+/**
+ * 执行 storage.sync 与 storage.local 的迁移
+ * 之后总是合并一次引擎列表，使新增引擎无需额外的迁移即可出现
+ */
+export const runMigrations = async () => {
+  const [setting, local] = await Promise.all([getSetting(), getLocal()]);
+
+  const syncResult = applyMigrations(setting, syncMigrations);
+  if (syncResult) {
+    if (syncResult.remove.length) {
+      await Browser.storage.sync.remove(syncResult.remove);
+    }
+    await setSetting(syncResult.update);
+  }
+  await moveLocalSettings();
+  await setSetting(mergeEngineLists(await getSetting()));
+  await moveLegacySecrets();
+
+  const localResult = applyMigrations(local, localMigrations);
+  if (localResult) {
+    if (localResult.remove.length) {
+      await Browser.storage.local.remove(localResult.remove);
+    }
+    await setLocal(localResult.update);
+  }
+};
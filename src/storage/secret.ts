@@ -0,0 +1,386 @@
+/**
+ * 本地密钥库
+ * - 引擎的 API Key 等密钥只保存在当前设备的 chrome.storage.local（secretVault），不随设置同步到其他设备
+ * - 可用口令加密：PBKDF2 派生 AES-GCM 密钥，解锁后密钥保存在 chrome.storage.session，浏览器关闭后需重新解锁
+ * - 引擎统一通过 getSecret 读取密钥；内容脚本无法访问 storage.session，由 background 代为读取
+ * - 旧版本保存在设置（storage.sync）中的密钥由 moveLegacySecrets 复制到密钥库；同步中的旧密钥保留，
+ *   以便其他设备迁移，用户确认所有设备都已迁移后再用 removeLegacySecrets 删除
+ */
+import browser from "webextension-polyfill";
+import type { ExtensionMessage, SecretVault, Secrets, Setting } from "@/types";
+import { isExtensionOrigin } from "./db";
+import { getSession, setSession } from "./session";
+
+// ===================== 类型定义 =====================
+
+/** 密钥库状态：未加密 / 已加密且已解锁 / 已加密且未解锁 */
+export type SecretState = "plain" | "unlocked" | "locked";
+
+/** 固定的密钥字段（接口配置的密钥以 `profile:<配置ID>` 为键，见 api/openAIProfile） */
+export const secretKeys: (keyof Secrets)[] = [
+  "openAIKey",
+  "geminiKey",
+  "moonShotKey",
+  "wenxinToken",
+  "deepSeekApiKey",
+  "customAIKey",
+  "screenshotToken",
+  "webdavPassword",
+];
+
+/** 保存密钥库的 storage.local 键 */
+const vaultKey = "secretVault";
+
+/** PBKDF2 迭代次数 */
+const iterations = 200000;
+
+// ===================== 加密 =====================
+
+/**
+ * 字节转 base64
+ * @param bytes - 字节
+ * @returns base64 字符串
+ */
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+/**
+ * base64 转字节
+ * @param text - base64 字符串
+ * @returns 字节
+ */
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+/**
+ * 由口令派生加密密钥
+ * @param passphrase - 口令
+ * @param salt - 盐
+ * @returns AES-GCM 密钥
+ */
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"]
+  );
+};
+
+/**
+ * 读取已解锁的密钥
+ * @returns AES-GCM 密钥，未解锁时为 undefined
+ */
+const getSessionKey = async () => {
+  const { secretKey } = await getSession();
+  if (!secretKey) {
+    return;
+  }
+  return crypto.subtle.importKey("raw", fromBase64(secretKey), "AES-GCM", true, [
+    "encrypt",
+    "decrypt",
+  ]);
+};
+
+/**
+ * 保存已解锁的密钥到当前会话
+ * @param key - AES-GCM 密钥
+ */
+const setSessionKey = async (key: CryptoKey) => {
+  await setSession({
+    secretKey: toBase64(await crypto.subtle.exportKey("raw", key)),
+  });
+};
+
+/**
+ * 加密密钥
+ * @param secrets - 密钥
+ * @param key - AES-GCM 密钥
+ * @param salt - 派生密钥使用的盐（base64）
+ * @returns 加密的密钥库
+ */
+const encrypt = async (
+  secrets: Secrets,
+  key: CryptoKey,
+  salt: string
+): Promise<SecretVault> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(secrets))
+  );
+  return { encrypted: true, salt, iv: toBase64(iv), data: toBase64(data) };
+};
+
+/**
+ * 解密密钥
+ * @param vault - 加密的密钥库
+ * @param key - AES-GCM 密钥
+ * @returns 密钥
+ * @throws 密钥不正确时抛出错误
+ */
+const decrypt = async (
+  vault: Extract<SecretVault, { encrypted: true }>,
+  key: CryptoKey
+): Promise<Secrets> => {
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(vault.iv) },
+    key,
+    fromBase64(vault.data)
+  );
+  return JSON.parse(new TextDecoder().decode(data));
+};
+
+// ===================== 读写 =====================
+
+/**
+ * 读取密钥库
+ * @returns 密钥库，未保存过时为空的未加密密钥库
+ */
+const getVault = async (): Promise<SecretVault> => {
+  const res = await browser.storage.local.get(vaultKey);
+  return res[vaultKey] ?? { encrypted: false, data: {} };
+};
+
+/**
+ * 读取全部密钥（在扩展页面与 background 中直接读取）
+ * @returns 密钥，未解锁时为 undefined
+ */
+const readSecrets = async () => {
+  const vault = await getVault();
+  if (!vault.encrypted) {
+    return vault.data;
+  }
+  const key = await getSessionKey();
+  return key ? decrypt(vault, key) : undefined;
+};
+
+/**
+ * 读取全部密钥
+ * @returns 密钥，加密且未解锁时为空对象
+ */
+export const getSecrets = async (): Promise<Secrets> => {
+  if (isExtensionOrigin) {
+    return (await readSecrets()) ?? {};
+  }
+  const message: ExtensionMessage = { type: "secrets" };
+  return (await browser.runtime.sendMessage(message).catch(() => undefined)) ?? {};
+};
+
+/**
+ * 读取单个密钥（引擎统一通过此方法读取）
+ * @param key - 密钥字段
+ * @returns 密钥，未设置或未解锁时为 undefined
+ */
+export const getSecret = async <K extends keyof Secrets>(key: K) => {
+  return (await getSecrets())[key];
+};
+
+/**
+ * 更新密钥，空字符串表示删除
+ * @param update - 需要更新的密钥
+ * @throws 密钥库已加密且未解锁时抛出错误
+ */
+export const setSecrets = async (update: Partial<Secrets>) => {
+  const vault = await getVault();
+  const secrets = await readSecrets();
+  if (!secrets) {
+    throw new Error("Secrets are locked");
+  }
+  const next: Secrets = { ...secrets, ...update };
+  (Object.keys(next) as (keyof Secrets)[]).forEach((key) => {
+    if (!next[key]) {
+      delete next[key];
+    }
+  });
+  const key = vault.encrypted ? await getSessionKey() : undefined;
+  await browser.storage.local.set({
+    [vaultKey]:
+      vault.encrypted && key
+        ? await encrypt(next, key, vault.salt)
+        : { encrypted: false, data: next },
+  });
+};
+
+/**
+ * 读取密钥库状态
+ * @returns 密钥库状态
+ */
+export const getSecretState = async (): Promise<SecretState> => {
+  const vault = await getVault();
+  if (!vault.encrypted) {
+    return "plain";
+  }
+  return (await getSessionKey()) ? "unlocked" : "locked";
+};
+
+/**
+ * 订阅密钥库的变化（包括加密、解锁与锁定）
+ * @param listener - 回调
+ * @returns 取消订阅的函数
+ */
+export const onSecretChange = (listener: () => void) => {
+  const handler = (changes: Record<string, unknown>, areaName: string) => {
+    if (
+      (areaName === "local" && vaultKey in changes) ||
+      (areaName === "session" && "secretKey" in changes)
+    ) {
+      listener();
+    }
+  };
+  browser.storage.onChanged.addListener(handler);
+  return () => browser.storage.onChanged.removeListener(handler);
+};
+
+// ===================== 加密管理 =====================
+
+/**
+ * 用口令加密密钥库，并在当前会话中保持解锁
+ * @param passphrase - 口令
+ * @throws 密钥库已加密时抛出错误
+ */
+export const enableEncryption = async (passphrase: string) => {
+  const vault = await getVault();
+  if (vault.encrypted) {
+    throw new Error("Secrets are already encrypted");
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt);
+  await setSessionKey(key);
+  await browser.storage.local.set({
+    [vaultKey]: await encrypt(vault.data, key, toBase64(salt)),
+  });
+};
+
+/**
+ * 用口令解锁密钥库
+ * @param passphrase - 口令
+ * @throws 口令错误时抛出错误
+ */
+export const unlockSecrets = async (passphrase: string) => {
+  const vault = await getVault();
+  if (!vault.encrypted) {
+    return;
+  }
+  const key = await deriveKey(passphrase, fromBase64(vault.salt));
+  try {
+    await decrypt(vault, key);
+  } catch (error) {
+    throw new Error("Wrong passphrase");
+  }
+  await setSessionKey(key);
+  await moveLegacySecrets();
+};
+
+/**
+ * 锁定密钥库（清除当前会话中的密钥）
+ */
+export const lockSecrets = async () => {
+  await browser.storage.session.remove("secretKey");
+};
+
+/**
+ * 取消加密，以明文保存密钥
+ * @throws 密钥库未解锁时抛出错误
+ */
+export const disableEncryption = async () => {
+  const secrets = await readSecrets();
+  if (!secrets) {
+    throw new Error("Secrets are locked");
+  }
+  await browser.storage.local.set({
+    [vaultKey]: { encrypted: false, data: secrets },
+  });
+  await lockSecrets();
+};
+
+/**
+ * 清空密钥库（忘记口令时使用，之后需重新填写密钥）
+ */
+export const resetSecrets = async () => {
+  await browser.storage.local.remove(vaultKey);
+  await lockSecrets();
+};
+
+// ===================== 迁移 =====================
+
+/**
+ * 读取旧版本保存在设置（storage.sync）中的密钥（包括 webdavInfo 中的 WebDAV 密码）
+ * @returns 旧密钥，只包含存在的字段
+ */
+const getLegacySecrets = async (): Promise<Secrets> => {
+  const legacy: Secrets & Pick<Setting, "webdavInfo"> =
+    await browser.storage.sync.get([...secretKeys, "webdavInfo"]);
+  const { webdavInfo, ...secrets } = legacy;
+  return webdavInfo?.password
+    ? { ...secrets, webdavPassword: webdavInfo.password }
+    : secrets;
+};
+
+/**
+ * 删除设置（storage.sync）中的旧密钥与 WebDAV 密码
+ */
+const removeSyncedSecrets = async () => {
+  await browser.storage.sync.remove(secretKeys);
+  const { webdavInfo }: Pick<Setting, "webdavInfo"> =
+    await browser.storage.sync.get("webdavInfo");
+  if (webdavInfo?.password !== undefined) {
+    const rest = { ...webdavInfo };
+    delete rest.password;
+    await browser.storage.sync.set({ webdavInfo: rest });
+  }
+};
+
+/**
+ * 把旧版本保存在设置（storage.sync）中的密钥移到密钥库，已有的密钥不会被覆盖
+ * - 写入密钥库成功后删除同步中的旧密钥，避免继续以明文同步
+ * - 密钥库已加密且未解锁时暂不迁移，解锁后在设置页中迁移
+ */
+export const moveLegacySecrets = async () => {
+  const legacy = await getLegacySecrets();
+  const keys = Object.keys(legacy) as (keyof Secrets)[];
+  if (!keys.length) {
+    return;
+  }
+  const secrets = await readSecrets();
+  if (!secrets) {
+    return;
+  }
+  const update: Secrets = {};
+  keys.forEach((key) => {
+    if (!secrets[key]) {
+      update[key] = legacy[key];
+    }
+  });
+  if (Object.keys(update).length) {
+    await setSecrets(update);
+  }
+  await removeSyncedSecrets();
+};
+
+/**
+ * 是否还有保存在设置（storage.sync）中的旧密钥（密钥库未解锁、尚未迁移时）
+ * @returns 是否有旧密钥
+ */
+export const hasLegacySecrets = async () =>
+  Object.keys(await getLegacySecrets()).length > 0;
+
+/**
+ * 立即迁移保存在设置（storage.sync）中的旧密钥（密钥库解锁后由用户触发）
+ * @throws 密钥库已加密且未解锁时抛出错误
+ */
+export const removeLegacySecrets = async () => {
+  if (!(await readSecrets())) {
+    throw new Error("Secrets are locked");
+  }
+  await moveLegacySecrets();
+};
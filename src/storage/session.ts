@@ -13,6 +13,8 @@ import Browser from "webextension-polyfill";
 export type SessionStorageInterface = {
   /** 是否显示登录弹窗 */
   showLogin?: boolean,
+  /** 解锁后的密钥库密钥（base64），浏览器关闭后需重新输入口令 */
+  secretKey?: string,
 }
 
 // ===================== Session存储核心操作 =====================
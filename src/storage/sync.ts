@@ -4,36 +4,237 @@
  * - 数据会在用户登录的多个设备间自动同步
  * - 存储容量有限制，适合存储用户的偏好设置
  * - 与local不同，数据不会因设备重启而丢失
+ * - 较大或二进制的字段（提示词、外部链接、欧路生词本列表、data URL 图标、超过单项配额的值）保存在
+ *   storage.local 的 localSetting 中，不同步；getSetting 读取时合并两处，调用方无需区分
+ * - 超出同步配额时 setSetting 抛出错误，由调用方提示
+ * - 写入都交给 background 串行执行，多个页面同时写入时 localSetting 的读改写不会互相覆盖
+ * - moveLocalSettings 把旧版本保存在 storage.sync 中的大字段移到本地（迁移时执行）
  */
-import { Setting } from "@/types";
+import type { ExtensionMessage, Setting } from "@/types";
 import Browser from "webextension-polyfill";
 
+// ===================== 配额 =====================
+
+/** storage.sync 总配额（字节） */
+export const syncQuotaBytes = 102400;
+
+/** storage.sync 单项配额（字节） */
+const syncQuotaBytesPerItem = 8192;
+
+/** 保存在本地的设置在 storage.local 中的键 */
+const localSettingKey = "localSetting";
+
+/** 始终保存在本地的设置字段 */
+const localSettingKeys: (keyof Setting)[] = [
+  "wordSystemPrompt",
+  "wordUserContent",
+  "sentenceSystemPrompt",
+  "sentenceUserContent",
+  "externalLinks",
+];
+
+/** 设置写入的串行锁，避免并发写入时 localSetting 的读改写互相覆盖 */
+let lock: Promise<unknown> = Promise.resolve();
+
+/** 当前环境是否为执行设置写入的 background */
+let isSettingHost = false;
+
+/** 设置写入结果；error 为错误文案键 */
+export type SettingWriteResult = { ok: true } | { ok: false; error: string };
+
+/** 超出同步配额时的错误（i18n 文案键） */
+export const syncQuotaError = "Sync storage quota exceeded";
+
+/**
+ * 计算单项占用的同步空间（与浏览器的计算方式一致：键名 + JSON 长度）
+ * @param key - 键名
+ * @param value - 值
+ * @returns 字节数
+ */
+const getItemBytes = (key: string, value: unknown) =>
+  new TextEncoder().encode(key + JSON.stringify(value)).length;
+
+/**
+ * 字段是否保存在本地
+ * @param key - 字段
+ * @param value - 值
+ * @returns 是否保存在本地
+ */
+const isLocalValue = (key: keyof Setting, value: unknown) =>
+  localSettingKeys.includes(key) ||
+  (typeof value === "string" && value.startsWith("data:")) ||
+  getItemBytes(key, value) > syncQuotaBytesPerItem;
+
+/**
+ * 读取保存在本地的设置
+ * @returns 本地设置
+ */
+const getLocalSetting = async (): Promise<Setting> => {
+  const res = await Browser.storage.local.get(localSettingKey);
+  return res[localSettingKey] ?? {};
+};
+
 // ===================== 同步存储核心操作 =====================
 
 /**
  * 获取用户设置
- * 从chrome.storage.sync获取当前用户的设置配置
+ * 从chrome.storage.sync获取当前用户的设置配置，并合并保存在本地的字段
  * @returns Promise<Setting> 用户设置对象
  */
 export const getSetting = async(): Promise<Setting>=>{
-  return await Browser.storage.sync.get();
+  const [setting, localSetting] = await Promise.all([
+    Browser.storage.sync.get() as Promise<Setting>,
+    getLocalSetting(),
+  ]);
+  const { ouluInfo: localOuluInfo, ...rest } = localSetting;
+  return {
+    ...setting,
+    ...rest,
+    ...(localOuluInfo?.bookList
+      ? { ouluInfo: { ...setting.ouluInfo, bookList: localOuluInfo.bookList } }
+      : {}),
+  };
+}
+
+/**
+ * 写入部分设置（由 setSetting 串行调用）
+ * @param param - 部分设置数据
+ * @throws 超出同步配额时抛出 syncQuotaError
+ */
+const writeSetting = async(param: Partial<Setting>)=>{
+  const syncPart: Partial<Setting> = {};
+  const localPart: Partial<Setting> = {};
+  (Object.keys(param) as (keyof Setting)[]).forEach((key) => {
+    const value = param[key];
+    if (key === "ouluInfo" && param.ouluInfo && "bookList" in param.ouluInfo) {
+      const { bookList, ...ouluInfo } = param.ouluInfo;
+      syncPart.ouluInfo = ouluInfo;
+      localPart.ouluInfo = { bookList };
+    } else if (key !== "ouluInfo" && isLocalValue(key, value)) {
+      Object.assign(localPart, { [key]: value });
+    } else {
+      Object.assign(syncPart, { [key]: value });
+    }
+  });
+  const localSetting = await getLocalSetting();
+  const localKeys = Object.keys(localPart).filter((key) => key !== "ouluInfo");
+  const syncKeys = Object.keys(syncPart).filter(
+    (key) => key !== "ouluInfo" && key in localSetting
+  );
+  syncKeys.forEach((key) => {
+    delete localSetting[key as keyof Setting];
+  });
+  if (Object.keys(syncPart).length) {
+    try {
+      await Browser.storage.sync.set(syncPart);
+    } catch (error) {
+      if (/quota/i.test(String(error))) {
+        throw new Error(syncQuotaError);
+      }
+      throw error;
+    }
+  }
+  if (localKeys.length) {
+    await Browser.storage.sync.remove(localKeys);
+  }
+  if (Object.keys(localPart).length || syncKeys.length) {
+    await Browser.storage.local.set({
+      [localSettingKey]: { ...localSetting, ...localPart },
+    });
+  }
+}
+
+/**
+ * 在当前环境中串行写入设置（background 中执行各页面发来的写入）
+ * @param param - 部分设置数据
+ * @returns 写入结果
+ */
+export const enqueueSetting = (param: Partial<Setting>): Promise<SettingWriteResult> => {
+  const task = lock.then(() => writeSetting(param)).then(
+    (): SettingWriteResult => ({ ok: true }),
+    (error): SettingWriteResult => ({
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  );
+  lock = task;
+  return task;
+}
+
+/**
+ * 标记当前环境为 background，之后的设置写入直接进入队列
+ */
+export const registerSettingWriter = () => {
+  isSettingHost = true;
 }
 
 /**
  * 设置用户配置
- * 将用户设置保存到chrome.storage.sync，支持多设备同步
+ * 将用户设置保存到chrome.storage.sync，支持多设备同步；较大的字段与欧路生词本列表保存在本地
+ * 写入交给 background 串行执行，background 不可用时在当前页面串行执行
  * @param param - Partial<Setting> 部分设置数据
  * @returns Promise<void>
+ * @throws 超出同步配额时抛出 syncQuotaError
+ */
+export const setSetting = async(param: Partial<Setting>): Promise<void> => {
+  let result: SettingWriteResult | undefined;
+  if (!isSettingHost) {
+    const message: ExtensionMessage = { type: "setting", payload: param };
+    result = await Browser.runtime.sendMessage(message).catch(() => undefined);
+  }
+  if (!result) {
+    result = await enqueueSetting(param);
+  }
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+}
+
+/**
+ * 把仍保存在 storage.sync 中、应保存在本地的字段（提示词等固定字段、data URL、超过单项配额的值、
+ * 欧路生词本列表）移到本地，已经超出同步配额的用户因此可以继续保存设置
  */
-export const setSetting = async(param: Partial<Setting>)=>{
-  return Browser.storage.sync.set(param);
+export const moveLocalSettings = async () => {
+  const synced = (await Browser.storage.sync.get()) as Setting;
+  const update: Partial<Setting> = {};
+  (Object.keys(synced) as (keyof Setting)[]).forEach((key) => {
+    const value = synced[key];
+    if (
+      (key === "ouluInfo" && synced.ouluInfo && "bookList" in synced.ouluInfo) ||
+      (key !== "ouluInfo" && isLocalValue(key, value))
+    ) {
+      Object.assign(update, { [key]: value });
+    }
+  });
+  if (Object.keys(update).length) {
+    await setSetting(update);
+  }
 }
 
 /**
  * 清空所有同步设置
- * 谨慎使用，会清除所有用户的跨设备同步数据
+ * 谨慎使用，会清除所有用户的跨设备同步数据，以及保存在本地的设置
  * @returns Promise<void>
  */
 export const clearSetting = async()=>{
+  await Browser.storage.local.remove(localSettingKey);
   return Browser.storage.sync.clear();
 }
+
+/**
+ * 获取设置的存储用量
+ * @returns 同步设置占用的字节数与配额、保存在本地的设置占用的字节数
+ */
+export const getSettingUsage = async () => {
+  const [setting, localSetting] = await Promise.all([
+    Browser.storage.sync.get(),
+    getLocalSetting(),
+  ]);
+  const sum = (data: object) =>
+    Object.entries(data).reduce((total, [key, value]) => total + getItemBytes(key, value), 0);
+  return {
+    syncBytes: sum(setting),
+    syncQuotaBytes,
+    localBytes: sum(localSetting),
+  };
+}
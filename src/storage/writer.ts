@@ -0,0 +1,327 @@
+/**
+ * 生词本/备注/查词历史/生词本分组的串行写入
+ * - 所有写入都以类型化的消息发送到 background，由同一个队列依次执行，多个标签页同时写入也不会互相覆盖
+ * - 单词的更新发送完整记录并整条替换（消息序列化会丢掉值为 undefined 的字段，合并无法清空字段）
+ * - 调用方可以等待写入完成；冲突（如单词已被其他页面添加或删除）与写入失败以错误抛出，由调用方提示
+ * - 从后端拉取的列表按 ID/拼写合并进本地（mergeWords/mergeRemarks），不会清除本地独有的字段与记录
+ * - 每次写入成功后把变化的记录通过 storage.local 广播（写入后立即删除），各页面用 onDBChange 订阅并增量更新
+ * - 生词本分组存放在 storage.local 的 deckList 中，同样在队列中读取、修改并写回，各页面订阅 deckList 的变化
+ */
+import browser from "webextension-polyfill";
+import type { Storage } from "webextension-polyfill";
+import type { ExtensionMessage } from "@/types";
+import type { CommunityItemType, Deck, LookupHistory, Sww } from "@/types/words";
+import {
+  DBStores,
+  StoreName,
+  clearRecords,
+  deleteRecords,
+  deleteRecordsByWord,
+  getAllRecords,
+  getRecordsByWord,
+  patchRecords,
+  putRecords,
+  replaceExistingRecords,
+  replaceRecords,
+  trimRecords,
+} from "./db";
+import { normalizeWord } from "@/utils";
+
+// ===================== 类型定义 =====================
+
+/** 写入指令 */
+export type WriteCommand =
+  | { action: "addWord"; payload: Sww }
+  | { action: "addWords"; payload: Sww[] }
+  | { action: "updateWord"; payload: Sww }
+  | { action: "updateWords"; payload: Sww[] }
+  | { action: "removeWord"; payload: string }
+  | { action: "removeWords"; payload: string[] }
+  | { action: "replaceWords"; payload: Sww[] }
+  | { action: "mergeWords"; payload: Sww[] }
+  | { action: "addRemarks"; payload: CommunityItemType[] }
+  | { action: "updateRemark"; payload: CommunityItemType }
+  | { action: "removeRemark"; payload: string }
+  | { action: "replaceRemarks"; payload: CommunityItemType[] }
+  | { action: "mergeRemarks"; payload: CommunityItemType[] }
+  | { action: "addHistory"; payload: { item: LookupHistory; max: number } }
+  | { action: "removeHistory"; payload: string }
+  | { action: "replaceHistory"; payload: LookupHistory[] }
+  | { action: "addDeck"; payload: Deck }
+  | { action: "updateDeck"; payload: Deck }
+  | { action: "removeDeck"; payload: string }
+  | { action: "clearAll" };
+
+/** 写入结果；error 为 i18n 文案键 */
+export type WriteResult = { ok: true } | { ok: false; error: string };
+
+/** 单个仓库的数据变化：新增或更新的记录、删除的记录ID；reset 表示整体替换，需要重新读取 */
+export interface StoreChange<T> {
+  put?: T[];
+  remove?: string[];
+  reset?: boolean;
+}
+
+/** 一次写入造成的数据变化 */
+export type DBChange = { [K in StoreName]?: StoreChange<DBStores[K]> };
+
+/** 广播数据变化时使用的 storage.local 键 */
+export const changeKey = "dbChange";
+
+/** 当前环境是否为执行写入的 background */
+let isWriterHost = false;
+
+/** 写入队列：上一个写入完成后再执行下一个 */
+let queue: Promise<unknown> = Promise.resolve();
+
+// ===================== 执行写入 =====================
+
+/**
+ * 计算远端记录合并进本地后需要写入的记录
+ * - 按 ID 匹配，单词还按拼写匹配；本地没有的记录新增
+ * - 两边都有时远端编辑时间较新才覆盖，保留本地独有的字段（复习进度、分组等）与本地的 ID
+ * - 只在本地存在的记录不受影响
+ * @param local - 本地记录
+ * @param remote - 远端记录
+ * @param byWord - 是否同时按拼写匹配
+ * @returns 需要写入的记录
+ */
+const mergeRemote = <T extends { id: string; word: string; lastEditDate?: number }>(
+  local: T[],
+  remote: T[],
+  byWord: boolean
+) => {
+  const idMap = new Map(local.map((item) => [item.id, item]));
+  const wordMap = new Map(local.map((item) => [normalizeWord(item.word), item]));
+  return remote.flatMap((item) => {
+    const exist =
+      idMap.get(item.id) ?? (byWord ? wordMap.get(normalizeWord(item.word)) : undefined);
+    if (!exist) {
+      return [item];
+    }
+    if ((item.lastEditDate ?? 0) <= (exist.lastEditDate ?? 0)) {
+      return [];
+    }
+    return [{ ...exist, ...item, id: exist.id }];
+  });
+};
+
+/**
+ * 读取生词本分组列表
+ * @returns 分组列表
+ */
+const getDecks = async () =>
+  ((await browser.storage.local.get("deckList")).deckList as Deck[] | undefined) ?? [];
+
+/**
+ * 写回生词本分组列表
+ * @param deckList - 分组列表
+ */
+const setDecks = (deckList: Deck[]) => browser.storage.local.set({ deckList });
+
+/**
+ * 执行一条写入指令
+ * @param command - 写入指令
+ * @returns 冲突时返回错误文案键，否则返回数据变化
+ */
+const execute = async (command: WriteCommand): Promise<string | DBChange> => {
+  switch (command.action) {
+    case "addWord":
+      if ((await getRecordsByWord("words", command.payload.word)).length) {
+        return "Word already exists";
+      }
+      await putRecords("words", [command.payload]);
+      return { words: { put: [command.payload] } };
+    case "addWords":
+      await putRecords("words", command.payload);
+      return { words: { put: command.payload } };
+    case "updateWord": {
+      // 按ID定位，修改拼写时也能找到原记录
+      const put = await replaceExistingRecords("words", [command.payload]);
+      return put.length ? { words: { put } } : "Word no longer exists";
+    }
+    case "updateWords": {
+      const put = await replaceExistingRecords("words", command.payload);
+      if (put.length < command.payload.length) {
+        return "Word no longer exists";
+      }
+      return { words: { put } };
+    }
+    case "removeWord":
+      return {
+        words: { remove: await deleteRecordsByWord("words", command.payload) },
+      };
+    case "removeWords":
+      await deleteRecords("words", command.payload);
+      return { words: { remove: command.payload } };
+    case "replaceWords":
+      await replaceRecords("words", command.payload);
+      return { words: { reset: true } };
+    case "mergeWords": {
+      const put = mergeRemote(await getAllRecords("words"), command.payload, true);
+      await putRecords("words", put);
+      return { words: { put } };
+    }
+    case "addRemarks":
+      await putRecords("remarks", command.payload);
+      return { remarks: { put: command.payload } };
+    case "updateRemark": {
+      const put = await patchRecords("remarks", [command.payload]);
+      return put.length ? { remarks: { put } } : "Note no longer exists";
+    }
+    case "removeRemark":
+      await deleteRecords("remarks", [command.payload]);
+      return { remarks: { remove: [command.payload] } };
+    case "replaceRemarks":
+      await replaceRecords("remarks", command.payload);
+      return { remarks: { reset: true } };
+    case "mergeRemarks": {
+      const put = mergeRemote(await getAllRecords("remarks"), command.payload, false);
+      await putRecords("remarks", put);
+      return { remarks: { put } };
+    }
+    case "addHistory":
+      await putRecords("history", [command.payload.item]);
+      return {
+        history: {
+          put: [command.payload.item],
+          remove: await trimRecords("history", command.payload.max),
+        },
+      };
+    case "removeHistory":
+      await deleteRecords("history", [command.payload]);
+      return { history: { remove: [command.payload] } };
+    case "replaceHistory":
+      await replaceRecords("history", command.payload);
+      return { history: { reset: true } };
+    case "addDeck":
+      await setDecks([...(await getDecks()), command.payload]);
+      return {};
+    case "updateDeck": {
+      const deckList = await getDecks();
+      if (!deckList.some((item) => item.id === command.payload.id)) {
+        return "Deck no longer exists";
+      }
+      await setDecks(
+        deckList.map((item) =>
+          item.id === command.payload.id ? { ...item, ...command.payload } : item
+        )
+      );
+      return {};
+    }
+    case "removeDeck": {
+      // 分组内的单词变为未分组
+      const put = (await getAllRecords("words"))
+        .filter((item) => item.deckId === command.payload)
+        .map((item) => ({ ...item, deckId: undefined }));
+      await putRecords("words", put);
+      await setDecks((await getDecks()).filter((item) => item.id !== command.payload));
+      return { words: { put } };
+    }
+    case "clearAll":
+      await clearRecords();
+      return {
+        words: { reset: true },
+        remarks: { reset: true },
+        history: { reset: true },
+      };
+  }
+};
+
+/**
+ * 广播数据变化：写入 storage.local 触发各页面的 storage.onChanged，随后删除
+ * @param change - 数据变化
+ */
+const publishChange = async (change: DBChange) => {
+  await browser.storage.local.set({ [changeKey]: change });
+  await browser.storage.local.remove(changeKey);
+};
+
+/**
+ * 将写入指令加入队列（仅在 background 中调用）
+ * @param command - 写入指令
+ * @returns 写入结果
+ */
+export const enqueueWrite = (command: WriteCommand): Promise<WriteResult> => {
+  const task = queue.then(async (): Promise<WriteResult> => {
+    let result: string | DBChange;
+    try {
+      result = await execute(command);
+    } catch (error) {
+      return { ok: false, error: "Failed to save" };
+    }
+    if (typeof result === "string") {
+      return { ok: false, error: result };
+    }
+    // 广播失败不影响写入结果，其他页面下次打开时会重新读取
+    await publishChange(result).catch(() => undefined);
+    return { ok: true };
+  });
+  queue = task;
+  return task;
+};
+
+/**
+ * 标记当前环境为 background，之后的写入直接进入队列
+ */
+export const registerWriter = () => {
+  isWriterHost = true;
+};
+
+/**
+ * 发起写入并等待完成
+ * @param command - 写入指令
+ * @throws 冲突或写入失败时抛出错误，message 为 i18n 文案键
+ */
+export const write = async (command: WriteCommand) => {
+  let result: WriteResult | undefined;
+  if (isWriterHost) {
+    result = await enqueueWrite(command);
+  } else {
+    const message: ExtensionMessage = { type: "write", payload: command };
+    result = await browser.runtime
+      .sendMessage(message)
+      .catch(() => undefined);
+  }
+  if (!result?.ok) {
+    throw new Error(result?.error ?? "Failed to save");
+  }
+};
+
+/**
+ * 订阅数据变化（包括当前页面发起的写入）
+ * @param listener - 回调，参数为数据变化
+ * @returns 取消订阅的函数
+ */
+export const onDBChange = (listener: (change: DBChange) => void) => {
+  const handler = (changes: Storage.StorageAreaOnChangedChangesType) => {
+    const change = changes[changeKey]?.newValue as DBChange | undefined;
+    if (change) {
+      listener(change);
+    }
+  };
+  browser.storage.local.onChanged.addListener(handler);
+  return () => browser.storage.local.onChanged.removeListener(handler);
+};
+
+/**
+ * 把数据变化应用到列表：先删除，再按ID覆盖已有记录或追加新记录
+ * @param list - 当前列表
+ * @param change - 仓库的数据变化（不含 reset）
+ * @returns 新列表
+ */
+export const applyChange = <T extends { id: string }>(
+  list: T[],
+  change: StoreChange<T>
+) => {
+  const remove = new Set(change.remove ?? []);
+  const put = new Map((change.put ?? []).map((item) => [item.id, item]));
+  const result = list
+    .filter((item) => !remove.has(item.id))
+    .map((item) => {
+      const update = put.get(item.id);
+      put.delete(item.id);
+      return update ?? item;
+    });
+  return [...result, ...put.values()];
+};
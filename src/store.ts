@@ -1,24 +1,76 @@
 /**
  * 全局状态（jotai）
- * - settingAtom：与 storage.sync 同步的设置；
- * - swwListAtom：本地生词本（storage.local）列表；
- * - 若干 action atom：新增/删除/更新生词，驱动 API 与本地存储同步。
+ * - settingAtom：与 storage.sync 同步的设置；secretsAtom：本地密钥库中的引擎密钥（不同步）；
+ * - swwListAtom：本地生词本（IndexedDB）列表；生词本、备注与查词历史订阅数据变化，其他页面写入后增量更新；
+ * - 若干 action atom：新增/删除/更新生词，同步到已启用的同步目标（api/sync），等待本地写入完成，冲突或失败时提示并重新加载；
+ * - dueSwwListAtom/reviewSwwAtom：今日待复习队列与复习打分；
+ * - quizSwwAtom：完形填空测验结果回写。
  */
-import { CollectRemarkInfo, CollectBasicInfo, Setting } from "@/types";
-import { atom } from "jotai";
-import { CommunityItemType, Sww } from "./types/words";
+import { CollectRemarkInfo, CollectBasicInfo, Secrets, Setting } from "@/types";
+import { atom, Setter, SetStateAction } from "jotai";
+import { CommunityItemType, Deck, LookupHistory, ReviewGrade, Sww } from "./types/words";
 import { getSetting as getSettingStorage, setSetting as  setSettingStorage} from "./storage/sync";
-import { addSwwApi, removeWordApi, updateWordApi } from "./api";
-import { removeWord as removeStorageWord, updateWord as updateStorageWord, addWord as addStorageWord } from "@/storage/local";
-import { addWordOulu, removeWordOulu } from "./api/oulu";
-import { getList as getStorageSwwList, getRemarkList } from "@/storage/local";
+import { SecretState, getSecretState, getSecrets, onSecretChange, setSecrets } from "./storage/secret";
+import { syncAdd, syncRemove, syncUpdate } from "./api/sync";
+import { removeWord as removeStorageWord, updateWord as updateStorageWord, addWord as addStorageWord, updateWords as updateStorageWords, removeWords as removeStorageWords, addWords as addStorageWords, addRemarks as addStorageRemarks } from "@/storage/local";
+import { getList as getStorageSwwList, getRemarkList, getHistoryList, addHistory, removeHistory, clearHistory, maxHistoryCount, getDeckList, onDeckListChange, addDeck as addStorageDeck, updateDeck as updateStorageDeck, removeDeck as removeStorageDeck } from "@/storage/local";
+import { getDueList, scheduleReview } from "@/utils/review";
+import { applyQuizResult } from "@/utils/quiz";
+import { setLemmaLanguage } from "@/utils/lemmatizer";
+import { getCollectWord } from "@/utils";
+import { getDefaultDeck, isInDeck } from "@/utils/deck";
+import { stampMastery } from "@/utils/stats";
+import { toastManager } from "@/components/Toast";
+import i18n from "@/i18n";
+import type { DBStores, StoreName } from "@/storage/db";
+import { applyChange, onDBChange } from "@/storage/writer";
 
 const _settingAtom = atom<Setting|Record<string,never>>({})
+/**
+ * 订阅仓库的数据变化并增量更新列表，整体替换时重新读取
+ * @param name - 仓库名称
+ * @param setAtom - 列表 setter
+ * @param reload - 读取完整列表
+ * @param sort - 更新后的排序
+ * @returns 取消订阅的函数
+ */
+const watchStore = <K extends StoreName>(name: K, setAtom: (update: SetStateAction<DBStores[K][]>) => void, reload: () => Promise<DBStores[K][]>, sort?: (a: DBStores[K], b: DBStores[K]) => number) => onDBChange((change) => {
+  const storeChange = change[name]
+  if (!storeChange) {
+    return
+  }
+  if (storeChange.reset) {
+    reload().then(res => setAtom(res))
+    return
+  }
+  setAtom(list => {
+    const result = applyChange<DBStores[K]>(list, storeChange)
+    return sort ? result.sort(sort) : result
+  })
+})
 export const swwListAtom = atom<Sww[]>([])
 swwListAtom.onMount = (setAtom) => {
   getStorageSwwList().then(res => {
     setAtom(res)
   })
+  return watchStore("words", setAtom, getStorageSwwList)
+}
+/**
+ * 等待本地写入完成；冲突或失败时提示，并从本地存储重新加载列表，使界面与存储保持一致
+ * @param set - jotai setter
+ * @param task - 写入任务
+ */
+const awaitWrite = async (set: Setter, task: Promise<unknown>) => {
+  try {
+    await task
+  } catch (error) {
+    toastManager.add({ type: "error", msg: i18n.t((error as Error).message) })
+    const [swwList, remarkList, historyList, deckList] = await Promise.all([getStorageSwwList(), getRemarkList(), getHistoryList(), getDeckList()])
+    set(swwListAtom, swwList)
+    set(remarkListAtom, remarkList)
+    set(historyListAtom, historyList)
+    set(deckListAtom, deckList)
+  }
 }
 /**
  * 设置原子：读写合并，并持久化到 storage.sync
@@ -29,38 +81,150 @@ export const settingAtom = atom((get)=>{
   const setting = get(
     _settingAtom);
   set(_settingAtom, {...setting, ...update});
-  setSettingStorage(update)
+  setSettingStorage(update).catch((error) => {
+    toastManager.add({ type: "error", msg: i18n.t((error as Error).message) })
+  })
+  setLemmaLanguage(update.sourceLanguage?.language)
 })
 settingAtom.onMount = (setAtom)=>{
   getSettingStorage().then((res) => {
+    setLemmaLanguage(res.sourceLanguage?.language)
+    setAtom(res)
+  })
+}
+const _secretsAtom = atom<Secrets>({})
+_secretsAtom.onMount = (setAtom) => {
+  const reload = () => getSecrets().then(setAtom)
+  reload()
+  return onSecretChange(reload)
+}
+/** 引擎密钥：写入本地密钥库，密钥库加密、解锁或锁定后重新读取 */
+export const secretsAtom = atom((get)=>{
+  return get(_secretsAtom)
+},(get,set,update:Partial<Secrets>) => {
+  set(_secretsAtom, {...get(_secretsAtom), ...update})
+  setSecrets(update).catch((error) => {
+    toastManager.add({ type: "error", msg: i18n.t((error as Error).message) })
+  })
+})
+/** 密钥库状态：未加密 / 已解锁 / 未解锁（未解锁时不能读写密钥） */
+export const secretStateAtom = atom<SecretState>("plain")
+secretStateAtom.onMount = (setAtom) => {
+  const reload = () => getSecretState().then(setAtom)
+  reload()
+  return onSecretChange(reload)
+}
+/** 生词本分组：其他页面修改分组后同步更新 */
+export const deckListAtom = atom<Deck[]>([])
+deckListAtom.onMount = (setAtom) => {
+  getDeckList().then(res => {
     setAtom(res)
   })
+  return onDeckListChange(setAtom)
 }
-/** 新增生词：调用后端 + 本地缓存 + 欧路同步 */
-export const addSwwAtom = atom(null,(get,set,sww:Sww) => {
-  addSwwApi(sww);
-  addStorageWord(sww)
-  addWordOulu(sww.word)
+/** 新增生词：记录收藏时间，未指定分组时放入与源语言匹配的分组，本地缓存 + 同步目标 */
+export const addSwwAtom = atom(null,async (get,set,item:Sww) => {
+  const sww = {
+    ...item,
+    createDate: item.createDate ?? Date.now(),
+    deckId: item.deckId ?? getDefaultDeck(get(deckListAtom), get(_settingAtom).sourceLanguage?.language)?.id,
+  }
   set(swwListAtom, [...get(swwListAtom), sww])
+  syncAdd(sww)
+  await awaitWrite(set, addStorageWord(sww))
 })
-/** 删除生词：调用后端 + 本地缓存 + 欧路同步 */
-export const removeSwwAtom = atom(null,(get,set,sww:Sww) => {
-  removeWordApi(sww.word);
-  removeStorageWord({word: sww.word});
-  removeWordOulu(sww.word)
+/** 删除生词：本地缓存 + 同步目标 */
+export const removeSwwAtom = atom(null,async (get,set,sww:Sww) => {
+  syncRemove(sww.word)
   set(swwListAtom, get(swwListAtom).filter(item => item.id !== sww.id))
+  await awaitWrite(set, removeStorageWord({word: sww.word}))
 })
-/** 更新生词：主记忆等级/上下文等 */
-export const updateSwwItemAtom = atom(null,(get,set,update:Sww) => {
-  set(swwListAtom, get(swwListAtom).map(item => {
-    if (item.id === update.id) {
-      updateWordApi({id:update.id,masteryLevel:update.masteryLevel,word:update.word,context:update.context});
-      updateStorageWord(update)
-      return update
-    } else {
-      return item
-    }
+/** 更新生词：主记忆等级/上下文等，掌握状态变化时记录掌握时间；上下文未变化时不同步上下文 */
+export const updateSwwItemAtom = atom(null,async (get,set,sww:Sww) => {
+  const prev = get(swwListAtom).find(item => item.id === sww.id)
+  if (!prev) {
+    return
+  }
+  const update = stampMastery(prev, sww)
+  syncUpdate({id:update.id,masteryLevel:update.masteryLevel,word:update.word,...(update.context !== prev.context && {context:update.context}),lastEditDate:update.lastEditDate})
+  set(swwListAtom, get(swwListAtom).map(item => item.id === update.id ? update : item))
+  await awaitWrite(set, updateStorageWord(update))
+})
+/** 批量更新生词（生词本页面批量编辑）：记录编辑时间，本地写入一次，逐个同步到同步目标 */
+export const updateSwwListAtom = atom(null,async (get,set,swws:Sww[]) => {
+  const prevMap = new Map(get(swwListAtom).map(item => [item.id, item]))
+  const lastEditDate = Date.now()
+  const updates = swws.map(item => stampMastery(prevMap.get(item.id), {...item, lastEditDate}))
+  const updateMap = new Map(updates.map(item => [item.id, item]))
+  set(swwListAtom, get(swwListAtom).map(item => updateMap.get(item.id) ?? item))
+  updates.forEach(update => {
+    const prev = prevMap.get(update.id)
+    syncUpdate({id:update.id,masteryLevel:update.masteryLevel,weight:update.weight,word:update.word,...(update.context !== prev?.context && {context:update.context}),lastEditDate:update.lastEditDate})
+  })
+  await awaitWrite(set, updateStorageWords(updates))
+})
+/** 批量导入生词与笔记：补全收藏时间，分组不存在时放入默认分组；只写入本地，不逐个同步到同步目标 */
+export const importSwwListAtom = atom(null,async (get,set,{swwList, remarkList}:{swwList:Sww[], remarkList:CommunityItemType[]}) => {
+  const deckList = get(deckListAtom)
+  const defaultDeckId = getDefaultDeck(deckList, get(_settingAtom).sourceLanguage?.language)?.id
+  const swws = swwList.map(item => ({
+    ...item,
+    createDate: item.createDate ?? Date.now(),
+    deckId: deckList.some(deck => deck.id === item.deckId) ? item.deckId : defaultDeckId,
   }))
+  set(swwListAtom, [...get(swwListAtom), ...swws])
+  set(remarkListAtom, [...get(remarkListAtom), ...remarkList])
+  await awaitWrite(set, Promise.all([addStorageWords(swws), addStorageRemarks(remarkList)]))
+})
+/** 批量删除生词：本地删除一次，逐个同步到同步目标 */
+export const removeSwwListAtom = atom(null,async (get,set,swws:Sww[]) => {
+  const ids = swws.map(item => item.id)
+  set(swwListAtom, get(swwListAtom).filter(item => !ids.includes(item.id)))
+  swws.forEach(sww => {
+    syncRemove(sww.word)
+  })
+  await awaitWrite(set, removeStorageWords(ids))
+})
+/** 当前时间：打开时、页面重新可见时以及每分钟更新，到期的复习随时间加入队列 */
+export const nowAtom = atom(Date.now())
+nowAtom.onMount = (setAtom) => {
+  const tick = () => setAtom(Date.now())
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "visible") {
+      tick()
+    }
+  }
+  tick()
+  const timer = window.setInterval(tick, 60 * 1000)
+  document.addEventListener("visibilitychange", handleVisibilityChange)
+  return () => {
+    window.clearInterval(timer)
+    document.removeEventListener("visibilitychange", handleVisibilityChange)
+  }
+}
+/** 当前复习的分组ID，空字符串表示全部 */
+export const reviewDeckIdAtom = atom("")
+/** 今日待复习队列（按当前复习分组过滤）：Popup 与页面高亮共同使用 */
+export const dueSwwListAtom = atom((get) => {
+  const deckId = get(reviewDeckIdAtom)
+  const deckList = get(deckListAtom)
+  return getDueList(get(swwListAtom).filter(item => isInDeck(item, deckId, deckList)), get(nowAtom))
+})
+/** 复习打分：计算下次复习时间并写入本地，只同步掌握状态到同步目标（不含上下文） */
+export const reviewSwwAtom = atom(null,async (get,set,{sww, grade}:{sww:Sww, grade:ReviewGrade}) => {
+  const update = stampMastery(sww, scheduleReview(sww, grade))
+  set(swwListAtom, get(swwListAtom).map(item => item.id === update.id ? update : item))
+  syncUpdate({id:update.id,masteryLevel:update.masteryLevel,word:update.word,lastEditDate:update.lastEditDate})
+  await awaitWrite(set, updateStorageWord(update))
+  return update
+})
+/** 测验结果：调整 weight/masteryLevel 并写入本地，同步到同步目标 */
+export const quizSwwAtom = atom(null,async (get,set,{sww, correct}:{sww:Sww, correct:boolean}) => {
+  const update = stampMastery(sww, applyQuizResult(sww, correct))
+  set(swwListAtom, get(swwListAtom).map(item => item.id === update.id ? update : item))
+  syncUpdate({id:update.id,masteryLevel:update.masteryLevel,weight:update.weight,word:update.word,lastEditDate:update.lastEditDate})
+  await awaitWrite(set, updateStorageWord(update))
+  return update
 })
 export const collectShowAtom = atom(false)
 export const collectInputBasicAtom = atom<CollectBasicInfo|undefined>(undefined)
@@ -70,4 +234,55 @@ remarkListAtom.onMount = (setAtom) => {
   getRemarkList().then(res => {
     setAtom(res)
   })
+  return watchStore("remarks", setAtom, getRemarkList)
 }
+/** 查词历史（新记录在前） */
+export const historyListAtom = atom<LookupHistory[]>([]);
+historyListAtom.onMount = (setAtom) => {
+  getHistoryList().then(res => {
+    setAtom(res)
+  })
+  return watchStore("history", setAtom, getHistoryList, (a, b) => b.date - a.date)
+}
+/** 记录一次查词：写入查词历史；已收藏的单词累加 searchCount */
+export const recordLookupAtom = atom(null,async (get,set,item:LookupHistory) => {
+  set(historyListAtom, [item, ...get(historyListAtom)].slice(0, maxHistoryCount))
+  await awaitWrite(set, addHistory(item))
+  const sww = getCollectWord({word: item.word, swwList: get(swwListAtom)})
+  if (!sww) {
+    return
+  }
+  const update = {...sww, searchCount: (sww.searchCount ?? 0) + 1}
+  set(swwListAtom, get(swwListAtom).map(im => im.id === update.id ? update : im))
+  syncUpdate({id:update.id,searchCount:update.searchCount,word:update.word,lastEditDate:update.lastEditDate})
+  await awaitWrite(set, updateStorageWord(update))
+})
+/** 删除一条查词历史 */
+export const removeHistoryAtom = atom(null,async (get,set,item:LookupHistory) => {
+  set(historyListAtom, get(historyListAtom).filter(im => im.id !== item.id))
+  await awaitWrite(set, removeHistory({id: item.id}))
+})
+/** 清空查词历史 */
+export const clearHistoryAtom = atom(null,async (_get,set) => {
+  set(historyListAtom, [])
+  await awaitWrite(set, clearHistory())
+})
+/** 新增生词本分组 */
+export const addDeckAtom = atom(null,async (get,set,deck:Deck) => {
+  set(deckListAtom, [...get(deckListAtom), deck])
+  await awaitWrite(set, addStorageDeck(deck))
+})
+/** 更新生词本分组（名称/语言） */
+export const updateDeckAtom = atom(null,async (get,set,deck:Deck) => {
+  set(deckListAtom, get(deckListAtom).map(item => item.id === deck.id ? deck : item))
+  await awaitWrite(set, updateStorageDeck(deck))
+})
+/** 删除生词本分组：分组内的单词变为未分组 */
+export const removeDeckAtom = atom(null,async (get,set,deck:Deck) => {
+  set(deckListAtom, get(deckListAtom).filter(item => item.id !== deck.id))
+  set(swwListAtom, get(swwListAtom).map(item => item.deckId === deck.id ? {...item, deckId: undefined} : item))
+  if (get(reviewDeckIdAtom) === deck.id) {
+    set(reviewDeckIdAtom, "")
+  }
+  await awaitWrite(set, removeStorageDeck({id: deck.id}))
+})
@@ -14,8 +14,14 @@
  * 5. 引擎相关类型：EngineItem, EngineValue
  * 6. 社区功能类型：CommunityItemType, CollectRemarkInfo
  */
-import { HighlightName, LangCode, defaultSetting } from "@/utils/const";
-import type { CommunityItemType, Sww } from "./words";
+import { HighlightName, LangCode } from "@/utils/const";
+import type { CommunityItemType, Deck, LookupHistory, Sww } from "./words";
+import type { DBRequest } from "@/storage/db";
+import type { WriteCommand } from "@/storage/writer";
+import type { OutboxCommand, OutboxItem } from "@/api/outbox";
+import type { SyncProviderId } from "@/api/sync";
+import type { EngineId } from "@/api/engines";
+import type { ProfileEngineId } from "@/api/openAIProfile";
 
 /**
  * 后台请求参数接口
@@ -63,8 +69,31 @@ export type ExtensionMessage =
       type: "getCurWindowSelectionInfo" // 获取当前窗口选中信息
     }
   | {
-      type: 'refreshLocalData'         // 刷新本地数据
-  };
+      type: "startPractice";           // 在页面中开始单词练习
+      payload?: string;                // 优先练习的单词
+    }
+  | {
+      type: "db";                      // 内容脚本请求 background 执行数据库读取
+      payload: DBRequest;
+    }
+  | {
+      type: "write";                   // 请求 background 串行写入生词本/备注/查词历史
+      payload: WriteCommand;
+    }
+  | {
+      type: "outbox";                  // 请求 background 处理单词后端写入的离线队列
+      payload: OutboxCommand;
+    }
+  | {
+      type: "webdavSync";              // 请求 background 立即执行 WebDAV 同步
+    }
+  | {
+      type: "secrets";                 // 内容脚本向 background 读取引擎密钥
+    }
+  | {
+      type: "setting";                 // 请求 background 串行写入设置
+      payload: Partial<Setting>;
+    };
 /**
  * 外部消息类型
  *
@@ -116,9 +145,90 @@ export type OuluInfo = {
   bookList?: { name: string; id: string; lang: string }[];  // 用户书籍列表
   targetBookId?: string;                 // 目标学习书籍ID
   targetBookLang?: string;               // 目标书籍语言
-  open?: boolean;                        // 是否启用Oulu功能
 };
 
+/**
+ * AnkiConnect 笔记字段
+ *
+ * 可同步到 Anki 笔记的单词信息：单词、上下文、释义、发音
+ */
+export type AnkiField = "word" | "context" | "definition" | "audio";
+
+/**
+ * AnkiConnect 同步信息接口
+ *
+ * 存储本地 AnkiConnect 服务地址、目标牌组、笔记类型与字段映射
+ */
+export type AnkiInfo = {
+  address?: string;                      // AnkiConnect 地址，默认 http://127.0.0.1:8765
+  deckName?: string;                     // 目标牌组名称
+  modelName?: string;                    // 笔记类型名称
+  fields?: Partial<Record<AnkiField, string>>;  // 单词信息 → 笔记字段名
+  deckList?: string[];                   // 牌组列表
+  modelList?: string[];                  // 笔记类型列表
+  fieldList?: string[];                  // 当前笔记类型的字段列表
+  syncRemove?: boolean;                  // 删除生词时是否同时删除 Anki 笔记
+};
+
+/**
+ * WebDAV 同步信息
+ *
+ * 生词本、备注与设置以 JSON 文件保存在 WebDAV 服务器中
+ */
+export type WebDAVInfo = {
+  url?: string;                          // WebDAV 地址
+  username?: string;                     // 用户名
+  password?: string;                     // 旧版本保存的密码（已复制到密钥库 webdavPassword，见 storage/secret）
+  interval?: number;                     // 自动同步间隔（分钟），0 或未设置时不自动同步
+};
+
+/**
+ * OpenAI 兼容接口配置
+ *
+ * 每个配置作为单独的引擎出现在引擎列表中（见 api/openAIProfile），密钥保存在本地密钥库
+ */
+export type OpenAIProfile = {
+  id: string;                            // 配置ID
+  name: string;                          // 显示名称
+  address?: string;                      // Chat Completions 接口地址
+  model?: string;                        // 模型
+  params?: string;                       // 额外请求参数（JSON 对象文本）
+};
+
+/**
+ * 引擎密钥
+ *
+ * 只保存在当前设备的本地密钥库中（见 storage/secret），不随设置同步
+ */
+export interface Secrets {
+  openAIKey?: string;                   // OpenAI API密钥
+  geminiKey?: string;                   // Google Gemini API密钥
+  moonShotKey?: string;                 // 月之暗面API密钥
+  wenxinToken?: string;                 // 百度文心一言Token
+  deepSeekApiKey?: string;              // DeepSeek API密钥
+  customAIKey?: string;                 // 自定义AI API密钥
+  screenshotToken?: string;             // 截屏功能令牌
+  webdavPassword?: string;              // WebDAV 密码
+  [profileKey: ProfileEngineId]: string | undefined; // 接口配置的API密钥
+}
+
+/**
+ * 本地密钥库
+ *
+ * 未加密时直接保存密钥；加密时保存以口令派生的密钥（PBKDF2）加密（AES-GCM）后的密文
+ */
+export type SecretVault =
+  | {
+      encrypted: false;
+      data: Secrets;
+    }
+  | {
+      encrypted: true;
+      salt: string;                     // 派生密钥使用的盐（base64）
+      iv: string;                       // 加密向量（base64）
+      data: string;                     // 密文（base64）
+    };
+
 /**
  * 扩展设置接口
  *
@@ -126,13 +236,10 @@ export type OuluInfo = {
  */
 export interface Setting {
   userInfo?: User | null;               // 用户认证信息
-  openAIKey?: string;                   // OpenAI API密钥
   openAIAddress?: string;               // OpenAI API地址
   openAIModel?: string;                 // OpenAI模型名称
   showSelectionIcon?: boolean;          // 是否显示选中图标
   engine?: EngineValue;                 // 默认翻译引擎
-  geminiKey?: string;                   // Google Gemini API密钥
-  moonShotKey?: string;                 // 月之暗面API密钥
   targetLanguage?: LangCode;            // 目标翻译语言
   sourceLanguage?: Language;            // 源语言设置
   interfaceLanguage?: InterfaceLanguage; // 界面语言
@@ -141,8 +248,6 @@ export interface Setting {
   triggerIconSize?: number;             // 触发图标大小
   highlightColor?: string;              // 高亮颜色
   highlightStyle?: HighlightName;       // 高亮样式
-  wenxinToken?: string;                 // 百度文心一言Token
-  availableEngines?: EngineItem[];      // 可用引擎列表（已废弃）
   wordEngineList?: EngineItem[];        // 单词翻译引擎列表
   sentenceEngineList?: EngineItem[];    // 句子翻译引擎列表
   wordSystemPrompt?: string;            // 单词翻译系统提示词
@@ -151,24 +256,38 @@ export interface Setting {
   sentenceUserContent?: string;         // 句子翻译用户内容模板
   externalLinks?: ExternalLink[];       // 外部查询链接列表
   ouluInfo?: OuluInfo;                  // Oulu平台信息
-  screenshotToken?: string;             // 截屏功能令牌
-  deepSeekApiKey?: string;              // DeepSeek API密钥
+  ankiInfo?: AnkiInfo;                  // AnkiConnect 同步信息
+  syncProviders?: SyncProviderId[];     // 已启用的生词本同步目标（见 api/sync）
+  webdavInfo?: WebDAVInfo;              // WebDAV 同步信息
   deepLXAddress?: string;               // DeepLX翻译服务地址
   customAIAddress?: string;             // 自定义AI服务地址
   customAIModel?: string;               // 自定义AI模型
-  customAIKey?: string;                 // 自定义AI API密钥
+  openAIProfiles?: OpenAIProfile[];     // OpenAI 兼容接口配置
+  compareMode?: boolean;                // 句子翻译是否同时对比全部已启用的引擎
+  compareLayout?: "stacked" | "tabs";   // 对比结果的排列方式
   autoSaveWord?: boolean;               // 是否自动保存单词
   shoutcut?: string;                    // 快捷键设置
+  schemaVersion?: number;               // 设置结构版本（见 storage/migration）
 }
 /**
  * 本地数据接口
  *
  * 定义存储在浏览器本地存储中的数据结构
+ * swwList/remarkList/historyList 实际存放在 IndexedDB 中，由 storage/local 统一读写
  */
 export interface Local {
   swwList?: Sww[];                      // 单词短语列表
   remarkList?: CommunityItemType[];     // 用户备注列表
+  historyList?: LookupHistory[];        // 查词历史（新记录在前，有数量上限）
+  deckList?: Deck[];                    // 生词本分组
   openAIModelList?: { label: string; value: string }[];  // OpenAI模型列表
+  schemaVersion?: number;               // 本地数据结构版本（见 storage/migration）
+  outbox?: OutboxItem[];                // 待发送到 mywords.cc 的单词写入（见 api/outbox）
+  webdavSyncDate?: number;              // 上次 WebDAV 同步时间（见 api/webdav）
+  webdavSynced?: { words: string[]; remarks: string[] }; // 上次 WebDAV 同步后两边都有的记录ID
+  webdavSettingBase?: Setting;          // 上次 WebDAV 同步后的设置，用于按字段合并
+  secretVault?: SecretVault;            // 引擎密钥（见 storage/secret）
+  localSetting?: Setting;               // 较大、不同步的设置字段（见 storage/sync）
 }
 
 /**
@@ -204,13 +323,18 @@ export interface Language {
 }
 
 /**
- * 引擎类型相关类型别名
+ * 引擎类型相关类型
  *
- * 基于defaultSetting.engineList定义的类型推断，用于确保类型安全
+ * 引擎值由引擎注册表（api/engines）推导，接口配置的引擎值为 `profile:<配置ID>`；引擎列表项保存在设置中，记录用户的排序与启用状态
  */
-export type AllEnginesArray = typeof defaultSetting.engineList;
-export type EngineItem = AllEnginesArray[number];        // 引擎项类型
-export type EngineValue = (typeof defaultSetting.engineList)[number]["value"];  // 引擎值类型
+export type EngineValue = EngineId | ProfileEngineId; // 引擎值类型（注册表中的引擎或接口配置）
+export interface EngineItem {
+  name: string;                         // 显示名称
+  value: EngineValue;                   // 引擎值
+  isChat: boolean;                      // 是否为对话类引擎
+  checked: boolean;                     // 是否启用
+  compatible: "word" | "sentence" | "both"; // 支持单词/句子
+}
 
 /**
  * 页面内消息类型联合
@@ -275,6 +399,8 @@ export type CollinsWord = {
 export interface CollectBasicInfo {
   word: string;                           // 单词
   context: string;                        // 上下文
+  deckId?: string;                        // 所属生词本分组
+  translation?: string;                   // 保存的译文（对比翻译中选用）
 }
 
 /**
@@ -1,3 +1,19 @@
+import type { EngineValue } from "./index";
+/** 复习评分：again=忘记 / hard=困难 / good=良好 / easy=简单 */
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+/** 单次复习记录 */
+export interface ReviewRecord {
+  date: number;
+  grade: ReviewGrade;
+  interval: number;
+}
+/** 单词在页面中的一次出现（上下文句子及来源） */
+export interface ContextOccurrence {
+  sentence: string;
+  url?: string;
+  title?: string;
+  date: number;
+}
 export interface Sww {
   id: string;
   context?: string;
@@ -7,6 +23,36 @@ export interface Sww {
   masteryLevel?: undefined | 0 | 1 | 2;
   searchCount?: number;
   weight?: number;
+  dueDate?: number;
+  interval?: number;
+  ease?: number;
+  repetitions?: number;
+  lapses?: number;
+  reviewHistory?: ReviewRecord[];
+  quizStreak?: number;
+  deckId?: string;
+  contexts?: ContextOccurrence[];
+  createDate?: number;
+  masteredDate?: number;
+  examTags?: string[];
+  translation?: string;
+}
+/** 生词本分组（按学习语言划分） */
+export interface Deck {
+  id: string;
+  name: string;
+  language: string;
+  lastEditDate?: number;
+}
+/** 查词历史记录 */
+export interface LookupHistory {
+  id: string;
+  word: string;
+  context?: string;
+  url?: string;
+  title?: string;
+  engine?: EngineValue;
+  date: number;
 }
 export interface WordData {
   phonetic: string[];
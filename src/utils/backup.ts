@@ -0,0 +1,298 @@
+/**
+ * 完整备份与恢复
+ * - 备份文件包含 storage.sync 中的设置与全部本地数据（storage.local 与 IndexedDB），可选排除登录信息与本地密钥库等密钥
+ * - 本地数据通过 getLocal 整体写入备份，之后新增的本地数据无需修改此处即可被备份
+ * - 恢复前校验文件并生成差异摘要，支持合并（按ID合并列表，较新的编辑优先）与替换两种方式
+ */
+import type { Local, Setting } from "@/types";
+import type { Sww } from "@/types/words";
+import { clearSetting, getSetting, setSetting } from "@/storage/sync";
+import { secretKeys as legacySecretKeys } from "@/storage/secret";
+import { clearLocal, getLocal, maxHistoryCount, setLocal } from "@/storage/local";
+import {
+  localSchemaVersion,
+  runMigrations,
+  syncSchemaVersion,
+} from "@/storage/migration";
+import { isSameSpelling } from "@/utils";
+
+// ===================== 类型定义 =====================
+
+/** 备份文件结构 */
+export interface BackupFile {
+  app: typeof backupApp;
+  version: number;
+  createDate: number;
+  /** 是否包含密钥 */
+  includeSecrets: boolean;
+  setting: Setting;
+  local: Local;
+}
+
+/** 恢复方式：合并 / 替换 */
+export type RestoreMode = "merge" | "replace";
+
+/** 单个数据项的差异 */
+export interface BackupDiffItem {
+  name: string;
+  /** 当前数量 */
+  current: number;
+  /** 备份中的数量 */
+  backup: number;
+  /** 备份中有、当前没有的数量 */
+  added: number;
+  /** 两边都有但内容不同的数量 */
+  changed: number;
+}
+
+/** 备份文件标识 */
+const backupApp = "lingo-link";
+
+/** 备份文件版本 */
+export const backupVersion = 1;
+
+/** 设置中的密钥字段，备份时可排除（引擎密钥在本地密钥库 secretVault 中） */
+const secretKeys: (keyof Setting)[] = [
+  "userInfo",
+  "ouluInfo",
+  "webdavInfo",
+];
+
+/** 有固定结构的列表数据及其唯一键 */
+const localLists: {
+  name: keyof Local;
+  key: (item: Record<string, unknown>) => string;
+}[] = [
+  { name: "swwList", key: (item) => `${item.id}` },
+  { name: "remarkList", key: (item) => `${item.id}` },
+  { name: "historyList", key: (item) => `${item.id}` },
+  { name: "deckList", key: (item) => `${item.id}` },
+  { name: "openAIModelList", key: (item) => `${item.value}` },
+];
+
+// ===================== 工具函数 =====================
+
+/**
+ * 去除设置中的密钥（包括尚未从同步中删除的旧版引擎密钥）
+ * @param setting - 设置
+ * @returns 不含密钥的设置
+ */
+export const stripSecrets = (setting: Setting): Setting => {
+  const result: Record<string, unknown> = { ...setting };
+  [...secretKeys, ...legacySecretKeys].forEach((key) => {
+    delete result[key];
+  });
+  return result as Setting;
+};
+
+/**
+ * 获取本地数据中的列表（不存在或格式不对时为空数组）
+ * @param local - 本地数据
+ * @param name - 列表名称
+ * @returns 列表
+ */
+const getList = (local: Local, name: keyof Local) => {
+  const list = local[name];
+  return (Array.isArray(list) ? list : []) as Record<string, unknown>[];
+};
+
+/**
+ * 合并两个列表：按唯一键去重，两边都有时保留编辑时间较新的一项
+ * @param current - 当前列表
+ * @param incoming - 备份中的列表
+ * @param key - 唯一键
+ * @returns 合并后的列表
+ */
+const mergeList = (
+  current: Record<string, unknown>[],
+  incoming: Record<string, unknown>[],
+  key: (item: Record<string, unknown>) => string
+) => {
+  const map = new Map(current.map((item) => [key(item), item]));
+  incoming.forEach((item) => {
+    const exist = map.get(key(item));
+    const date = (value?: Record<string, unknown>) =>
+      Number(value?.lastEditDate ?? value?.date ?? 0);
+    if (!exist || date(item) > date(exist)) {
+      map.set(key(item), item);
+    }
+  });
+  return [...map.values()];
+};
+
+/**
+ * 按拼写去重：不同设备上同一个单词的ID不同，保留编辑时间较新的一项
+ * @param swwList - 单词列表
+ * @returns 去重后的列表
+ */
+export const dedupeWords = (swwList: Sww[]) =>
+  swwList.reduce<Sww[]>((result, item) => {
+    const index = result.findIndex((other) =>
+      isSameSpelling(other.word, item.word)
+    );
+    if (index === -1) {
+      result.push(item);
+    } else if ((item.lastEditDate ?? 0) > (result[index].lastEditDate ?? 0)) {
+      result[index] = item;
+    }
+    return result;
+  }, []);
+
+// ===================== 备份 =====================
+
+/**
+ * 生成备份
+ * @param includeSecrets - 是否包含 API Key、登录信息等密钥
+ * @returns 备份文件内容
+ */
+export const createBackup = async (includeSecrets: boolean) => {
+  const [setting, local] = await Promise.all([getSetting(), getLocal()]);
+  // 待发送的后端写入与 WebDAV 同步状态只对当前设备有意义
+  delete local.outbox;
+  delete local.webdavSyncDate;
+  delete local.webdavSynced;
+  delete local.webdavSettingBase;
+  if (!includeSecrets) {
+    delete local.secretVault;
+  }
+  const file: BackupFile = {
+    app: backupApp,
+    version: backupVersion,
+    createDate: Date.now(),
+    includeSecrets,
+    setting: includeSecrets ? setting : stripSecrets(setting),
+    local,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * 生成带日期的备份文件名
+ * @returns 文件名
+ */
+export const backupFilename = () =>
+  `lingo-link-backup-${new Date().toISOString().slice(0, 10)}.json`;
+
+// ===================== 恢复 =====================
+
+/**
+ * 解析并校验备份文件
+ * @param text - 文件内容
+ * @returns 备份
+ * @throws 文件格式不正确、备份或数据结构版本过新时抛出错误
+ */
+export const parseBackup = (text: string): BackupFile => {
+  const data = JSON.parse(text);
+  const isObject = (value: unknown) =>
+    Boolean(value) && typeof value === "object" && !Array.isArray(value);
+  if (!isObject(data) || data.app !== backupApp) {
+    throw new Error("not a backup file");
+  }
+  if (typeof data.version !== "number" || data.version > backupVersion) {
+    throw new Error("unsupported backup version");
+  }
+  if (!isObject(data.setting) || !isObject(data.local)) {
+    throw new Error("missing setting or local");
+  }
+  // 来自更新版本扩展的备份，当前版本无法识别其数据结构
+  if (
+    (data.setting.schemaVersion ?? 0) > syncSchemaVersion ||
+    (data.local.schemaVersion ?? 0) > localSchemaVersion
+  ) {
+    throw new Error("unsupported schema version");
+  }
+  localLists.forEach(({ name }) => {
+    if (data.local[name] !== undefined && !Array.isArray(data.local[name])) {
+      throw new Error(`invalid ${name}`);
+    }
+  });
+  return data;
+};
+
+/**
+ * 对比当前数据与备份，生成差异摘要
+ * @param backup - 备份
+ * @returns 各列表的差异与设置中不同的项数
+ */
+export const getBackupDiff = async (backup: BackupFile) => {
+  const [setting, local] = await Promise.all([getSetting(), getLocal()]);
+  const lists: BackupDiffItem[] = localLists.map(({ name, key }) => {
+    const current = getList(local, name);
+    const incoming = getList(backup.local, name);
+    const currentMap = new Map(
+      current.map((item) => [key(item), JSON.stringify(item)])
+    );
+    return {
+      name,
+      current: current.length,
+      backup: incoming.length,
+      added: incoming.filter((item) => !currentMap.has(key(item))).length,
+      changed: incoming.filter(
+        (item) =>
+          currentMap.has(key(item)) &&
+          currentMap.get(key(item)) !== JSON.stringify(item)
+      ).length,
+    };
+  });
+  const settingChanged = Object.keys(backup.setting).filter(
+    (key) =>
+      JSON.stringify(backup.setting[key as keyof Setting]) !==
+      JSON.stringify(setting[key as keyof Setting])
+  ).length;
+  return { lists, settingChanged };
+};
+
+/**
+ * 恢复备份
+ * - 合并：列表按ID合并（单词还按拼写去重），较新的编辑优先；设置只补充当前没有的项
+ * - 替换：清空后写入备份；备份不含密钥时保留当前的密钥与本地密钥库
+ * - 恢复后从备份的结构版本重新执行迁移，使旧备份中的数据升级到当前结构
+ * @param backup - 备份
+ * @param mode - 恢复方式
+ */
+export const restoreBackup = async (backup: BackupFile, mode: RestoreMode) => {
+  const [setting, local] = await Promise.all([getSetting(), getLocal()]);
+  if (mode === "replace") {
+    const secrets = backup.includeSecrets
+      ? {}
+      : Object.fromEntries(
+          secretKeys
+            .filter((key) => setting[key] !== undefined)
+            .map((key) => [key, setting[key]])
+        );
+    await clearLocal();
+    await setLocal({
+      ...backup.local,
+      ...(backup.includeSecrets ? {} : { secretVault: local.secretVault }),
+    });
+    await clearSetting();
+    await setSetting({ ...backup.setting, ...secrets });
+    await runMigrations();
+    return;
+  }
+  const merged: Local = { ...backup.local, ...local };
+  localLists.forEach(({ name, key }) => {
+    const list = mergeList(
+      getList(local, name),
+      getList(backup.local, name),
+      key
+    );
+    Object.assign(merged, { [name]: list });
+  });
+  if (merged.swwList) {
+    merged.swwList = dedupeWords(merged.swwList);
+  }
+  // 查词历史保持新记录在前，并遵守数量上限
+  if (merged.historyList) {
+    merged.historyList = merged.historyList
+      .sort((a, b) => b.date - a.date)
+      .slice(0, maxHistoryCount);
+  }
+  await setLocal({ ...merged, schemaVersion: backup.local.schemaVersion ?? 0 });
+  await setSetting({
+    ...backup.setting,
+    ...setting,
+    schemaVersion: backup.setting.schemaVersion ?? 0,
+  });
+  await runMigrations();
+};
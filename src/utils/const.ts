@@ -1,8 +1,8 @@
 /**
  * 常量配置文件
- * - 包含应用的所有默认配置、引擎设置、语言支持等常量
- * - 导出UI尺寸常量、语言列表、引擎配置等全局常量
- * - 提供完整的语言支持和引擎管理配置
+ * - 包含应用的所有默认配置、语言支持等常量
+ * - 导出UI尺寸常量、语言列表等全局常量
+ * - 提供完整的语言支持配置（引擎列表见 api/engines）
  */
 import { Language } from "@/types";
 //import { codeBlock, oneLineTrim } from "common-tags";
@@ -88,7 +88,6 @@ export const supportLanguages: Language[] = [
  */
 export const defaultSetting = {
   // OpenAI API配置
-  openAIKey: "",
   openAIAddress: "https://api.openai.com/v1/chat/completions",
   openAIModel: "gpt-4o",
   
@@ -173,91 +172,8 @@ export const defaultSetting = {
       link: "https://www.collinsdictionary.com/zh/dictionary/english/{text}",
     },
   ],
-  
-  // 引擎配置列表
-  engineList: [
-    // 传统翻译引擎
-    {
-      name: "Youdao",
-      value: "youdao",
-      isChat: false,      // 非聊天引擎
-      checked:true,       // 默认启用
-      compatible: 'both', // 支持单词和句子
-    },
-    {
-      name: "Collins",
-      value: "collins",
-      isChat: false,
-      checked:true,
-      compatible: 'word', // 仅支持单词
-    },
-    {
-      name: "Google",
-      value: "google",
-      isChat: false,
-      checked:true,
-      compatible: 'sentence', // 仅支持句子
-    },
-    
-    // AI聊天引擎
-    {
-      name: "OpenAI",
-      value: "openai",
-      isChat: true,
-      checked:false,
-      compatible: 'both',
-    },
-    {
-      name: "Gemini",
-      value: "gemini",
-      isChat: true,
-      checked:false,
-      compatible: 'both',
-    },
-    {
-      name: "文心一言",
-      value: "wenxin",
-      isChat: true,
-      checked:false,
-      compatible: 'both',
-    },
-    {
-      name: "DeepSeek",
-      value: "deepseek",
-      isChat: true,
-      checked:false,
-      compatible: 'both',
-    },
-    {
-      name: "moonshot",
-      value: "moonshot",
-      isChat: true,
-      checked:false,
-      compatible: 'both',
-    },
-    {
-      name: "DeepLX",
-      value: "deeplx",
-      isChat: false,
-      checked:false,
-      compatible: 'sentence',
-    },
-    {
-      name: "Custom",
-      value: "custom",
-      isChat: true,
-      checked:false,
-      compatible: 'both',
-    }
-  ]
 };
 
-/** 过滤后的单词引擎列表（排除仅支持句子的引擎） */
-export const allWordEngineList = defaultSetting.engineList.filter(item => item.compatible !== 'sentence');
-
-/** 过滤后的句子引擎列表（排除仅支持单词的引擎） */
-export const allSentenceEngineList = defaultSetting.engineList.filter(item => item.compatible !== 'word');
-
 // ===================== 完整语言支持列表 =====================
 
 /** 源语言选择列表（翻译的源语言） */
@@ -426,24 +342,6 @@ export type LangCode = (typeof AllLanguage)[number]["language"];
 /** 浏览器扩展ID */
 export const extensionId = "ahhlnchdiglcghegemaclpikmdclonmo";
 
-// ===================== 引擎图标配置 =====================
-
-/** 引擎图标URL映射 */
-export const enginePicArr = {
-  youdao:
-    "https://qph.cf2.poecdn.net/main-thumb-pb-1091482-200-ufgqhqgohdggdfzitfacamfxuamtfbye.jpeg",
-  google:
-    "https://qph.cf2.poecdn.net/main-thumb-pb-3655359-200-eomiajapmpmpgnwktjnxhcfbdlueukgq.jpeg",
-  openai:
-    "https://qph.cf2.poecdn.net/main-thumb-pb-3004-200-jougqzjtwfqfyqprxbdwofvnwattmtrg.jpeg",
-  gemini:
-    "https://qph.cf2.poecdn.net/main-thumb-pb-3669463-200-hqyxuiygtmnetolnimubmwhakbsueapd.jpeg",
-  wenxin:
-    "https://qph.cf2.poecdn.net/main-thumb-pb-3669463-200-hqyxuiygtmnetolnimubmwhakbsueapd.jpeg",
-  moonshot:
-    "https://qph.cf2.poecdn.net/main-thumb-pb-1160656-200-rzstcnvivfmlwjkijfkbhhpclcrjhopa.jpeg",
-};
-
 // ===================== 高亮样式配置 =====================
 
 /** 可用的高亮样式列表 */
@@ -0,0 +1,74 @@
+/**
+ * 生词本分组（Deck）工具
+ * - 每个分组对应一种学习语言，收藏时默认放入与源语言匹配的分组
+ * - 未分组的单词以及未设置语言的分组视为适用于所有语言
+ * - 语言比较只看主语言代码（en-US 与 en 视为同一语言）
+ */
+import type { Deck, Sww } from "@/types/words";
+
+/** 筛选时表示“未分组”的特殊ID */
+export const noDeckId = "none";
+
+/**
+ * 判断两个语言代码是否为同一语言
+ * @param lang1 - 语言代码
+ * @param lang2 - 语言代码
+ * @returns 是否为同一语言
+ */
+export const isSameLanguage = (lang1: string, lang2: string) => {
+  if (!lang1 || !lang2) {
+    return false;
+  }
+  const primary = (lang: string) => lang.toLowerCase().split("-")[0];
+  return primary(lang1) === primary(lang2);
+};
+
+/**
+ * 获取与语言匹配的默认分组（第一个匹配的分组）
+ * @param deckList - 分组列表
+ * @param language - 语言代码
+ * @returns 匹配的分组，没有时为 undefined
+ */
+export const getDefaultDeck = (deckList: Deck[], language?: string) => {
+  if (!language) {
+    return undefined;
+  }
+  return deckList.find((item) => isSameLanguage(item.language, language));
+};
+
+/**
+ * 判断单词是否属于指定分组
+ * @param sww - 单词
+ * @param deckId - 分组ID，空字符串表示全部，noDeckId 表示未分组
+ * @param deckList - 分组列表（用于识别分组已被删除的单词）
+ * @returns 是否属于该分组
+ */
+export const isInDeck = (sww: Sww, deckId: string, deckList: Deck[]) => {
+  if (!deckId) {
+    return true;
+  }
+  const hasDeck = deckList.some((item) => item.id === sww.deckId);
+  if (deckId === noDeckId) {
+    return !hasDeck;
+  }
+  return hasDeck && sww.deckId === deckId;
+};
+
+/**
+ * 判断单词是否适用于指定语言
+ * 未分组、分组不存在或分组未设置语言的单词适用于所有语言
+ * @param sww - 单词
+ * @param deckList - 分组列表
+ * @param language - 语言代码，为空时不过滤
+ * @returns 是否适用
+ */
+export const isInLanguage = (sww: Sww, deckList: Deck[], language?: string) => {
+  if (!language) {
+    return true;
+  }
+  const deck = deckList.find((item) => item.id === sww.deckId);
+  if (!deck?.language) {
+    return true;
+  }
+  return isSameLanguage(deck.language, language);
+};
@@ -18,6 +18,7 @@ import type { Sww } from "@/types/words";
 import { Message } from "@/types/chat";
 import { createParser } from "eventsource-parser";
 import type { CollinsWord } from "@/types/index";
+import { isSameLemma } from "./lemmatizer";
 
 // ===================== 文本处理工具 =====================
 
@@ -78,8 +79,31 @@ export const preventBeyondWindow = ({
 
 // ===================== 单词比较工具 =====================
 
+/**
+ * 规范化单词拼写（去除前后空格并转为小写）
+ * 用于按拼写比较单词，以及作为 IndexedDB 中的单词索引
+ * @param word - 单词
+ * @returns 规范化后的单词
+ */
+export const normalizeWord = (word: string) => word.trim().toLocaleLowerCase();
+
+/**
+ * 比较两个单词拼写是否一致（忽略大小写和前后空格）
+ * 用于存储层按单词定位记录，不做词形归并
+ * @param word1 - 第一个单词
+ * @param word2 - 第二个单词
+ * @returns 拼写是否一致
+ */
+export const isSameSpelling = (word1: string, word2: string) => {
+  if (!word1 || !word2) {
+    return false;
+  }
+  return normalizeWord(word1) === normalizeWord(word2);
+};
+
 /**
  * 比较两个单词是否相同（忽略大小写和前后空格）
+ * 同一原形的不同屈折形式（如 run/running/ran）也视为相同单词
  * 用于单词匹配和去重逻辑
  * @param word1 - 第一个单词
  * @param word2 - 第二个单词
@@ -89,12 +113,12 @@ export const isSameWord = (word1: string, word2: string) => {
   if (!word1 || !word2) {
     return false;  // 空值直接返回false
   }
-  return word1.trim().toLocaleLowerCase() === word2.trim().toLocaleLowerCase();
+  return isSameSpelling(word1, word2) || isSameLemma(word1, word2);
 };
 
 /**
  * 从单词列表中查找指定单词
- * 使用isSameWord进行模糊匹配
+ * 优先返回拼写完全一致的单词，其次返回同一原形的单词
  * @param params - 查找参数
  * @param params.word - 要查找的单词
  * @param params.swwList - 单词列表
@@ -107,13 +131,16 @@ export const getCollectWord = ({
   word: string;
   swwList: Sww[];
 }) => {
-  return swwList.find((item) => {
-    return isSameWord(item.word, word);
-  });
+  return (
+    swwList.find((item) => isSameSpelling(item.word, word)) ??
+    swwList.find((item) => {
+      return isSameWord(item.word, word);
+    })
+  );
 };
 
 /**
- * 检查单词列表中是否包含指定单词
+ * 检查单词列表中是否包含指定单词（包括其屈折形式）
  * 使用isSameWord进行模糊匹配
  * @param params - 检查参数
  * @param params.word - 要检查的单词
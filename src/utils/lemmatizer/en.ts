@@ -0,0 +1,575 @@
+/**
+ * 英语离线词形还原规则
+ * - 不规则变化表：常见不规则动词（过去式/过去分词/三单/现在分词）与不规则复数名词
+ * - 规则变化：-s/-es/-ies、-ed/-d/-ied、-ing 以及辅音字母双写，每条规则只生成一种正确的形式
+ * - 例外表：形如屈折形式但本身是独立单词的词（news/feed/shed 等）不视为其他词的变形
+ * - 同时提供“原形 → 屈折形式”的生成，供页面高亮匹配变形词
+ */
+import type { Lemmatizer } from "./index";
+
+// ===================== 不规则变化表 =====================
+
+/** 原形 → 不规则变化形式 */
+const irregularForms: Record<string, string[]> = {
+  // 动词
+  be: ["am", "is", "are", "was", "were", "been", "being"],
+  have: ["has", "had", "having"],
+  do: ["does", "did", "done", "doing"],
+  go: ["goes", "went", "gone", "going"],
+  arise: ["arose", "arisen"],
+  awake: ["awoke", "awoken"],
+  bear: ["bore", "born", "borne"],
+  beat: ["beaten"],
+  become: ["became"],
+  begin: ["began", "begun"],
+  bend: ["bent"],
+  bind: ["bound"],
+  bite: ["bit", "bitten"],
+  bleed: ["bled"],
+  blow: ["blew", "blown"],
+  break: ["broke", "broken"],
+  breed: ["bred"],
+  bring: ["brought"],
+  build: ["built"],
+  burn: ["burnt", "burned"],
+  buy: ["bought"],
+  catch: ["caught"],
+  choose: ["chose", "chosen"],
+  cling: ["clung"],
+  come: ["came"],
+  creep: ["crept"],
+  deal: ["dealt"],
+  dig: ["dug"],
+  draw: ["drew", "drawn"],
+  dream: ["dreamt", "dreamed"],
+  drink: ["drank", "drunk"],
+  drive: ["drove", "driven"],
+  eat: ["ate", "eaten"],
+  fall: ["fell", "fallen"],
+  feed: ["fed"],
+  feel: ["felt"],
+  fight: ["fought"],
+  find: ["found"],
+  flee: ["fled"],
+  fly: ["flew", "flown"],
+  forbid: ["forbade", "forbidden"],
+  forget: ["forgot", "forgotten"],
+  forgive: ["forgave", "forgiven"],
+  freeze: ["froze", "frozen"],
+  get: ["got", "gotten"],
+  give: ["gave", "given"],
+  grow: ["grew", "grown"],
+  hang: ["hung", "hanged"],
+  hear: ["heard"],
+  hide: ["hid", "hidden"],
+  hold: ["held"],
+  keep: ["kept"],
+  kneel: ["knelt", "kneeled"],
+  know: ["knew", "known"],
+  lay: ["laid"],
+  lead: ["led"],
+  lean: ["leant", "leaned"],
+  leap: ["leapt", "leaped"],
+  learn: ["learnt", "learned"],
+  leave: ["left"],
+  lend: ["lent"],
+  lie: ["lay", "lain", "lied"],
+  lose: ["lost"],
+  make: ["made"],
+  mean: ["meant"],
+  meet: ["met"],
+  mistake: ["mistook", "mistaken"],
+  pay: ["paid"],
+  ride: ["rode", "ridden"],
+  ring: ["rang", "rung"],
+  rise: ["rose", "risen"],
+  run: ["ran"],
+  say: ["said"],
+  see: ["saw", "seen"],
+  seek: ["sought"],
+  sell: ["sold"],
+  send: ["sent"],
+  shake: ["shook", "shaken"],
+  shine: ["shone"],
+  shoot: ["shot"],
+  show: ["shown", "showed"],
+  shrink: ["shrank", "shrunk"],
+  sing: ["sang", "sung"],
+  sink: ["sank", "sunk"],
+  sit: ["sat"],
+  sleep: ["slept"],
+  slide: ["slid"],
+  speak: ["spoke", "spoken"],
+  speed: ["sped"],
+  spend: ["spent"],
+  spin: ["spun"],
+  spit: ["spat"],
+  spring: ["sprang", "sprung"],
+  stand: ["stood"],
+  steal: ["stole", "stolen"],
+  stick: ["stuck"],
+  sting: ["stung"],
+  stink: ["stank", "stunk"],
+  strike: ["struck", "stricken"],
+  strive: ["strove", "striven"],
+  swear: ["swore", "sworn"],
+  sweep: ["swept"],
+  swim: ["swam", "swum"],
+  swing: ["swung"],
+  take: ["took", "taken"],
+  teach: ["taught"],
+  tear: ["tore", "torn"],
+  tell: ["told"],
+  think: ["thought"],
+  throw: ["threw", "thrown"],
+  tread: ["trod", "trodden"],
+  understand: ["understood"],
+  wake: ["woke", "woken"],
+  wear: ["wore", "worn"],
+  weave: ["wove", "woven"],
+  weep: ["wept"],
+  win: ["won"],
+  withdraw: ["withdrew", "withdrawn"],
+  write: ["wrote", "written"],
+  // 名词
+  child: ["children"],
+  man: ["men"],
+  woman: ["women"],
+  person: ["people"],
+  foot: ["feet"],
+  tooth: ["teeth"],
+  goose: ["geese"],
+  mouse: ["mice"],
+  ox: ["oxen"],
+  louse: ["lice"],
+  die: ["dice", "died"],
+  knife: ["knives"],
+  wife: ["wives"],
+  life: ["lives"],
+  leaf: ["leaves"],
+  half: ["halves"],
+  wolf: ["wolves"],
+  shelf: ["shelves"],
+  thief: ["thieves"],
+  loaf: ["loaves"],
+  calf: ["calves"],
+  analysis: ["analyses"],
+  crisis: ["crises"],
+  thesis: ["theses"],
+  phenomenon: ["phenomena"],
+  criterion: ["criteria"],
+  datum: ["data"],
+  medium: ["media"],
+  cactus: ["cacti"],
+  fungus: ["fungi"],
+  stimulus: ["stimuli"],
+};
+
+/**
+ * 形如规则屈折形式、实际是独立单词的词
+ * 规则生成的形式命中这里时丢弃，避免 new/news、fee/feed、she/shed 被归并为同一个词
+ */
+const notInflections = new Set([
+  "news",
+  "feed",
+  "shed",
+  "wed",
+  "weed",
+  "need",
+  "red",
+  "has",
+  "his",
+  "hers",
+  "its",
+  "ours",
+  "yours",
+  "theirs",
+  "yes",
+  "evening",
+  "morning",
+  "ceiling",
+  "this",
+]);
+
+/**
+ * 以 e 结尾的常见原形
+ * 由 -ed/-ing 形式去掉后缀补 e 得到的候选（hoped → hope）只有在这里或不规则变化表中时才采用，
+ * 避免 thing → the、wing → we 这类误判
+ */
+const knownLemmas = new Set([
+  "accuse",
+  "achieve",
+  "acquire",
+  "admire",
+  "advise",
+  "agree",
+  "amaze",
+  "amuse",
+  "announce",
+  "argue",
+  "arrange",
+  "arrive",
+  "assume",
+  "bake",
+  "balance",
+  "bathe",
+  "behave",
+  "believe",
+  "blame",
+  "breathe",
+  "browse",
+  "care",
+  "cause",
+  "challenge",
+  "change",
+  "charge",
+  "chase",
+  "close",
+  "combine",
+  "compare",
+  "compete",
+  "complete",
+  "compose",
+  "conclude",
+  "confuse",
+  "consume",
+  "continue",
+  "convince",
+  "cope",
+  "create",
+  "cure",
+  "dance",
+  "date",
+  "debate",
+  "decide",
+  "declare",
+  "decline",
+  "define",
+  "delete",
+  "describe",
+  "deserve",
+  "desire",
+  "determine",
+  "dine",
+  "disagree",
+  "dislike",
+  "dive",
+  "divide",
+  "double",
+  "edge",
+  "educate",
+  "emerge",
+  "encourage",
+  "engage",
+  "ensure",
+  "escape",
+  "estimate",
+  "examine",
+  "exchange",
+  "excite",
+  "exercise",
+  "explore",
+  "expose",
+  "face",
+  "fade",
+  "file",
+  "fine",
+  "force",
+  "free",
+  "gaze",
+  "generate",
+  "glance",
+  "grade",
+  "guarantee",
+  "guide",
+  "handle",
+  "hate",
+  "hire",
+  "hope",
+  "ignore",
+  "imagine",
+  "improve",
+  "include",
+  "increase",
+  "indicate",
+  "injure",
+  "inspire",
+  "introduce",
+  "invite",
+  "involve",
+  "issue",
+  "joke",
+  "judge",
+  "like",
+  "live",
+  "locate",
+  "love",
+  "manage",
+  "measure",
+  "merge",
+  "move",
+  "name",
+  "note",
+  "notice",
+  "observe",
+  "operate",
+  "oppose",
+  "organize",
+  "owe",
+  "pause",
+  "persuade",
+  "phone",
+  "place",
+  "please",
+  "pose",
+  "praise",
+  "prepare",
+  "produce",
+  "promise",
+  "promote",
+  "propose",
+  "provide",
+  "purchase",
+  "quote",
+  "race",
+  "raise",
+  "rate",
+  "realize",
+  "receive",
+  "recognize",
+  "reduce",
+  "refuse",
+  "relate",
+  "release",
+  "relieve",
+  "remove",
+  "replace",
+  "require",
+  "rescue",
+  "reserve",
+  "resolve",
+  "retire",
+  "revise",
+  "rule",
+  "save",
+  "scare",
+  "schedule",
+  "score",
+  "secure",
+  "serve",
+  "settle",
+  "share",
+  "shave",
+  "smile",
+  "smoke",
+  "solve",
+  "squeeze",
+  "stare",
+  "state",
+  "store",
+  "struggle",
+  "suppose",
+  "surprise",
+  "survive",
+  "taste",
+  "tease",
+  "tie",
+  "tire",
+  "trace",
+  "trade",
+  "translate",
+  "trouble",
+  "type",
+  "unite",
+  "urge",
+  "use",
+  "value",
+  "vote",
+  "waste",
+  "wipe",
+  ...Object.keys(irregularForms),
+]);
+
+/** 不规则变化形式 → 原形（由 irregularForms 反转得到） */
+const irregularLemmas: Record<string, string[]> = {};
+Object.entries(irregularForms).forEach(([lemma, forms]) => {
+  forms.forEach((form) => {
+    irregularLemmas[form] = [...(irregularLemmas[form] ?? []), lemma];
+  });
+});
+
+// ===================== 规则变化 =====================
+
+const vowels = "aeiou";
+
+/** 是否为辅音字母 */
+const isConsonant = (char: string | undefined) =>
+  Boolean(char) && /[a-z]/.test(char!) && !vowels.includes(char!);
+
+/** 重音在末音节、加后缀时双写末尾辅音的多音节词（无法按拼写判断） */
+const doubledLemmas = new Set([
+  "admit",
+  "commit",
+  "compel",
+  "control",
+  "equip",
+  "excel",
+  "expel",
+  "occur",
+  "omit",
+  "patrol",
+  "permit",
+  "prefer",
+  "propel",
+  "quit",
+  "quiz",
+  "rebel",
+  "refer",
+  "regret",
+  "submit",
+  "transfer",
+  "upset",
+]);
+
+/**
+ * 加后缀时是否双写末尾辅音：以“辅音-元音-辅音”结尾的单音节词（如 stop/run），
+ * 末尾为 w/x/y 时不双写；多音节词只有 doubledLemmas 中的双写
+ */
+const shouldDouble = (word: string) => {
+  if (doubledLemmas.has(word)) {
+    return true;
+  }
+  const [c1, v, c2] = word.slice(-3).split("");
+  return (
+    word.length >= 3 &&
+    word.match(/[aeiou]+/g)?.length === 1 &&
+    isConsonant(c1) &&
+    vowels.includes(v) &&
+    isConsonant(c2) &&
+    !"wxy".includes(c2)
+  );
+};
+
+/** 以 s/x/z/ch/sh/o 结尾的词复数与三单加 -es */
+const needsEs = (word: string) => /(s|x|z|ch|sh|o)$/.test(word);
+
+/** 末尾为“辅音 + y” */
+const endsWithConsonantY = (word: string) =>
+  /y$/.test(word) && isConsonant(word[word.length - 2]);
+
+/** 去掉双写的末尾辅音：runn → run */
+const undouble = (stem: string) =>
+  stem.length >= 3 && stem[stem.length - 1] === stem[stem.length - 2]
+    ? [stem.slice(0, -1)]
+    : [];
+
+/**
+ * 去掉后缀后的词干是否可能是单词：至少 3 个字母且包含元音
+ */
+const isPlausibleStem = (stem: string) =>
+  stem.length >= 3 && /[aeiouy]/.test(stem);
+
+/**
+ * 屈折形式 → 可能的原形
+ * 每条后缀规则按优先级列出候选（如 stopped：先 stop 再 stopp），只取第一个能反向生成原词的候选；
+ * 词干需可能是单词，去掉 -ed/-ing 后补 e 的候选需在 knownLemmas 中
+ */
+const lemmas = (word: string) => {
+  const candidates: string[] = [];
+
+  if (/ies$/.test(word)) {
+    candidates.push(word.slice(0, -3) + "y");
+  }
+  if (/es$/.test(word)) {
+    candidates.push(word.slice(0, -2));
+  }
+  if (/s$/.test(word)) {
+    candidates.push(word.slice(0, -1));
+  }
+
+  if (/ied$/.test(word)) {
+    candidates.push(word.slice(0, -3) + "y");
+  }
+  if (/ed$/.test(word)) {
+    const stem = word.slice(0, -2);
+    candidates.push(...undouble(stem));
+    if (knownLemmas.has(word.slice(0, -1))) {
+      candidates.push(word.slice(0, -1));
+    }
+    candidates.push(stem);
+  }
+
+  if (/ying$/.test(word)) {
+    candidates.push(word.slice(0, -4) + "ie");
+  }
+  if (/ing$/.test(word)) {
+    const stem = word.slice(0, -3);
+    candidates.push(...undouble(stem));
+    if (knownLemmas.has(stem + "e")) {
+      candidates.push(stem + "e");
+    }
+    candidates.push(stem);
+  }
+
+  const regular = candidates.find(
+    (item) =>
+      (isPlausibleStem(item) || knownLemmas.has(item)) &&
+      inflections(item).includes(word)
+  );
+  return [...(irregularLemmas[word] ?? []), ...(regular ? [regular] : [])];
+};
+
+/**
+ * 原形 → 常见屈折形式（复数/三单、过去式、现在分词以及不规则形式）
+ * 每条规则只生成一种形式；有不规则变化的词不再生成规则的 -ed 形式，避免 see → seed 这类误匹配
+ */
+const inflections = (lemma: string) => {
+  const irregular = irregularForms[lemma];
+  // be/have/do/go 的不规则变化表已包含三单与现在分词，不再生成 bes/bing 这类规则形式
+  if (irregular?.some((form) => /ing$/.test(form))) {
+    return irregular;
+  }
+  const result: string[] = [];
+
+  // 复数 / 第三人称单数
+  if (endsWithConsonantY(lemma)) {
+    result.push(lemma.slice(0, -1) + "ies");
+  } else if (needsEs(lemma)) {
+    result.push(lemma + "es");
+  } else {
+    result.push(lemma + "s");
+  }
+
+  // 过去式 / 过去分词
+  if (!irregular) {
+    if (endsWithConsonantY(lemma)) {
+      result.push(lemma.slice(0, -1) + "ied");
+    } else if (/e$/.test(lemma)) {
+      result.push(lemma + "d");
+    } else if (shouldDouble(lemma)) {
+      result.push(lemma + lemma[lemma.length - 1] + "ed");
+    } else {
+      result.push(lemma + "ed");
+    }
+  }
+
+  // 现在分词
+  if (/ie$/.test(lemma)) {
+    result.push(lemma.slice(0, -2) + "ying");
+  } else if (/[^eyo]e$/.test(lemma)) {
+    result.push(lemma.slice(0, -1) + "ing");
+  } else if (shouldDouble(lemma)) {
+    result.push(lemma + lemma[lemma.length - 1] + "ing");
+  } else {
+    result.push(lemma + "ing");
+  }
+
+  return [
+    ...(irregular ?? []),
+    ...result.filter((form) => !notInflections.has(form)),
+  ];
+};
+
+const englishLemmatizer: Lemmatizer = { lemmas, inflections };
+
+export default englishLemmatizer;
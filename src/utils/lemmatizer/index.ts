@@ -0,0 +1,151 @@
+/**
+ * 可插拔的词形还原（lemmatization）
+ * - 按语言注册 Lemmatizer，内置离线英语规则集（含不规则变化表）
+ * - 查词、收藏去重与页面高亮统一通过这里把屈折形式归并到同一个生词
+ * - 未注册的语言不做还原，只按原词比较
+ */
+import englishLemmatizer from "./en";
+
+/**
+ * 词形还原器接口
+ * lemmas 负责产生候选原形，inflections 负责由原形生成屈折形式；
+ * 候选原形只有在其屈折形式包含原词时才会被采用；但 thing → the 这类候选同样能通过反向校验，
+ * 因此 lemmas 只应返回可能是真实单词的候选
+ */
+export interface Lemmatizer {
+  /** 屈折形式 → 候选原形 */
+  lemmas: (word: string) => string[];
+  /** 原形 → 屈折形式 */
+  inflections: (lemma: string) => string[];
+}
+
+// ===================== 注册表 =====================
+
+const lemmatizers: Record<string, Lemmatizer> = {
+  en: englishLemmatizer,
+};
+
+/** 候选原形缓存，isSameWord 会在整个生词本上频繁调用 */
+const lemmaCache = new Map<string, string[]>();
+
+/**
+ * 注册（或覆盖）某种语言的词形还原器
+ * @param lang - 语言代码，如 en、fr
+ * @param lemmatizer - 词形还原器
+ */
+export const registerLemmatizer = (lang: string, lemmatizer: Lemmatizer) => {
+  lemmatizers[lang] = lemmatizer;
+  lemmaCache.clear();
+};
+
+/**
+ * 当前学习语言管理器
+ * 由设置中的 sourceLanguage 决定，未设置时默认为英语
+ */
+const lemmaLanguageManager = () => {
+  let language = "en";
+  return {
+    getLemmaLanguage() {
+      return language;
+    },
+    setLemmaLanguage(lang: string | undefined) {
+      if (lang && lang !== language) {
+        language = lang;
+      }
+    },
+  };
+};
+
+export const { getLemmaLanguage, setLemmaLanguage } = lemmaLanguageManager();
+
+/**
+ * 获取语言对应的词形还原器（en-US 等带地区的代码回退到 en）
+ * @param lang - 语言代码
+ * @returns 词形还原器，未注册时为 undefined
+ */
+const getLemmatizer = (lang: string) =>
+  lemmatizers[lang] ?? lemmatizers[lang.split("-")[0]];
+
+// ===================== 还原与生成 =====================
+
+/** 统一大小写与首尾空白 */
+const normalize = (word: string) => word.trim().toLocaleLowerCase();
+
+/**
+ * 获取单词所有可能的原形（包含单词本身）
+ * 短语（含空白）不做还原
+ * @param word - 单词
+ * @param lang - 语言代码，默认当前学习语言
+ * @returns 原形数组
+ */
+export const getLemmas = (word: string, lang = getLemmaLanguage()) => {
+  const normalized = normalize(word);
+  const lemmatizer = getLemmatizer(lang);
+  if (!lemmatizer || /\s/.test(normalized)) {
+    return [normalized];
+  }
+  const key = `${lang}:${normalized}`;
+  const cached = lemmaCache.get(key);
+  if (cached) {
+    return cached;
+  }
+  const result = [
+    normalized,
+    ...lemmatizer
+      .lemmas(normalized)
+      .filter(
+        (lemma) =>
+          lemma !== normalized &&
+          lemmatizer.inflections(lemma).includes(normalized)
+      ),
+  ];
+  const unique = [...new Set(result)];
+  lemmaCache.set(key, unique);
+  return unique;
+};
+
+/**
+ * 获取单词本身及其屈折形式，用于页面高亮匹配
+ * @param word - 单词（通常为生词本中收藏的原形）
+ * @param lang - 语言代码，默认当前学习语言
+ * @returns 单词及其屈折形式数组
+ */
+export const getInflections = (word: string, lang = getLemmaLanguage()) => {
+  const normalized = normalize(word);
+  const lemmatizer = getLemmatizer(lang);
+  if (!lemmatizer || /\s/.test(normalized)) {
+    return [normalized];
+  }
+  return [...new Set([normalized, ...lemmatizer.inflections(normalized)])];
+};
+
+/**
+ * 获取与单词同一原形的所有形式：先还原为原形，再展开各原形的屈折形式
+ * 如 running → run/runs/running/ran；单词本身能还原时只展开还原得到的原形（避免 running → runninged）
+ * @param word - 单词（可以是屈折形式）
+ * @param lang - 语言代码，默认当前学习语言
+ * @returns 单词的所有形式
+ */
+export const getWordForms = (word: string, lang = getLemmaLanguage()) => {
+  const [normalized, ...lemmas] = getLemmas(word, lang);
+  const bases = lemmas.length ? lemmas : [normalized];
+  return [
+    ...new Set([normalized, ...bases.flatMap((lemma) => getInflections(lemma, lang))]),
+  ];
+};
+
+/**
+ * 判断两个单词是否为同一原形的不同形式
+ * @param word1 - 第一个单词
+ * @param word2 - 第二个单词
+ * @param lang - 语言代码，默认当前学习语言
+ * @returns 是否共享原形
+ */
+export const isSameLemma = (
+  word1: string,
+  word2: string,
+  lang = getLemmaLanguage()
+) => {
+  const lemmas2 = getLemmas(word2, lang);
+  return getLemmas(word1, lang).some((lemma) => lemmas2.includes(lemma));
+};
@@ -0,0 +1,127 @@
+/**
+ * 本地生词本工具
+ * - 按分组、掌握状态（WordType）、重要程度（WeightRange）与关键字筛选生词
+ * - 按收藏时间或重要程度（SortType）排序
+ */
+import type { Deck, SortType, Sww, WeightRange, WordType } from "@/types/words";
+import { isInDeck } from "./deck";
+
+// ===================== 筛选 =====================
+
+/**
+ * 是否已掌握（masteryLevel 为 1 或 2）
+ * @param sww - 单词
+ * @returns 是否已掌握
+ */
+export const isMastered = (sww: Sww) =>
+  sww.masteryLevel === 1 || sww.masteryLevel === 2;
+
+/** 重要程度区间对应的最小 weight，未设置 weight 的单词按 1 处理 */
+const minWeightOfRange: Record<WeightRange, number> = {
+  e5: 5,
+  gtoe4: 4,
+  gtoe3: 3,
+  all: 0,
+};
+
+/**
+ * 判断单词是否落在重要程度区间内
+ * @param sww - 单词
+ * @param weightRange - 重要程度区间
+ * @returns 是否匹配
+ */
+const matchWeight = (sww: Sww, weightRange: WeightRange) =>
+  (sww.weight ?? 1) >= minWeightOfRange[weightRange];
+
+/**
+ * 判断单词是否匹配掌握状态
+ * @param sww - 单词
+ * @param wordType - 掌握状态
+ * @returns 是否匹配
+ */
+const matchType = (sww: Sww, wordType: WordType) => {
+  if (wordType === "mastered") {
+    return isMastered(sww);
+  }
+  if (wordType === "unMastered") {
+    return !isMastered(sww);
+  }
+  return true;
+};
+
+/**
+ * 判断单词、上下文或备注中是否包含关键字（忽略大小写）
+ * @param sww - 单词
+ * @param keyword - 关键字
+ * @returns 是否匹配
+ */
+const matchKeyword = (sww: Sww, keyword: string) => {
+  const text = keyword.trim().toLocaleLowerCase();
+  if (!text) {
+    return true;
+  }
+  const sentences = sww.contexts?.map((item) => item.sentence) ?? [];
+  return [sww.word, sww.context, sww.remark, ...sentences].some((item) =>
+    item?.toLocaleLowerCase().includes(text)
+  );
+};
+
+/**
+ * 筛选并排序生词本
+ * @param params - 筛选参数
+ * @param params.swwList - 生词本
+ * @param params.deckId - 分组ID，空字符串表示全部
+ * @param params.deckList - 分组列表
+ * @param params.wordType - 掌握状态
+ * @param params.weightRange - 重要程度区间
+ * @param params.sortType - 排序方式
+ * @param params.keyword - 搜索关键字
+ * @returns 筛选排序后的新数组
+ */
+export const filterSwwList = ({
+  swwList,
+  deckId,
+  deckList,
+  wordType,
+  weightRange,
+  sortType,
+  keyword,
+}: {
+  swwList: Sww[];
+  deckId: string;
+  deckList: Deck[];
+  wordType: WordType;
+  weightRange: WeightRange;
+  sortType: SortType;
+  keyword: string;
+}) => {
+  return sortSwwList(
+    swwList.filter(
+      (item) =>
+        isInDeck(item, deckId, deckList) &&
+        matchType(item, wordType) &&
+        matchWeight(item, weightRange) &&
+        matchKeyword(item, keyword)
+    ),
+    sortType
+  );
+};
+
+// ===================== 排序 =====================
+
+/**
+ * 生词排序：time 按最近编辑时间倒序；weight 按重要程度倒序，相同时按时间倒序
+ * @param swwList - 生词本
+ * @param sortType - 排序方式
+ * @returns 排序后的新数组
+ */
+export const sortSwwList = (swwList: Sww[], sortType: SortType) => {
+  const byTime = (a: Sww, b: Sww) =>
+    (b.lastEditDate ?? 0) - (a.lastEditDate ?? 0);
+  return [...swwList].sort((a, b) => {
+    if (sortType === "weight") {
+      return (b.weight ?? 1) - (a.weight ?? 1) || byTime(a, b);
+    }
+    return byTime(a, b);
+  });
+};
@@ -0,0 +1,60 @@
+/**
+ * 单词上下文出现记录工具
+ * - 每个生词保存多条上下文（句子、来源页面地址与标题、时间），新记录在前
+ * - Sww.context 始终保持为最近一次的句子，兼容后端接口与高亮/测验等旧逻辑
+ * - 旧数据只有 context 时视为一条没有来源的记录
+ */
+import type { ContextOccurrence, Sww } from "@/types/words";
+import { isInPopup } from "@/utils";
+
+/** 每个单词最多保留的上下文条数 */
+const maxOccurrenceCount = 20;
+
+/**
+ * 获取单词的所有上下文记录（新记录在前）
+ * @param sww - 单词
+ * @returns 上下文记录数组
+ */
+export const getOccurrences = (sww: Sww): ContextOccurrence[] => {
+  if (sww.contexts?.length) {
+    return sww.contexts;
+  }
+  if (sww.context) {
+    return [{ sentence: sww.context, date: sww.lastEditDate ?? 0 }];
+  }
+  return [];
+};
+
+/**
+ * 以当前页面为来源创建一条上下文记录（Popup 中没有来源页面）
+ * @param sentence - 上下文句子
+ * @returns 上下文记录
+ */
+export const createOccurrence = (sentence: string): ContextOccurrence => ({
+  sentence,
+  url: isInPopup ? undefined : location.href,
+  title: isInPopup ? undefined : document.title,
+  date: Date.now(),
+});
+
+/**
+ * 向单词追加一条上下文记录
+ * 句子相同的旧记录会被替换（更新来源与时间），并同步更新 context 为最新句子
+ * @param sww - 单词
+ * @param occurrence - 新的上下文记录
+ * @returns 更新后的单词
+ */
+export const appendOccurrence = (
+  sww: Sww,
+  occurrence: ContextOccurrence
+): Sww => {
+  const sentence = occurrence.sentence.trim();
+  if (!sentence) {
+    return sww;
+  }
+  const contexts = [
+    { ...occurrence, sentence },
+    ...getOccurrences(sww).filter((item) => item.sentence.trim() !== sentence),
+  ].slice(0, maxOccurrenceCount);
+  return { ...sww, context: sentence, contexts };
+};
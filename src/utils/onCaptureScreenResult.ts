@@ -1,4 +1,4 @@
-import { getSetting } from "@/storage/sync";
+import { getSecret } from "@/storage/secret";
 import { sendBackgroundFetch } from ".";
 import { toastManager } from "@/components/Toast";
 let isCapturing = false;
@@ -6,7 +6,7 @@ export default async function onCaptureScreenResult(
   dataUrl: string,
   callback: (result: string, domRect: DOMRect) => void
 ) {
-  const token = await (await getSetting()).screenshotToken;
+  const token = await getSecret("screenshotToken");
   if (!token) {
     toastManager.add({
       type: 'error',
@@ -0,0 +1,189 @@
+/**
+ * 完形填空测验工具
+ * - 将收藏单词在其上下文中挖空，生成完形填空题
+ * - 按词性（基于词尾的粗略推断）与长度相近程度挑选干扰项
+ * - 根据作答结果调整单词的 weight 与 masteryLevel
+ */
+import type { Sww } from "@/types/words";
+import { isSameWord } from "@/utils";
+import { getWordForms } from "@/utils/lemmatizer";
+
+// ===================== 题目生成 =====================
+
+/** 填空占位符 */
+export const clozeBlank = "_____";
+
+/** 连续答对多少次后标记为已掌握 */
+const masteredStreak = 3;
+
+/** weight 取值范围 */
+const minWeight = 1;
+const maxWeight = 5;
+
+/**
+ * 转义正则特殊字符
+ * @param str - 原始字符串
+ * @returns 可安全用于 RegExp 的字符串
+ */
+const escapeRegExp = (str: string) =>
+  str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * 生成匹配单词各种形式的正则（整词匹配，忽略大小写）
+ * 单词先还原为原形再展开屈折形式，较长的形式优先匹配
+ * @param word - 单词
+ * @param flags - 额外的正则标志
+ * @returns 带一个捕获组的正则
+ */
+const getWordRegExp = (word: string, flags = "") => {
+  const forms = getWordForms(word.trim())
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  return new RegExp(`\\b(${forms.join("|")})\\b`, `i${flags}`);
+};
+
+/**
+ * 判断上下文中是否包含该单词或其屈折形式（整词匹配，忽略大小写）
+ * @param sww - 单词
+ * @returns 是否可以生成完形填空题
+ */
+export const canCloze = (sww: Sww) => {
+  if (!sww.context || !sww.word.trim()) {
+    return false;
+  }
+  return getWordRegExp(sww.word).test(sww.context);
+};
+
+/**
+ * 将上下文按单词（含屈折形式）切分，单词所在位置替换为空白
+ * 与 Highlight 组件的切分方式一致，保留其余文本
+ * @param context - 上下文句子
+ * @param word - 需要挖空的单词
+ * @returns 文本片段数组，空白处为 null
+ */
+export const buildCloze = (context: string, word: string) => {
+  // split 的结果中捕获组（匹配到的单词）总在奇数位置
+  return context
+    .split(getWordRegExp(word, "g"))
+    .map((part, index) => (index % 2 === 1 ? null : part));
+};
+
+// ===================== 干扰项 =====================
+
+/** 粗略词性 */
+type RoughPos = "noun" | "verb" | "adj" | "adv" | "unknown";
+
+/** 词尾与词性的对应关系（按优先级排列） */
+const suffixPos: [RegExp, RoughPos][] = [
+  [/ly$/i, "adv"],
+  [/(tion|sion|ment|ness|ity|ship|ism|ance|ence|er|or|ist)$/i, "noun"],
+  [/(ous|ful|able|ible|ive|less|al|ic|ish|ary)$/i, "adj"],
+  [/(ing|ed|ize|ise|ify|ate|en)$/i, "verb"],
+];
+
+/**
+ * 根据词尾推断单词的大致词性
+ * @param word - 单词
+ * @returns 粗略词性，无法判断时为 unknown
+ */
+export const guessPos = (word: string): RoughPos => {
+  const matched = suffixPos.find(([reg]) => reg.test(word.trim()));
+  return matched ? matched[1] : "unknown";
+};
+
+/**
+ * 打乱数组顺序（Fisher-Yates）
+ * @param arr - 原数组
+ * @returns 打乱后的新数组
+ */
+export const shuffle = <T>(arr: T[]) => {
+  const result = [...arr];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * 判断是否为单个词（排除短语作为干扰项）
+ * @param word - 单词
+ * @returns 是否不含空白
+ */
+const isWordLike = (word: string) => !/\s/.test(word.trim());
+
+/**
+ * 从生词本中挑选干扰项
+ * 词性相同的优先，其次长度差越小越优先，同分随机
+ * @param target - 题目单词
+ * @param swwList - 生词本
+ * @param count - 干扰项数量
+ * @returns 干扰项单词数组
+ */
+export const getDistractors = (target: Sww, swwList: Sww[], count = 3) => {
+  const targetPos = guessPos(target.word);
+  const targetLength = target.word.trim().length;
+  const candidates = shuffle(
+    swwList.filter(
+      (item) => !isSameWord(item.word, target.word) && isWordLike(item.word)
+    )
+  );
+  const score = (item: Sww) => {
+    const samePos = targetPos !== "unknown" && guessPos(item.word) === targetPos;
+    return (
+      (samePos ? 0 : 3) + Math.abs(item.word.trim().length - targetLength)
+    );
+  };
+  const words: string[] = [];
+  for (const item of candidates.sort((a, b) => score(a) - score(b))) {
+    if (words.length >= count) {
+      break;
+    }
+    if (!words.some((word) => isSameWord(word, item.word))) {
+      words.push(item.word.trim());
+    }
+  }
+  return words;
+};
+
+/**
+ * 生成选择题选项（正确答案与干扰项混合后打乱）
+ * @param target - 题目单词
+ * @param swwList - 生词本
+ * @returns 选项数组
+ */
+export const getChoices = (target: Sww, swwList: Sww[]) => {
+  return shuffle([target.word.trim(), ...getDistractors(target, swwList)]);
+};
+
+// ===================== 结果反馈 =====================
+
+/**
+ * 根据作答结果更新单词
+ * - 答对：连续答对次数+1，weight 降低；连续答对达到阈值后标记为已掌握
+ * - 答错：连续答对次数清零，weight 提高，并回到未掌握状态
+ * - 记录编辑时间，同步时以最新的作答结果为准
+ * @param sww - 单词
+ * @param correct - 是否答对
+ * @returns 更新后的单词
+ */
+export const applyQuizResult = (sww: Sww, correct: boolean): Sww => {
+  const weight = sww.weight ?? minWeight;
+  if (correct) {
+    const quizStreak = (sww.quizStreak ?? 0) + 1;
+    return {
+      ...sww,
+      quizStreak,
+      lastEditDate: Date.now(),
+      weight: Math.max(minWeight, weight - 1),
+      masteryLevel: quizStreak >= masteredStreak ? 1 : sww.masteryLevel,
+    };
+  }
+  return {
+    ...sww,
+    quizStreak: 0,
+    lastEditDate: Date.now(),
+    weight: Math.min(maxWeight, weight + 1),
+    masteryLevel: 0,
+  };
+};
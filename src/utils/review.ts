@@ -0,0 +1,141 @@
+/**
+ * 间隔重复调度（SM-2 变体）
+ * - 根据复习评分计算下一次复习时间、间隔与难度系数（ease）
+ * - 记录遗忘次数（lapses）与复习历史，供练习与统计使用
+ * - 提供“今日待复习”队列的筛选与排序
+ */
+import type { ReviewGrade, ReviewRecord, Sww } from "@/types/words";
+
+// ===================== 调度参数 =====================
+
+/** 一天的毫秒数 */
+export const DAY = 24 * 60 * 60 * 1000;
+
+/** 初始难度系数 */
+export const defaultEase = 2.5;
+
+/** 难度系数下限 */
+const minEase = 1.3;
+
+/** 每个单词保留的复习记录条数上限 */
+const maxReviewHistory = 50;
+
+/** 复习评分列表（按从难到易排序） */
+export const reviewGrades: ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+// ===================== 时间工具 =====================
+
+/**
+ * 获取指定时间所在日期的结束时间戳（本地时区 23:59:59.999）
+ * @param now - 参考时间戳
+ * @returns 当天结束的时间戳
+ */
+export const endOfDay = (now: number) => {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+// ===================== 调度计算 =====================
+
+/**
+ * 根据评分计算单词的下一次复习安排
+ * - again：重置连续次数，遗忘次数+1，间隔回到1天，ease降低
+ * - hard：间隔小幅增长，ease降低
+ * - good：按 SM-2 规则增长（1天 → 6天 → 间隔×ease）
+ * - easy：在 good 的基础上额外放大间隔，ease提高
+ * @param sww - 当前单词
+ * @param grade - 复习评分
+ * @param now - 复习时间，默认当前时间
+ * @returns 更新了调度字段的新单词对象
+ */
+export const scheduleReview = (
+  sww: Sww,
+  grade: ReviewGrade,
+  now = Date.now()
+): Sww => {
+  const prevInterval = sww.interval ?? 0;
+  const repetitions = sww.repetitions ?? 0;
+  let ease = sww.ease ?? defaultEase;
+  let lapses = sww.lapses ?? 0;
+  let interval: number;
+  let nextRepetitions: number;
+
+  if (grade === "again") {
+    interval = 1;
+    nextRepetitions = 0;
+    lapses += 1;
+    ease -= 0.2;
+  } else {
+    if (grade === "hard") {
+      interval = Math.max(1, Math.round(prevInterval * 1.2));
+      ease -= 0.15;
+    } else {
+      if (repetitions === 0) {
+        interval = 1;
+      } else if (repetitions === 1) {
+        interval = 6;
+      } else {
+        interval = Math.round(prevInterval * ease);
+      }
+      if (grade === "easy") {
+        interval = Math.round(interval * 1.3) + 1;
+        ease += 0.15;
+      }
+    }
+    nextRepetitions = repetitions + 1;
+  }
+
+  const record: ReviewRecord = { date: now, grade, interval };
+
+  return {
+    ...sww,
+    ease: Math.max(minEase, Number(ease.toFixed(2))),
+    interval,
+    repetitions: nextRepetitions,
+    lapses,
+    dueDate: now + interval * DAY,
+    lastEditDate: now,
+    masteryLevel: grade === "again" ? 0 : sww.masteryLevel,
+    reviewHistory: [...(sww.reviewHistory ?? []), record].slice(
+      -maxReviewHistory
+    ),
+  };
+};
+
+// ===================== 待复习队列 =====================
+
+/**
+ * 判断单词是否到期需要复习
+ * - 已安排复习时间的单词：到期日不晚于今天结束即为到期
+ * - 从未复习过的单词：未掌握则视为新卡片，立即到期
+ * @param sww - 单词
+ * @param now - 参考时间，默认当前时间
+ * @returns 是否到期
+ */
+export const isDue = (sww: Sww, now = Date.now()) => {
+  if (sww.dueDate === undefined) {
+    return sww.masteryLevel !== 1 && sww.masteryLevel !== 2;
+  }
+  return sww.dueDate <= endOfDay(now);
+};
+
+/**
+ * 获取今日待复习队列
+ * 先按到期时间升序（新卡片排在已安排的单词之后），再按收藏时间升序
+ * @param swwList - 单词列表
+ * @param now - 参考时间，默认当前时间
+ * @returns 到期单词列表
+ */
+export const getDueList = (swwList: Sww[], now = Date.now()) => {
+  return swwList
+    .filter((item) => isDue(item, now))
+    .sort((a, b) => {
+      const dueA = a.dueDate ?? Infinity;
+      const dueB = b.dueDate ?? Infinity;
+      if (dueA !== dueB) {
+        return dueA - dueB;
+      }
+      return (a.lastEditDate ?? 0) - (b.lastEditDate ?? 0);
+    });
+};
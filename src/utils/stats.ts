@@ -0,0 +1,214 @@
+/**
+ * 学习统计工具
+ * - 全部基于本地存储中的生词本、查词历史与复习记录在本地计算，不依赖后端
+ * - 提供每日新增、掌握趋势、复习连续天数、活跃度热力图以及按重要程度/考试标签的分布
+ */
+import type { LookupHistory, Sww } from "@/types/words";
+import { DAY } from "./review";
+import { isMastered } from "./notebook";
+
+// ===================== 日期工具 =====================
+
+/**
+ * 获取本地日期键（YYYY-MM-DD）
+ * @param time - 时间戳
+ * @returns 日期键
+ */
+export const dayKey = (time: number) => {
+  const date = new Date(time);
+  const month = `${date.getMonth() + 1}`.padStart(2, "0");
+  const day = `${date.getDate()}`.padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * 获取截至今天的最近若干天（从早到晚）的日期键
+ * @param days - 天数
+ * @param now - 当前时间
+ * @returns 日期键数组
+ */
+export const recentDayKeys = (days: number, now = Date.now()) => {
+  return Array.from({ length: days }, (_, index) =>
+    dayKey(now - (days - 1 - index) * DAY)
+  );
+};
+
+/**
+ * 按日期键计数
+ * @param times - 时间戳数组
+ * @returns 日期键 → 次数
+ */
+const countByDay = (times: number[]) => {
+  const result: Record<string, number> = {};
+  times.forEach((time) => {
+    const key = dayKey(time);
+    result[key] = (result[key] ?? 0) + 1;
+  });
+  return result;
+};
+
+// ===================== 单词时间 =====================
+
+/**
+ * 获取单词的收藏时间
+ * 旧数据没有 createDate 时取最早的上下文记录时间或最近编辑时间
+ * @param sww - 单词
+ * @returns 收藏时间戳，无法确定时为 undefined
+ */
+export const getCreateDate = (sww: Sww) => {
+  if (sww.createDate) {
+    return sww.createDate;
+  }
+  const dates = [
+    ...(sww.contexts ?? []).map((item) => item.date),
+    sww.lastEditDate ?? 0,
+  ].filter(Boolean);
+  return dates.length ? Math.min(...dates) : undefined;
+};
+
+/**
+ * 记录掌握时间：单词由未掌握变为已掌握时写入 masteredDate，变回未掌握时清除
+ * @param prev - 更新前的单词
+ * @param next - 更新后的单词
+ * @param now - 当前时间
+ * @returns 带有掌握时间的单词
+ */
+export const stampMastery = (
+  prev: Sww | undefined,
+  next: Sww,
+  now = Date.now()
+): Sww => {
+  if (!isMastered(next)) {
+    return next.masteredDate ? { ...next, masteredDate: undefined } : next;
+  }
+  if (prev && isMastered(prev)) {
+    return next;
+  }
+  return { ...next, masteredDate: now };
+};
+
+// ===================== 统计 =====================
+
+/**
+ * 最近若干天每天新增的单词数
+ * @param swwList - 生词本
+ * @param days - 天数
+ * @returns 每天的日期与数量
+ */
+export const getAddedPerDay = (swwList: Sww[], days = 30) => {
+  const counts = countByDay(
+    swwList.map(getCreateDate).filter((item): item is number => Boolean(item))
+  );
+  return recentDayKeys(days).map((day) => ({ day, count: counts[day] ?? 0 }));
+};
+
+/**
+ * 最近若干天每天结束时已掌握单词的累计数量
+ * 旧数据没有 masteredDate 时以最近编辑时间近似
+ * @param swwList - 生词本
+ * @param days - 天数
+ * @returns 每天的日期与累计数量
+ */
+export const getMasteredOverTime = (swwList: Sww[], days = 30) => {
+  const masteredDays = swwList
+    .filter(isMastered)
+    .map((item) => dayKey(item.masteredDate ?? item.lastEditDate ?? 0))
+    .sort();
+  return recentDayKeys(days).map((day) => ({
+    day,
+    count: masteredDays.filter((item) => item <= day).length,
+  }));
+};
+
+/**
+ * 所有复习记录的时间
+ * @param swwList - 生词本
+ * @returns 时间戳数组
+ */
+const getReviewTimes = (swwList: Sww[]) =>
+  swwList.flatMap((item) => (item.reviewHistory ?? []).map((im) => im.date));
+
+/**
+ * 当前复习连续天数
+ * 今天尚未复习时从昨天开始往前计算，不会因为今天还没复习而中断
+ * @param swwList - 生词本
+ * @param now - 当前时间
+ * @returns 连续天数
+ */
+export const getReviewStreak = (swwList: Sww[], now = Date.now()) => {
+  const reviewDays = new Set(getReviewTimes(swwList).map(dayKey));
+  let cursor = reviewDays.has(dayKey(now)) ? now : now - DAY;
+  let streak = 0;
+  while (reviewDays.has(dayKey(cursor))) {
+    streak++;
+    cursor -= DAY;
+  }
+  return streak;
+};
+
+/**
+ * 活跃度热力图数据：每天的查词、新增与复习次数之和
+ * 以周为列，从若干周前的周日开始，到今天为止
+ * @param swwList - 生词本
+ * @param historyList - 查词历史
+ * @param weeks - 周数
+ * @param now - 当前时间
+ * @returns 按周分组的每日活跃度，未来的日期为 null
+ */
+export const getHeatmap = (
+  swwList: Sww[],
+  historyList: LookupHistory[],
+  weeks = 20,
+  now = Date.now()
+) => {
+  const counts = countByDay([
+    ...historyList.map((item) => item.date),
+    ...swwList.map(getCreateDate).filter((item): item is number => Boolean(item)),
+    ...getReviewTimes(swwList),
+  ]);
+  const start = now - (new Date(now).getDay() + (weeks - 1) * 7) * DAY;
+  const today = dayKey(now);
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => {
+      const day = dayKey(start + (week * 7 + weekday) * DAY);
+      return day > today ? null : { day, count: counts[day] ?? 0 };
+    })
+  );
+};
+
+/**
+ * 按重要程度（weight 1-5）统计单词数量
+ * @param swwList - 生词本
+ * @returns 每个重要程度的数量
+ */
+export const getWeightBreakdown = (swwList: Sww[]) => {
+  return [1, 2, 3, 4, 5].map((weight) => ({
+    weight,
+    count: swwList.filter((item) => (item.weight ?? 1) === weight).length,
+  }));
+};
+
+/**
+ * 按考试标签统计单词数量（数量多的在前），没有标签的单词单独计数
+ * @param swwList - 生词本
+ * @returns 标签分布与无标签数量
+ */
+export const getExamTagBreakdown = (swwList: Sww[]) => {
+  const counts: Record<string, number> = {};
+  let untagged = 0;
+  swwList.forEach((item) => {
+    if (!item.examTags?.length) {
+      untagged++;
+      return;
+    }
+    item.examTags.forEach((tag) => {
+      counts[tag] = (counts[tag] ?? 0) + 1;
+    });
+  });
+  return {
+    tags: Object.entries(counts)
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count),
+    untagged,
+  };
+};
@@ -0,0 +1,387 @@
+/**
+ * 生词本导入导出
+ * - 导出：JSON（完整字段，可原样导入）、CSV（常用字段，便于表格查看）、Anki（制表符分隔，单词/上下文/释义/笔记字段）
+ * - 导入：JSON / CSV，使用 isSameWord 检测与现有生词及文件内部的重复，生成预览后再写入
+ * - 全部在本地完成，不依赖后端
+ */
+import { v4 as uuidv4 } from "uuid";
+import type { CommunityItemType, Sww } from "@/types/words";
+import { isSameWord, sendBackgroundFetch } from "@/utils";
+import { parseYouDaoHTML } from "./newYoudaoParser";
+import { getOccurrences } from "./occurrence";
+
+// ===================== 类型定义 =====================
+
+/** JSON 导出文件结构 */
+export interface VocabularyFile {
+  version: number;
+  exportDate: number;
+  swwList: Sww[];
+  remarkList: CommunityItemType[];
+}
+
+/** 导入预览中的一行 */
+export interface ImportRow {
+  sww: Sww;
+  remark?: CommunityItemType;
+  /** 是否与已有生词或文件中更早的行重复 */
+  duplicate: boolean;
+}
+
+/** JSON 导出文件版本 */
+const fileVersion = 1;
+
+/** CSV 列 */
+const csvColumns = [
+  "word",
+  "context",
+  "notes",
+  "masteryLevel",
+  "weight",
+  "searchCount",
+  "createDate",
+  "lastEditDate",
+] as const;
+
+// ===================== 通用工具 =====================
+
+/**
+ * 获取单词对应的笔记
+ * @param sww - 单词
+ * @param remarkList - 笔记列表
+ * @returns 笔记，没有时为 undefined
+ */
+const getRemark = (sww: Sww, remarkList: CommunityItemType[]) =>
+  remarkList.find(
+    (item) => item.type === "remark" && isSameWord(item.word, sww.word)
+  );
+
+/**
+ * 触发浏览器下载
+ * @param content - 文件内容
+ * @param filename - 文件名
+ * @param type - MIME 类型
+ */
+export const downloadFile = (
+  content: string,
+  filename: string,
+  type: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * 生成带日期的导出文件名
+ * @param ext - 扩展名
+ * @returns 文件名
+ */
+export const exportFilename = (ext: string) =>
+  `lingo-link-words-${new Date().toISOString().slice(0, 10)}.${ext}`;
+
+// ===================== 导出 =====================
+
+/**
+ * 导出为 JSON（包含单词的全部字段与对应笔记）
+ * @param swwList - 生词本
+ * @param remarkList - 笔记列表
+ * @returns JSON 字符串
+ */
+export const toJSON = (swwList: Sww[], remarkList: CommunityItemType[]) => {
+  const file: VocabularyFile = {
+    version: fileVersion,
+    exportDate: Date.now(),
+    swwList,
+    remarkList: remarkList.filter((item) =>
+      swwList.some((sww) => isSameWord(item.word, sww.word))
+    ),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * CSV 字段转义：包含逗号、引号或换行时用引号包裹
+ * @param value - 字段值
+ * @returns 转义后的字段
+ */
+const escapeCsv = (value: string | number | undefined) => {
+  const text = value === undefined ? "" : `${value}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 导出为 CSV
+ * @param swwList - 生词本
+ * @param remarkList - 笔记列表
+ * @returns CSV 字符串（带 BOM，方便 Excel 识别 UTF-8）
+ */
+export const toCSV = (swwList: Sww[], remarkList: CommunityItemType[]) => {
+  const rows = swwList.map((sww) =>
+    [
+      sww.word,
+      sww.context,
+      getRemark(sww, remarkList)?.content,
+      sww.masteryLevel,
+      sww.weight,
+      sww.searchCount,
+      sww.createDate,
+      sww.lastEditDate,
+    ]
+      .map(escapeCsv)
+      .join(",")
+  );
+  return "\uFEFF" + [csvColumns.join(","), ...rows].join("\r\n");
+};
+
+/**
+ * 转义 HTML（换行转为 <br>），Anki 以 HTML 方式导入与保存字段
+ * @param text - 文本
+ * @returns 转义后的文本
+ */
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\t/g, " ")
+    .replace(/\r?\n/g, "<br>");
+
+/**
+ * 从有道词典获取单词释义（每条释义一行）
+ * @param word - 单词
+ * @param lang - 源语言
+ * @returns 释义文本，获取失败时为空字符串
+ */
+export const fetchDefinition = async (word: string, lang: string) => {
+  try {
+    const html = await sendBackgroundFetch({
+      url: `https://www.youdao.com/result?word=${encodeURIComponent(word)}&lang=${lang}`,
+      responseType: "text",
+    });
+    if (!html || typeof html !== "string") {
+      return "";
+    }
+    return parseYouDaoHTML(html, lang)
+      .explains.map((item) => `${item.pos ?? ""} ${item.trans}`.trim())
+      .join("\n");
+  } catch (error) {
+    return "";
+  }
+};
+
+/**
+ * 导出为 Anki 可导入的文本文件
+ * 字段依次为：单词、上下文（单词加粗）、释义、笔记、全部上下文；文件头声明分隔符与 HTML
+ * @param swwList - 生词本
+ * @param remarkList - 笔记列表
+ * @param definitions - 单词ID → 释义
+ * @returns 文本内容
+ */
+export const toAnki = (
+  swwList: Sww[],
+  remarkList: CommunityItemType[],
+  definitions: Record<string, string> = {}
+) => {
+  // 在原句上按单词边界切分（奇数位为匹配的单词），再分别转义，避免破坏实体与标签
+  const boldWord = (sentence: string, word: string) =>
+    sentence
+      .split(
+        new RegExp(
+          `\\b(${word.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")})\\b`,
+          "gi"
+        )
+      )
+      .map((piece, index) =>
+        index % 2 ? `<b>${escapeHtml(piece)}</b>` : escapeHtml(piece)
+      )
+      .join("");
+  const rows = swwList.map((sww) =>
+    [
+      escapeHtml(sww.word),
+      boldWord(sww.context ?? "", sww.word),
+      escapeHtml(definitions[sww.id] ?? ""),
+      escapeHtml(getRemark(sww, remarkList)?.content ?? ""),
+      getOccurrences(sww)
+        .map((item) => boldWord(item.sentence, sww.word))
+        .join("<br>"),
+    ].join("\t")
+  );
+  return [
+    "#separator:tab",
+    "#html:true",
+    "#columns:Word\tContext\tDefinition\tNotes\tAll Contexts",
+    ...rows,
+  ].join("\n");
+};
+
+// ===================== 导入 =====================
+
+/**
+ * 解析 CSV（支持引号包裹、转义引号与字段内换行）
+ * @param text - CSV 文本
+ * @returns 行数组，每行为字段数组
+ */
+export const parseCSV = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((item) => item.some((cell) => cell.trim()));
+};
+
+/**
+ * 将字符串转为可选数字
+ * @param value - 字符串
+ * @returns 数字，为空或非法时为 undefined
+ */
+const toNumber = (value: string | undefined) => {
+  if (!value?.trim()) {
+    return undefined;
+  }
+  const num = Number(value);
+  return Number.isNaN(num) ? undefined : num;
+};
+
+/**
+ * 从 CSV 文本读取单词与笔记
+ * 第一行为表头，按列名匹配，至少需要 word 列
+ * @param text - CSV 文本
+ * @returns 单词与笔记
+ */
+const readCSV = (text: string) => {
+  const [header, ...rows] = parseCSV(text);
+  const columns = (header ?? []).map((item) => item.trim());
+  if (!columns.includes("word")) {
+    throw new Error("missing word column");
+  }
+  return rows
+    .map((cells) => {
+      const get = (name: (typeof csvColumns)[number]) =>
+        cells[columns.indexOf(name)]?.trim();
+      const masteryLevel = toNumber(get("masteryLevel"));
+      const sww: Sww = {
+        id: uuidv4(),
+        word: get("word") ?? "",
+        context: get("context") || undefined,
+        masteryLevel:
+          masteryLevel === 1 || masteryLevel === 2 ? masteryLevel : 0,
+        weight: toNumber(get("weight")),
+        searchCount: toNumber(get("searchCount")),
+        createDate: toNumber(get("createDate")),
+        lastEditDate: toNumber(get("lastEditDate")) ?? Date.now(),
+      };
+      return { sww, notes: get("notes") };
+    })
+    .filter((item) => item.sww.word);
+};
+
+/**
+ * 从 JSON 文本读取单词与笔记
+ * @param text - JSON 文本（本扩展导出的文件，或单词数组）
+ * @returns 单词与笔记
+ */
+const readJSON = (text: string) => {
+  const data = JSON.parse(text);
+  const swwList: Sww[] = Array.isArray(data) ? data : data?.swwList;
+  if (!Array.isArray(swwList)) {
+    throw new Error("missing swwList");
+  }
+  const remarkList: CommunityItemType[] = Array.isArray(data?.remarkList)
+    ? data.remarkList
+    : [];
+  // 缺少 id 的记录补全 id，否则写入 IndexedDB 时整批失败
+  return swwList
+    .filter((item) => typeof item?.word === "string" && item.word.trim())
+    .map((sww) => {
+      const remark = getRemark(sww, remarkList);
+      return {
+        sww: sww.id ? sww : { ...sww, id: uuidv4() },
+        remark: remark && !remark.id ? { ...remark, id: uuidv4() } : remark,
+      };
+    });
+};
+
+/**
+ * 解析导入文件并生成预览
+ * @param params - 解析参数
+ * @param params.text - 文件内容
+ * @param params.type - 文件类型
+ * @param params.swwList - 现有生词本（用于检测重复）
+ * @param params.author - 新建笔记的作者
+ * @returns 预览行
+ */
+export const parseImport = ({
+  text,
+  type,
+  swwList,
+  author,
+}: {
+  text: string;
+  type: "json" | "csv";
+  swwList: Sww[];
+  author: string;
+}): ImportRow[] => {
+  const items =
+    type === "json"
+      ? readJSON(text)
+      : readCSV(text).map(({ sww, notes }) => ({
+          sww,
+          remark: notes
+            ? ({
+                id: uuidv4(),
+                word: sww.word,
+                context: sww.context ?? "",
+                author,
+                lastEditDate: Date.now(),
+                content: notes,
+                type: "remark",
+              } as CommunityItemType)
+            : undefined,
+        }));
+  const existingIds = new Set(swwList.map((item) => item.id));
+  const seen: Sww[] = [...swwList];
+  return items.map(({ sww, remark }) => {
+    const duplicate = seen.some((item) => isSameWord(item.word, sww.word));
+    // 与现有单词ID冲突时重新生成，避免覆盖
+    const item = existingIds.has(sww.id) ? { ...sww, id: uuidv4() } : sww;
+    seen.push(item);
+    return { sww: item, remark, duplicate };
+  });
+};
@@ -1,18 +1,15 @@
 /**
  * 工具函数：翻译功能统一接口
- * - 支持多种翻译引擎的统一调用接口
+ * - 支持多种翻译引擎的统一调用接口，按引擎注册表（api/engines）分发
  * - 包括传统翻译服务（Google、有道、DeepLX）和AI引擎
  * - 提供流式响应支持和完整的错误处理
  * - 统一处理语言设置和文本格式化
  */
-import googleTranslate from "@/api/google";
-import deepLXTranslate from "@/api/deeplx";
 import { getSetting } from "@/storage/sync";
 import { defaultSetting } from "./const";
 import { formateText } from ".";
 import { EngineValue } from "@/types";
-import youdaoTranslate from "@/api/youdaoTranslate";
-import { getChat } from "@/api/chat";
+import { getEngine } from "@/api/engines";
 import type { ChatConstructor } from "@/api/openAI";
 import type { Message } from "@/types/chat";
 import type { Chat } from "@/types/chat";
@@ -69,7 +66,7 @@ const getPreMessages = ({
 
 /**
  * 主翻译函数
- * - 根据引擎类型分发到不同的翻译服务
+ * - 根据注册表中的引擎声明分发：非对话引擎调用翻译实现，对话引擎创建聊天实例
  * - 统一处理语言设置和响应格式
  * - 支持流式响应和错误处理
  * @param beforeRequest - 请求开始前回调
@@ -109,79 +106,47 @@ export default async function ({
   beforeRequest();
 
   try {
-    // 根据引擎类型分发翻译请求
-    switch (engine) {
-      // DeepLX翻译服务
-      case "deeplx":
-        {
-          const result = await deepLXTranslate({
-            text,
-          });
-          onSuccess(result!);
-        }
-        break;
-        
-      // Google翻译服务
-      case "google":
-        {
-          const googleResult = await googleTranslate({
-            text,
-            targetLang,  // Google翻译需要目标语言参数
-          });
-          onSuccess(googleResult);
-        }
-        break;
-        
-      // 有道翻译服务
-      case "youdao":
-        {
-          const youdaoResult = await youdaoTranslate({
-            text,
-            source: sourceLang,  // 有道翻译需要源语言参数
-            target: targetLang,  // 有道翻译需要目标语言参数
-          });
-          onSuccess(youdaoResult);
-        }
-        break;
-        
-      // AI引擎处理（默认情况）
-      default:
-        {
-          // 获取对应的聊天类
-          const chatClass = getChat(engine);
-          if (!chatClass) {
-            throw "engine doesn't exist";
-          }
-          
-          // 获取AI翻译的提示模板
-          const sentenceSystemPrompt =
-            setting.sentenceSystemPrompt ?? defaultSetting.sentenceSystemPrompt;
-          const sentenceUserContent =
-            setting.sentenceUserContent ?? defaultSetting.sentenceUserContent;
-          let chatInstance: Chat | null = null;
+    const provider = getEngine(engine, setting.openAIProfiles);
 
-          // 配置聊天选项
-          const chatOptions: ChatConstructor = {
-            preMessageList: getPreMessages({
-              text,
-              engine,
-              targetLang,
-              sentenceSystemPrompt,
-              sentenceUserContent,
-            }),
-            onComplete(result) {
-              onSuccess(result, chatInstance?.messageList);  // 传递消息列表用于对话
-            },
-            onGenerating,  // 流式生成回调
-            onError,       // 错误处理回调
-          };
-          
-          // 创建聊天实例并发送翻译请求
-          chatInstance = new chatClass(chatOptions);
-          chatInstance.sendMessage();
-        }
-        break;
+    // 非对话引擎：直接调用注册表中声明的翻译实现
+    if (provider?.translate) {
+      const result = await provider.translate({ text, sourceLang, targetLang });
+      onSuccess(result!);
+      return;
     }
+
+    // 对话引擎：获取对应的聊天类
+    const chatClass = provider?.chat;
+    if (!chatClass) {
+      throw "engine doesn't exist";
+    }
+
+    // 获取AI翻译的提示模板
+    const sentenceSystemPrompt =
+      setting.sentenceSystemPrompt ?? defaultSetting.sentenceSystemPrompt;
+    const sentenceUserContent =
+      setting.sentenceUserContent ?? defaultSetting.sentenceUserContent;
+    let chatInstance: Chat | null = null;
+
+    // 配置聊天选项
+    const chatOptions: ChatConstructor = {
+      preMessageList: getPreMessages({
+        text,
+        engine,
+        targetLang,
+        sentenceSystemPrompt,
+        sentenceUserContent,
+      }),
+      onComplete(result) {
+        onSuccess(result, chatInstance?.messageList);  // 传递消息列表用于对话
+      },
+      onGenerating,  // 流式生成回调
+      onError,       // 错误处理回调
+    };
+
+    // 创建聊天实例并发送翻译请求
+    chatInstance = new chatClass(chatOptions);
+    chatInstance.sendMessage();
   } catch (error) {
     // 统一错误处理
     onError(error as string);
@@ -1,8 +1,16 @@
 /**
  * 在页面中批量标记（高亮）指定单词
  * - 使用 TreeWalker 获取可见文本节点，插入自定义标签 translator-highlight；
- * - 提供移除标记与增量处理，避免编辑区域/忽略标签。
+ * - 提供移除标记与增量处理，避免编辑区域/忽略标签；
+ * - 生词表变化时可只标记新增的单词（incremental）、只移除指定单词的标记（unmarkWords），无需重新扫描整个页面；
+ * - 单词先还原为原形，再展开为屈折形式一并标记（如 running → run/runs/running/ran）。
  */
+import { getWordForms } from "./lemmatizer";
+
+/** 转义正则特殊字符 */
+const escapeRegExp = (str: string) =>
+  str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
 export const ignoreTags = [
   "CODE",
   "PICTURE",
@@ -71,17 +79,20 @@ export const treeWalkerMark = ({
   words,
   mouseoverCallback,
   mouseoutCallback,
+  incremental = false,
 }: {
   target: Node;
   words: string[];
   mouseoverCallback?: ({ ele }: { ele: HTMLElement }) => void;
   mouseoutCallback?: ()=>void
+  /** 只为 words 新增标记，不移除其他单词已有的标记 */
+  incremental?: boolean
 }) => {
   //const timer = Date.now() + ''
   //console.log("--invoke treeWalker--");
   //console.time(timer)  
   // fix only one world and click master bug
-  if (words instanceof Array && words.length === 0) {
+  if (!incremental && words instanceof Array && words.length === 0) {
     const list = document.querySelectorAll('translator-highlight');
     list.forEach(item => {
       item.parentElement?.replaceWith(item.parentElement.innerText)
@@ -89,7 +100,9 @@ export const treeWalkerMark = ({
   }
   if (!words || words.length === 0) return;
   
-  const wordJoinString = words.map((item) => `\\b${item}\\b`).join("|");
+  const wordJoinString = [...new Set(words.flatMap((item) => getWordForms(item)))]
+    .map((item) => `\\b${escapeRegExp(item)}\\b`)
+    .join("|");
   const reg = new RegExp(wordJoinString, "i");
   const globalReg = new RegExp(wordJoinString, "ig");
   
@@ -125,7 +138,7 @@ export const treeWalkerMark = ({
     while (treeWalker.nextNode()) {
       const node = treeWalker.currentNode as Text;
       const nodeData = node.data;
-      if (node.parentElement?.nodeName === 'TRANSLATOR-HIGHLIGHT' && (!reg.test(nodeData))) {        
+      if (!incremental && node.parentElement?.nodeName === 'TRANSLATOR-HIGHLIGHT' && (!reg.test(nodeData))) {        
         needRemoveList.push(node)
       } else if (node.parentElement?.nodeName !== 'TRANSLATOR-HIGHLIGHT' && reg.test(nodeData)&& node.parentElement?.checkVisibility()) {        
         needAddList.push(node);
@@ -180,6 +193,24 @@ export const treeWalkerMark = ({
   }
   //console.timeEnd(timer)
 };
+/**
+ * 移除指定单词（含屈折形式）的标记，与仍需标记的单词共享的形式保留
+ * @param words - 需要移除标记的单词
+ * @param keepWords - 仍需标记的单词
+ */
+export const unmarkWords = (words: string[], keepWords: string[]) => {
+  const keep = new Set(keepWords.flatMap((item) => getWordForms(item)));
+  const remove = new Set(
+    words.flatMap((item) => getWordForms(item)).filter((item) => !keep.has(item))
+  );
+  if (!remove.size) return;
+  document.querySelectorAll("translator-highlight").forEach((item) => {
+    const text = item.textContent ?? "";
+    if (remove.has(text.trim().toLocaleLowerCase())) {
+      item.replaceWith(text);
+    }
+  });
+};
 export const unMarkAll = () => {
   console.time('unmark')
   const highlighTags = document.querySelectorAll(".translate_extension_mark");